@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Authorization;
 using MongoDB.Bson;
 using System.Security.Claims;
+using Microsoft.Net.Http.Headers;
 using MyImage.Core.Interfaces.Repositories;
 using MyImage.Core.Interfaces.Services;
 using MyImage.Core.DTOs.Photos;
@@ -30,6 +31,7 @@ namespace MyImage.API.Controllers;
 public class PhotosController : ControllerBase
 {
     private readonly IPhotoRepository _photoRepository;
+    private readonly IPrintSizeRepository _printSizeRepository;
     private readonly IGridFsStorageService _storageService;
     private readonly IImageProcessingService _imageProcessingService;
     private readonly ILogger<PhotosController> _logger;
@@ -44,18 +46,21 @@ public class PhotosController : ControllerBase
     /// Initialize photos controller with required services and configuration.
     /// </summary>
     /// <param name="photoRepository">Photo data access repository</param>
+    /// <param name="printSizeRepository">Print size repository for the minimum print size filter</param>
     /// <param name="storageService">GridFS file storage service</param>
     /// <param name="imageProcessingService">Image processing and validation service</param>
     /// <param name="configuration">Application configuration for upload settings</param>
     /// <param name="logger">Logger for photo operations</param>
     public PhotosController(
         IPhotoRepository photoRepository,
+        IPrintSizeRepository printSizeRepository,
         IGridFsStorageService storageService,
         IImageProcessingService imageProcessingService,
         IConfiguration configuration,
         ILogger<PhotosController> logger)
     {
         _photoRepository = photoRepository;
+        _printSizeRepository = printSizeRepository;
         _storageService = storageService;
         _imageProcessingService = imageProcessingService;
         _logger = logger;
@@ -193,11 +198,14 @@ public class PhotosController : ControllerBase
 
     /// <summary>
     /// Get user's photo gallery with pagination.
-    /// Returns photos uploaded by the authenticated user, ordered by upload date (newest first).
+    /// Returns photos uploaded by the authenticated user, ordered by upload date (newest first)
+    /// unless sort and filter options are given. Options the API can't apply are dropped, and
+    /// the response echoes the ones it did so clients know what is left to do themselves.
     /// Only returns photos that haven't been soft-deleted.
     /// </summary>
     /// <param name="page">Page number (1-based)</param>
     /// <param name="pageSize">Items per page (1-100)</param>
+    /// <param name="query">Sort and filter options</param>
     /// <returns>Paginated photo gallery</returns>
     /// <response code="200">Photo gallery retrieved successfully</response>
     /// <response code="400">Invalid pagination parameters</response>
@@ -208,7 +216,8 @@ public class PhotosController : ControllerBase
     [ProducesResponseType(typeof(ApiResponse<object>), StatusCodes.Status401Unauthorized)]
     public async Task<ActionResult<ApiResponse<PhotoGalleryPageDto>>> GetPhotos(
         [FromQuery] int page = 1,
-        [FromQuery] int pageSize = 20)
+        [FromQuery] int pageSize = 20,
+        [FromQuery] PhotoQueryDto? query = null)
     {
         try
         {
@@ -231,8 +240,17 @@ public class PhotosController : ControllerBase
             _logger.LogDebug("Getting photos for user {UserId}, page {Page}, size {PageSize}",
                 userId, page, pageSize);
 
+            var applied = NormalizeQuery(query);
+            var minPrintSize = applied.MinPrintSize != null
+                ? await _printSizeRepository.GetBySizeCodeAsync(applied.MinPrintSize)
+                : null;
+            if (minPrintSize == null)
+            {
+                applied.MinPrintSize = null;
+            }
+
             // Get paginated photos from repository
-            var pagedPhotos = await _photoRepository.GetUserPhotosAsync(userId.Value, page, pageSize);
+            var pagedPhotos = await _photoRepository.GetUserPhotosAsync(userId.Value, page, pageSize, applied, minPrintSize);
 
             // Convert to DTOs for API response
             var galleryItems = pagedPhotos.Items.Select(photo => new PhotoGalleryDto
@@ -259,7 +277,10 @@ public class PhotosController : ControllerBase
                 TotalCount = pagedPhotos.TotalCount,
                 Page = pagedPhotos.Page,
                 PageSize = pagedPhotos.PageSize,
-                TotalPages = pagedPhotos.TotalPages
+                TotalPages = pagedPhotos.TotalPages,
+                Query = applied,
+                // Folder choices cover the whole library, so they only come with the first page
+                SourceFolders = page == 1 ? await _photoRepository.GetUserFoldersAsync(userId.Value) : null
             };
 
             return Ok(ApiResponse<PhotoGalleryPageDto>.SuccessResponse(
@@ -280,10 +301,13 @@ public class PhotosController : ControllerBase
     /// Download original photo file.
     /// Returns the full-resolution image file for viewing or printing.
     /// Enforces user ownership to prevent unauthorized access.
+    /// Stored files never change, so the GridFS id serves as the ETag and
+    /// clients revalidating a cached copy get 304 Not Modified.
     /// </summary>
     /// <param name="id">Photo ID</param>
     /// <returns>Photo file stream</returns>
     /// <response code="200">Photo file</response>
+    /// <response code="304">The client's copy is current</response>
     /// <response code="401">Authentication required</response>
     /// <response code="404">Photo not found or not owned by user</response>
     [HttpGet("{id}/download")]
@@ -329,8 +353,9 @@ public class PhotosController : ControllerBase
                     "The photo file is missing from storage"));
             }
 
-            // Return file with appropriate content type
-            return File(fileStream, "image/jpeg", photo.FileInfo.OriginalFilename);
+            // Return file with appropriate content type; a matching If-None-Match gets 304
+            return File(fileStream, "image/jpeg", photo.FileInfo.OriginalFilename,
+                lastModified: null, entityTag: new EntityTagHeaderValue($"\"{photo.Storage.GridFsFileId}\""));
         }
         catch (Exception ex)
         {
@@ -346,10 +371,12 @@ public class PhotosController : ControllerBase
     /// Get photo thumbnail for gallery display.
     /// Returns scaled-down version of the photo for efficient gallery loading.
     /// Thumbnails are generated during upload and cached in GridFS.
+    /// Stored thumbnails carry their GridFS id as the ETag, like downloads.
     /// </summary>
     /// <param name="id">Photo ID</param>
     /// <returns>Thumbnail image file</returns>
     /// <response code="200">Thumbnail image file</response>
+    /// <response code="304">The client's copy is current</response>
     /// <response code="401">Authentication required</response>
     /// <response code="404">Photo or thumbnail not found</response>
     [HttpGet("{id}/thumbnail")]
@@ -380,6 +407,7 @@ public class PhotosController : ControllerBase
 
             // Download thumbnail from GridFS
             var thumbnailStream = await _storageService.DownloadFileAsync(photo.Storage.ThumbnailGridFsId);
+            var isStored = thumbnailStream != null;
             if (thumbnailStream == null)
             {
                 // If thumbnail is missing, generate it on-demand from original
@@ -397,7 +425,12 @@ public class PhotosController : ControllerBase
 
             // Return thumbnail with caching headers for performance
             Response.Headers.Add("Cache-Control", "public, max-age=3600"); // Cache for 1 hour
-            return File(thumbnailStream, "image/jpeg");
+            if (!isStored)
+            {
+                return File(thumbnailStream, "image/jpeg"); // Generated afresh, so nothing stable to tag it with
+            }
+            return File(thumbnailStream, "image/jpeg",
+                lastModified: null, entityTag: new EntityTagHeaderValue($"\"{photo.Storage.ThumbnailGridFsId}\""));
         }
         catch (Exception ex)
         {
@@ -600,6 +633,25 @@ public class PhotosController : ControllerBase
         return $"{userId}_{timestamp}_{sequence}{extension}";
     }
 
+    /// <summary>
+    /// Reduce gallery options to the ones the repository can apply.
+    /// Unknown sort fields fall back to newest upload first; unknown filters are dropped.
+    /// </summary>
+    private static PhotoQueryDto NormalizeQuery(PhotoQueryDto? query)
+    {
+        var sortable = query != null && PhotoQueryDto.SortFields.Contains(query.SortBy);
+
+        return new PhotoQueryDto
+        {
+            SortBy = sortable ? query!.SortBy : "uploadedAt",
+            SortDirection = sortable && query!.SortDirection == "asc" ? "asc" : "desc",
+            Search = string.IsNullOrWhiteSpace(query?.Search) ? null : query.Search.Trim(),
+            IsOrdered = query?.IsOrdered,
+            SourceFolder = string.IsNullOrEmpty(query?.SourceFolder) ? null : query.SourceFolder,
+            MinPrintSize = string.IsNullOrWhiteSpace(query?.MinPrintSize) ? null : query.MinPrintSize
+        };
+    }
+
     /// <summary>
     /// Extract authenticated user ID from JWT token claims.
     /// </summary>
@@ -76,6 +76,7 @@ try
             policy.WithOrigins(allowedOrigins)
                   .AllowAnyMethod()         // Allow GET, POST, PUT, DELETE, etc.
                   .AllowAnyHeader()         // Allow Authorization, Content-Type, etc.
+                  .WithExposedHeaders("ETag") // Lets the frontend revalidate the images it stores
                   .AllowCredentials()       // Required for cookies and auth headers
                   .SetPreflightMaxAge(TimeSpan.FromMinutes(30)) // Cache preflight requests for performance
                   .SetIsOriginAllowed(origin =>
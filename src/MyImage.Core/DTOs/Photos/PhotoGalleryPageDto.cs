@@ -50,4 +50,17 @@ public class PhotoGalleryPageDto
     /// Convenience property for "Previous" button state
     /// </summary>
     public bool HasPreviousPage => Page > 1;
+
+    /// <summary>
+    /// Sort and filter options actually applied to this page.
+    /// Options the API can't apply are left at their defaults, so clients can
+    /// tell which ones they still need to apply themselves.
+    /// </summary>
+    public PhotoQueryDto Query { get; set; } = new();
+
+    /// <summary>
+    /// Every folder the user has uploaded from, for filtering by folder.
+    /// Only included with the first page.
+    /// </summary>
+    public List<string>? SourceFolders { get; set; }
 }
\ No newline at end of file
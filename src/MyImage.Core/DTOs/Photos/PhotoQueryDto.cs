@@ -0,0 +1,45 @@
+namespace MyImage.Core.DTOs.Photos;
+
+/// <summary>
+/// Sort and filter options for the photo gallery, read from the query string.
+/// Every option is optional; without any, photos come newest upload first.
+/// </summary>
+public class PhotoQueryDto
+{
+    /// <summary>
+    /// Fields the gallery can be sorted on here.
+    /// Date taken and orientation depend on EXIF, which isn't stored with the photo,
+    /// so clients sort and filter on those themselves.
+    /// </summary>
+    public static readonly string[] SortFields = { "uploadedAt", "filename", "fileSize", "resolution" };
+
+    /// <summary>
+    /// Field to sort on: uploadedAt, filename, fileSize or resolution
+    /// </summary>
+    public string SortBy { get; set; } = "uploadedAt";
+
+    /// <summary>
+    /// "asc" or "desc"
+    /// </summary>
+    public string SortDirection { get; set; } = "desc";
+
+    /// <summary>
+    /// Part of the filename, matched regardless of case
+    /// </summary>
+    public string? Search { get; set; }
+
+    /// <summary>
+    /// Only photos that have (true) or have not (false) been ordered
+    /// </summary>
+    public bool? IsOrdered { get; set; }
+
+    /// <summary>
+    /// Only photos uploaded from this folder
+    /// </summary>
+    public string? SourceFolder { get; set; }
+
+    /// <summary>
+    /// Size code of a print size the photo must meet the recommended resolution for
+    /// </summary>
+    public string? MinPrintSize { get; set; }
+}
@@ -1,5 +1,6 @@
 using MyImage.Core.Entities;
 using MyImage.Core.DTOs.Common;
+using MyImage.Core.DTOs.Photos;
 using MongoDB.Bson;
 
 namespace MyImage.Core.Interfaces.Repositories;
@@ -26,8 +27,23 @@ public interface IPhotoRepository
     /// <param name="userId">User's ObjectId</param>
     /// <param name="page">Page number (1-based)</param>
     /// <param name="pageSize">Items per page</param>
+    /// <param name="query">Validated sort and filter options; newest upload first when null</param>
+    /// <param name="minPrintSize">Print size the photos must meet the recommended resolution for</param>
     /// <returns>Paginated photo results</returns>
-    Task<PagedResult<Photo>> GetUserPhotosAsync(ObjectId userId, int page, int pageSize);
+    Task<PagedResult<Photo>> GetUserPhotosAsync(
+        ObjectId userId,
+        int page,
+        int pageSize,
+        PhotoQueryDto? query = null,
+        PrintSize? minPrintSize = null);
+
+    /// <summary>
+    /// Get the folders a user's photos were uploaded from.
+    /// Lets the gallery offer every folder as a filter before all pages are loaded.
+    /// </summary>
+    /// <param name="userId">User's ObjectId</param>
+    /// <returns>Folder paths in alphabetical order</returns>
+    Task<List<string>> GetUserFoldersAsync(ObjectId userId);
 
     /// <summary>
     /// Get specific photo by ID with ownership verification.
@@ -3,7 +3,9 @@ using MongoDB.Bson;
 using MyImage.Core.Entities;
 using MyImage.Core.Interfaces.Repositories;
 using MyImage.Core.DTOs.Common;
+using MyImage.Core.DTOs.Photos;
 using Microsoft.Extensions.Logging;
+using System.Text.RegularExpressions;
 
 namespace MyImage.Infrastructure.Data.Repositories;
 
@@ -88,24 +90,28 @@ public class PhotoRepository : IPhotoRepository
     /// <summary>
     /// Get paginated photos for a specific user.
     /// Implements efficient photo gallery display with user ownership enforcement.
-    /// Only returns photos that are not soft-deleted, ordered by upload date (newest first).
+    /// Only returns photos that are not soft-deleted, ordered by upload date (newest first)
+    /// unless the query asks for another order or narrows the photos down.
     /// </summary>
     /// <param name="userId">User's ObjectId</param>
     /// <param name="page">Page number (1-based)</param>
     /// <param name="pageSize">Items per page</param>
+    /// <param name="query">Validated sort and filter options; newest upload first when null</param>
+    /// <param name="minPrintSize">Print size the photos must meet the recommended resolution for</param>
     /// <returns>Paginated photo results with metadata</returns>
-    public async Task<PagedResult<Photo>> GetUserPhotosAsync(ObjectId userId, int page, int pageSize)
+    public async Task<PagedResult<Photo>> GetUserPhotosAsync(
+        ObjectId userId,
+        int page,
+        int pageSize,
+        PhotoQueryDto? query = null,
+        PrintSize? minPrintSize = null)
     {
         try
         {
             _logger.LogDebug("Getting photos for user {UserId}, page {Page}, size {PageSize}",
                 userId, page, pageSize);
 
-            // Build filter for user's non-deleted photos
-            var filter = Builders<Photo>.Filter.And(
-                Builders<Photo>.Filter.Eq(p => p.UserId, userId),
-                Builders<Photo>.Filter.Eq("flags.isDeleted", false)
-            );
+            var filter = BuildGalleryFilter(userId, query, minPrintSize);
 
             // Calculate skip amount for pagination
             var skip = (page - 1) * pageSize;
@@ -113,13 +119,44 @@ public class PhotoRepository : IPhotoRepository
             // Get total count for pagination metadata
             var totalCount = await _photos.CountDocumentsAsync(filter);
 
-            // Get photos ordered by creation date (newest first)
-            var photos = await _photos
-                .Find(filter)
-                .Sort(Builders<Photo>.Sort.Descending("metadata.createdAt"))
-                .Skip(skip)
-                .Limit(pageSize)
-                .ToListAsync();
+            // Ties are broken by id so photos never swap places between pages
+            var direction = query?.SortDirection == "asc" ? 1 : -1;
+            List<Photo> photos;
+
+            if (query?.SortBy == "resolution")
+            {
+                // Pixel count isn't stored, so it's worked out in the pipeline and dropped again
+                photos = await _photos.Aggregate()
+                    .Match(filter)
+                    .AppendStage<Photo>(new BsonDocument("$addFields", new BsonDocument("pixelCount",
+                        new BsonDocument("$multiply", new BsonArray { "$dimensions.width", "$dimensions.height" }))))
+                    .Sort(new BsonDocument { { "pixelCount", direction }, { "_id", direction } })
+                    .Skip(skip)
+                    .Limit(pageSize)
+                    .AppendStage<Photo>(new BsonDocument("$unset", "pixelCount"))
+                    .ToListAsync();
+            }
+            else
+            {
+                var field = query?.SortBy switch
+                {
+                    "filename" => "fileInfo.originalFilename",
+                    "fileSize" => "fileInfo.fileSize",
+                    _ => "metadata.createdAt"
+                };
+
+                // Filenames sort the way people read them: "IMG_2" before "IMG_10", regardless of case
+                var options = query?.SortBy == "filename"
+                    ? new FindOptions { Collation = new Collation("en", strength: CollationStrength.Secondary, numericOrdering: true) }
+                    : null;
+
+                photos = await _photos
+                    .Find(filter, options)
+                    .Sort(new BsonDocument { { field, direction }, { "_id", direction } })
+                    .Skip(skip)
+                    .Limit(pageSize)
+                    .ToListAsync();
+            }
 
             var result = new PagedResult<Photo>
             {
@@ -141,6 +178,74 @@ public class PhotoRepository : IPhotoRepository
         }
     }
 
+    /// <summary>
+    /// Get the folders a user's photos were uploaded from.
+    /// Photos uploaded without a folder are left out.
+    /// </summary>
+    /// <param name="userId">User's ObjectId</param>
+    /// <returns>Folder paths in alphabetical order</returns>
+    public async Task<List<string>> GetUserFoldersAsync(ObjectId userId)
+    {
+        try
+        {
+            var filter = BuildGalleryFilter(userId, null, null);
+            var folders = await _photos.Distinct<string>("fileInfo.sourceFolderPath", filter).ToListAsync();
+
+            return folders
+                .Where(folder => !string.IsNullOrEmpty(folder) && folder != "Unknown")
+                .OrderBy(folder => folder, StringComparer.OrdinalIgnoreCase)
+                .ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to get photo folders for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Filter for a user's non-deleted photos, narrowed by the gallery query.
+    /// </summary>
+    private static FilterDefinition<Photo> BuildGalleryFilter(ObjectId userId, PhotoQueryDto? query, PrintSize? minPrintSize)
+    {
+        var builder = Builders<Photo>.Filter;
+        var filters = new List<FilterDefinition<Photo>>
+        {
+            builder.Eq(p => p.UserId, userId),
+            builder.Eq("flags.isDeleted", false)
+        };
+
+        if (!string.IsNullOrEmpty(query?.Search))
+        {
+            filters.Add(builder.Regex("fileInfo.originalFilename",
+                new BsonRegularExpression(Regex.Escape(query.Search), "i")));
+        }
+
+        if (query?.IsOrdered != null)
+        {
+            filters.Add(builder.Eq("orderInfo.isOrdered", query.IsOrdered.Value));
+        }
+
+        if (!string.IsNullOrEmpty(query?.SourceFolder))
+        {
+            filters.Add(builder.Eq("fileInfo.sourceFolderPath", query.SourceFolder));
+        }
+
+        // The photo may be turned either way to fit the print
+        if (minPrintSize != null)
+        {
+            var requirements = minPrintSize.Dimensions.PixelRequirements;
+            var longSide = Math.Max(requirements.RecommendedWidth, requirements.RecommendedHeight);
+            var shortSide = Math.Min(requirements.RecommendedWidth, requirements.RecommendedHeight);
+
+            filters.Add(builder.Or(
+                builder.And(builder.Gte("dimensions.width", longSide), builder.Gte("dimensions.height", shortSide)),
+                builder.And(builder.Gte("dimensions.width", shortSide), builder.Gte("dimensions.height", longSide))));
+        }
+
+        return builder.And(filters);
+    }
+
     /// <summary>
     /// Get specific photo by ID with ownership verification.
     /// Ensures users can only access their own photos for security.
@@ -30,6 +30,11 @@ const routes: Routes = [
     loadChildren: () => import('./features/orders/orders.module').then(m => m.OrdersModule),
     canActivate: [AuthGuard]
   },
+  {
+    path: 'account',
+    loadChildren: () => import('./features/account/account.module').then(m => m.AccountModule),
+    canActivate: [AuthGuard]
+  },
 
   // Admin routes
   {
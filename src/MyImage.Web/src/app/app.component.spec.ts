@@ -1,29 +1,50 @@
+import { NO_ERRORS_SCHEMA } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
 import { AppComponent } from './app.component';
+import { AuthService } from './core/services/auth.service';
+import { IdleService } from './core/services/idle.service';
+import { SessionService } from './core/services/session.service';
 
 describe('AppComponent', () => {
+  let sessionService: jasmine.SpyObj<SessionService>;
+  let idleService: jasmine.SpyObj<IdleService>;
+
   beforeEach(async () => {
+    sessionService = jasmine.createSpyObj<SessionService>('SessionService', ['start']);
+    idleService = jasmine.createSpyObj<IdleService>('IdleService', ['start']);
+
     await TestBed.configureTestingModule({
-      imports: [AppComponent],
+      declarations: [AppComponent],
+      providers: [
+        { provide: AuthService, useValue: {} },
+        { provide: SessionService, useValue: sessionService },
+        { provide: IdleService, useValue: idleService }
+      ],
+      // The header, banners and router outlet are covered by their own modules
+      schemas: [NO_ERRORS_SCHEMA]
     }).compileComponents();
   });
 
   it('should create the app', () => {
     const fixture = TestBed.createComponent(AppComponent);
-    const app = fixture.componentInstance;
-    expect(app).toBeTruthy();
+
+    expect(fixture.componentInstance).toBeTruthy();
   });
 
-  it(`should have the 'temp-angular-app' title`, () => {
+  it('should start the session and idle timers', () => {
     const fixture = TestBed.createComponent(AppComponent);
-    const app = fixture.componentInstance;
-    expect(app.title).toEqual('temp-angular-app');
+    fixture.detectChanges();
+
+    expect(sessionService.start).toHaveBeenCalled();
+    expect(idleService.start).toHaveBeenCalled();
   });
 
-  it('should render title', () => {
+  it('should render the page shell', () => {
     const fixture = TestBed.createComponent(AppComponent);
     fixture.detectChanges();
     const compiled = fixture.nativeElement as HTMLElement;
-    expect(compiled.querySelector('h1')?.textContent).toContain('Hello, temp-angular-app');
+
+    expect(compiled.querySelector('app-header')).toBeTruthy();
+    expect(compiled.querySelector('main router-outlet')).toBeTruthy();
   });
 });
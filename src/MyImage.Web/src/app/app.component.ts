@@ -1,5 +1,7 @@
-import { Component } from '@angular/core';
+import { Component, OnInit } from '@angular/core';
 import { AuthService } from './core/services/auth.service';
+import { IdleService } from './core/services/idle.service';
+import { SessionService } from './core/services/session.service';
 
 @Component({
   selector: 'app-root',
@@ -7,9 +9,11 @@ import { AuthService } from './core/services/auth.service';
   template: `
     <div class="app-container">
       <app-header></app-header>
+      <app-upload-banner></app-upload-banner>
       <main class="main-content">
         <router-outlet></router-outlet>
       </main>
+      <app-idle-warning></app-idle-warning>
     </div>
   `,
   styles: [`
@@ -34,6 +38,17 @@ import { AuthService } from './core/services/auth.service';
     }
   `]
 })
-export class AppComponent {
-  constructor(private authService: AuthService) {}
+export class AppComponent implements OnInit {
+  constructor(
+    private authService: AuthService,
+    private sessionService: SessionService,
+    private idleService: IdleService
+  ) {}
+
+  ngOnInit(): void {
+    // Warn before the token expires and log out cleanly when it does
+    this.sessionService.start();
+    // Sign out after inactivity - shorter on devices in kiosk mode
+    this.idleService.start();
+  }
 }
@@ -34,15 +34,23 @@ import { AppComponent } from './app.component';
 import { AuthInterceptor } from './core/interceptors/auth.interceptor';
 import { ErrorInterceptor } from './core/interceptors/error.interceptor';
 
+import { SharedModule } from './shared/shared.module';
+
 // Components
 import { HeaderComponent } from './shared/components/header/header.component';
 import { LoadingSpinnerComponent } from './shared/components/loading-spinner/loading-spinner.component';
+import { IdleWarningComponent } from './shared/components/idle-warning/idle-warning.component';
+import { SessionExpiryDialogComponent } from './shared/components/session-expiry-dialog/session-expiry-dialog.component';
+import { UploadBannerComponent } from './shared/components/upload-banner/upload-banner.component';
 
 @NgModule({
   declarations: [
     AppComponent,
     HeaderComponent,
-    LoadingSpinnerComponent
+    LoadingSpinnerComponent,
+    SessionExpiryDialogComponent,
+    IdleWarningComponent,
+    UploadBannerComponent
   ],
   imports: [
     BrowserModule,
@@ -51,6 +59,7 @@ import { LoadingSpinnerComponent } from './shared/components/loading-spinner/loa
     ReactiveFormsModule,
     FormsModule,
     AppRoutingModule,
+    SharedModule,
 
     // Material modules
     MatToolbarModule,
@@ -1,5 +1,6 @@
 import { Injectable } from '@angular/core';
-import { CanActivate, Router } from '@angular/router';
+import { CanActivate, Router, UrlTree } from '@angular/router';
+import { Observable, map } from 'rxjs';
 import { AuthService } from '../services/auth.service';
 
 @Injectable({
@@ -11,12 +12,16 @@ export class AdminGuard implements CanActivate {
     private router: Router
   ) {}
 
-  canActivate(): boolean {
-    if (this.authService.isAuthenticated() && this.authService.isAdmin()) {
-      return true;
-    }
+  canActivate(): Observable<boolean | UrlTree> {
+    // The role is only known once /auth/me returns, so wait for it after a reload
+    return this.authService.waitForUser().pipe(
+      map(user => {
+        if (this.authService.isAuthenticated() && this.authService.hasPermission('admin.access', user)) {
+          return true;
+        }
 
-    this.router.navigate(['/photos']);
-    return false;
+        return this.router.createUrlTree(['/photos']);
+      })
+    );
   }
 }
@@ -1,5 +1,6 @@
 import { Injectable } from '@angular/core';
-import { ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot } from '@angular/router';
+import { ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { Observable, map } from 'rxjs';
 import { AuthService } from '../services/auth.service';
 
 @Injectable({
@@ -11,13 +12,17 @@ export class AuthGuard implements CanActivate {
     private router: Router
   ) {}
 
-  canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): boolean {
-    if (this.authService.isAuthenticated()) {
-      return true;
-    }
+  canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
+    // Wait for /auth/me so a rejected token is caught before the page loads
+    return this.authService.waitForUser().pipe(
+      map(() => {
+        if (this.authService.isAuthenticated()) {
+          return true;
+        }
 
-    // Store the attempted URL for redirecting
-    this.router.navigate(['/login'], { queryParams: { returnUrl: state.url } });
-    return false;
+        // Store the attempted URL for redirecting
+        return this.router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+      })
+    );
   }
 }
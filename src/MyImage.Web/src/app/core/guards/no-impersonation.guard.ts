@@ -0,0 +1,32 @@
+import { Injectable } from '@angular/core';
+import { CanActivate, Router, UrlTree } from '@angular/router';
+import { Observable, map } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+import { NotificationService } from '../services/notification.service';
+
+/**
+ * Keeps admins who are viewing as a customer out of checkout and payment pages.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NoImpersonationGuard implements CanActivate {
+  constructor(
+    private authService: AuthService,
+    private notificationService: NotificationService,
+    private router: Router
+  ) {}
+
+  canActivate(): Observable<boolean | UrlTree> {
+    return this.authService.waitForUser().pipe(
+      map(() => {
+        if (!this.authService.isImpersonating()) {
+          return true;
+        }
+
+        this.notificationService.showWarning('Checkout is disabled while viewing as a customer');
+        return this.router.createUrlTree(['/cart']);
+      })
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@angular/core';
+import { ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { Observable, map } from 'rxjs';
+import { Permission } from '../../shared/models/permission.models';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Allows the route when the user holds every permission listed in
+ * route data, e.g. `data: { permissions: ['orders.manage'] }`. A user must
+ * be signed in even when the route lists none.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionGuard implements CanActivate {
+  constructor(
+    private authService: AuthService,
+    private router: Router
+  ) {}
+
+  canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
+    const required: Permission[] = route.data['permissions'] ?? [];
+
+    return this.authService.waitForUser().pipe(
+      map(user => {
+        if (!user || !this.authService.isAuthenticated()) {
+          return this.router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+        }
+        if (this.authService.hasPermission(required, user)) {
+          return true;
+        }
+
+        return this.router.createUrlTree(['/photos']);
+      })
+    );
+  }
+}
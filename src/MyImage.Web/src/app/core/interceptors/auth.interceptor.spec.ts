@@ -0,0 +1,234 @@
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Injector } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, Subject, defer, of, throwError } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { ApiResponse } from '../../shared/models/api.models';
+import { AuthResponse } from '../../shared/models/auth.models';
+import { AuthService } from '../services/auth.service';
+import { ImpersonationService } from '../services/impersonation.service';
+import { NotificationService } from '../services/notification.service';
+import { AuthInterceptor } from './auth.interceptor';
+
+describe('AuthInterceptor', () => {
+  const photosUrl = `${environment.apiUrl}/photos`;
+
+  let token: string | null;
+  let refreshToken: string | null;
+  let refreshUnavailable: boolean;
+  let authService: jasmine.SpyObj<AuthService>;
+  let impersonationService: jasmine.SpyObj<ImpersonationService>;
+  let notificationService: jasmine.SpyObj<NotificationService>;
+  let router: jasmine.SpyObj<Router>;
+  let interceptor: AuthInterceptor;
+
+  // Tokens the fake API accepts; requests with any other token get a 401
+  let validTokens: Set<string>;
+  let sentTokens: (string | null)[];
+
+  const unauthorized = (url = photosUrl) => new HttpErrorResponse({ status: 401, url });
+
+  const api: HttpHandler = {
+    handle: (req: HttpRequest<any>): Observable<HttpEvent<any>> => {
+      const sent = req.headers.get('Authorization')?.replace('Bearer ', '') ?? null;
+      sentTokens.push(sent);
+      return sent && validTokens.has(sent)
+        ? of(new HttpResponse({ status: 200, body: { sent } }))
+        : throwError(() => unauthorized(req.url));
+    }
+  };
+
+  const refreshed = (newToken: string): ApiResponse<AuthResponse> =>
+    ({ success: true, message: '', errors: [], timestamp: '', data: { token: newToken } as AuthResponse });
+
+  // Like the real refresh: the new token is stored before the response arrives
+  const refreshResponse = (newToken: string) => defer(() => {
+    token = newToken;
+    validTokens.add(newToken);
+    return of(refreshed(newToken));
+  });
+
+  const get = (handler: HttpHandler = api) => interceptor.intercept(new HttpRequest('GET', photosUrl), handler);
+
+  beforeEach(() => {
+    token = 'old';
+    refreshToken = 'refresh-1';
+    refreshUnavailable = false;
+    validTokens = new Set();
+    sentTokens = [];
+
+    authService = jasmine.createSpyObj<AuthService>('AuthService', ['getToken', 'canRefreshSession', 'refreshSession', 'logout']);
+    authService.getToken.and.callFake(() => token);
+    authService.canRefreshSession.and.callFake(() => !!refreshToken && !refreshUnavailable);
+    authService.logout.and.callFake(() => token = null);
+    authService.refreshSession.and.callFake(() => refreshResponse('new'));
+
+    impersonationService = jasmine.createSpyObj<ImpersonationService>('ImpersonationService', ['isImpersonating', 'stop']);
+    impersonationService.isImpersonating.and.returnValue(false);
+    notificationService = jasmine.createSpyObj<NotificationService>('NotificationService', ['showWarning']);
+    router = jasmine.createSpyObj<Router>('Router', ['navigate'], { url: '/photos' });
+
+    const injector = { get: () => impersonationService } as unknown as Injector;
+    interceptor = new AuthInterceptor(authService, router, notificationService, injector);
+  });
+
+  it('should send the current token as a bearer token', () => {
+    validTokens.add('old');
+    get().subscribe();
+
+    expect(sentTokens).toEqual(['old']);
+  });
+
+  it('should refresh once on 401 and replay the request with the new token', () => {
+    const responses: HttpEvent<any>[] = [];
+    get().subscribe(event => responses.push(event));
+
+    expect(authService.refreshSession).toHaveBeenCalledTimes(1);
+    expect(sentTokens).toEqual(['old', 'new']);
+    expect((responses[0] as HttpResponse<any>).body).toEqual({ sent: 'new' });
+  });
+
+  it('should share one refresh between requests rejected at the same time', () => {
+    const first = new Subject<HttpEvent<any>>();
+    const second = new Subject<HttpEvent<any>>();
+    const pending = [first, second];
+    const slowApi: HttpHandler = {
+      handle: req => {
+        const answer = pending.shift();
+        if (!answer) {
+          return api.handle(req);
+        }
+        sentTokens.push('old');
+        return answer;
+      }
+    };
+
+    const refresh = new Subject<ApiResponse<AuthResponse>>();
+    authService.refreshSession.and.returnValue(refresh);
+
+    let replayed = 0;
+    get(slowApi).subscribe(() => replayed++);
+    get(slowApi).subscribe(() => replayed++);
+    first.error(unauthorized());
+    second.error(unauthorized());
+    expect(authService.refreshSession).toHaveBeenCalledTimes(1);
+
+    token = 'new';
+    validTokens.add('new');
+    refresh.next(refreshed('new'));
+    refresh.complete();
+
+    expect(sentTokens).toEqual(['old', 'old', 'new', 'new']);
+    expect(replayed).toBe(2);
+  });
+
+  it('should hold new requests while a refresh runs', () => {
+    const refresh = new Subject<ApiResponse<AuthResponse>>();
+    authService.refreshSession.and.returnValue(refresh);
+
+    get().subscribe();
+    get().subscribe();
+    expect(sentTokens).toEqual(['old']);
+
+    token = 'new';
+    validTokens.add('new');
+    refresh.next(refreshed('new'));
+    refresh.complete();
+
+    expect(authService.refreshSession).toHaveBeenCalledTimes(1);
+    expect(sentTokens).toEqual(['old', 'new', 'new']);
+  });
+
+  it('should replay a late 401 with the current token instead of refreshing again', () => {
+    // The first request is answered only after another request has refreshed the token
+    const late = new Subject<HttpEvent<any>>();
+    let calls = 0;
+    const slowApi: HttpHandler = {
+      handle: req => {
+        if (calls++ > 0) {
+          return api.handle(req);
+        }
+        sentTokens.push('old');
+        return late;
+      }
+    };
+
+    let replayed = false;
+    get(slowApi).subscribe(() => replayed = true);
+    token = 'new';
+    validTokens.add('new');
+    late.error(unauthorized());
+
+    expect(authService.refreshSession).not.toHaveBeenCalled();
+    expect(authService.logout).not.toHaveBeenCalled();
+    expect(sentTokens).toEqual(['old', 'new']);
+    expect(replayed).toBeTrue();
+  });
+
+  it('should log out when the replayed request is rejected too', () => {
+    authService.refreshSession.and.callFake(() => defer(() => {
+      token = 'new'; // Stored, but the API still refuses it
+      return of(refreshed('new'));
+    }));
+
+    let error: HttpErrorResponse | undefined;
+    get().subscribe({ error: e => error = e });
+
+    expect(sentTokens).toEqual(['old', 'new']);
+    expect(error?.status).toBe(401);
+    expect(authService.logout).toHaveBeenCalledTimes(1);
+    expect(router.navigate).toHaveBeenCalledWith(['/login'], { queryParams: { returnUrl: '/photos' } });
+  });
+
+  it('should log out and pass on the 401 when the refresh fails', () => {
+    authService.refreshSession.and.returnValue(throwError(() => new HttpErrorResponse({ status: 401 })));
+
+    let error: HttpErrorResponse | undefined;
+    get().subscribe({ error: e => error = e });
+
+    expect(error?.url).toBe(photosUrl);
+    expect(authService.logout).toHaveBeenCalledTimes(1);
+    expect(sentTokens).toEqual(['old']);
+  });
+
+  it('should stop trying to refresh once the API turns out not to have the endpoint', () => {
+    authService.refreshSession.and.callFake(() => {
+      refreshUnavailable = true; // As AuthService does on a 404
+      return throwError(() => new HttpErrorResponse({ status: 404 }));
+    });
+    get().subscribe({ error: () => {} });
+
+    token = 'other';
+    get().subscribe({ error: () => {} });
+
+    expect(authService.refreshSession).toHaveBeenCalledTimes(1);
+    expect(authService.logout).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log out straight away without a refresh token', () => {
+    refreshToken = null;
+    get().subscribe({ error: () => {} });
+
+    expect(authService.refreshSession).not.toHaveBeenCalled();
+    expect(authService.logout).toHaveBeenCalledTimes(1);
+  });
+
+  it('should end a customer view rather than the admin session', () => {
+    impersonationService.isImpersonating.and.returnValue(true);
+    get().subscribe({ error: () => {} });
+
+    expect(impersonationService.stop).toHaveBeenCalled();
+    expect(authService.refreshSession).not.toHaveBeenCalled();
+    expect(authService.logout).not.toHaveBeenCalled();
+  });
+
+  it('should pass 401s from auth endpoints straight back', () => {
+    let error: HttpErrorResponse | undefined;
+    interceptor.intercept(new HttpRequest('POST', `${environment.apiUrl}/auth/login`, {}), api)
+      .subscribe({ error: e => error = e });
+
+    expect(error?.status).toBe(401);
+    expect(authService.refreshSession).not.toHaveBeenCalled();
+    expect(authService.logout).not.toHaveBeenCalled();
+  });
+});
@@ -1,22 +1,181 @@
-import { HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
-import { Injectable } from '@angular/core';
-import { Observable } from 'rxjs';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Injectable, Injector } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, throwError } from 'rxjs';
+import { catchError, finalize, map, shareReplay, switchMap } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
 import { AuthService } from '../services/auth.service';
+import { ImpersonationService } from '../services/impersonation.service';
+import { NotificationService } from '../services/notification.service';
 
+/**
+ * Attaches the bearer token and transparently recovers from expired tokens.
+ *
+ * When a request fails with 401 the interceptor performs a single refresh call,
+ * holds every other request (in flight or new) until it settles, then replays
+ * them with the new token. The user is only logged out if the refresh fails,
+ * or if a replayed request is still rejected.
+ *
+ * A 401 for a request sent with a token that has since been replaced means
+ * the refresh already happened; that request is replayed without refreshing
+ * again, since the old refresh token has been used up.
+ */
 @Injectable()
 export class AuthInterceptor implements HttpInterceptor {
-  constructor(private authService: AuthService) {}
+  // Shared refresh call - every concurrent 401 waits on this same observable
+  private refreshInProgress$: Observable<string> | null = null;
+
+  // Endpoints that must never wait for or trigger a token refresh
+  private readonly AUTH_ENDPOINTS = [
+    '/auth/login',
+    '/auth/register',
+    '/auth/refresh',
+    '/auth/2fa/verify',
+    '/auth/forgot-password',
+    '/auth/reset-password',
+    '/auth/verify-email'
+  ];
+
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+    private notificationService: NotificationService,
+    private injector: Injector
+  ) {}
+
+  // Looked up on first use: ImpersonationService depends on services that use
+  // HttpClient, so injecting it directly would make HttpClient depend on itself
+  private get impersonationService(): ImpersonationService {
+    return this.injector.get(ImpersonationService);
+  }
 
   intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
-    const token = this.authService.getToken();
+    if (this.isAuthEndpoint(req)) {
+      return next.handle(this.addToken(req, this.authService.getToken()));
+    }
 
-    if (token) {
-      const authReq = req.clone({
-        headers: req.headers.set('Authorization', `Bearer ${token}`)
-      });
-      return next.handle(authReq);
+    // A refresh is already running - hold this request until the new token arrives
+    if (this.refreshInProgress$) {
+      return this.refreshInProgress$.pipe(
+        switchMap(token => this.replay(req, next, token))
+      );
     }
 
-    return next.handle(req);
+    const sentToken = this.authService.getToken();
+    return next.handle(this.addToken(req, sentToken)).pipe(
+      catchError(error => {
+        if (error instanceof HttpErrorResponse && error.status === 401) {
+          return this.handleUnauthorized(req, next, error, sentToken);
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private handleUnauthorized(
+    req: HttpRequest<any>,
+    next: HttpHandler,
+    error: HttpErrorResponse,
+    sentToken: string | null
+  ): Observable<HttpEvent<any>> {
+    // The customer's token was rejected - fall back to the admin session instead of logging out
+    if (this.impersonationService.isImpersonating()) {
+      this.impersonationService.stop('The customer view has ended. You are back in your admin account.');
+      return throwError(() => error);
+    }
+
+    // Another request refreshed the token while this one was out - just send it again
+    const currentToken = this.authService.getToken();
+    if (currentToken && currentToken !== sentToken) {
+      return this.replay(req, next, currentToken);
+    }
+
+    // No refresh token, or an API without the endpoint - the session ends straight away
+    if (!this.authService.canRefreshSession()) {
+      this.endSession();
+      return throwError(() => error);
+    }
+
+    return this.refreshToken().pipe(
+      catchError(() => {
+        // The refresh failed, so the original 401 is the error callers should see
+        return throwError(() => error);
+      }),
+      switchMap(token => this.replay(req, next, token))
+    );
+  }
+
+  /**
+   * Send a request again with a fresh token. Still being rejected means the
+   * session can't be saved, so the user is logged out.
+   */
+  private replay(req: HttpRequest<any>, next: HttpHandler, token: string): Observable<HttpEvent<any>> {
+    return next.handle(this.addToken(req, token)).pipe(
+      catchError(error => {
+        // Ignore it if the token has changed again since, e.g. an admin leaving a customer view
+        if (error instanceof HttpErrorResponse && error.status === 401 && this.authService.getToken() === token) {
+          if (this.impersonationService.isImpersonating()) {
+            this.impersonationService.stop('The customer view has ended. You are back in your admin account.');
+          } else {
+            this.endSession();
+          }
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Start a refresh, or join the one already in progress.
+   */
+  private refreshToken(): Observable<string> {
+    if (!this.refreshInProgress$) {
+      this.refreshInProgress$ = this.authService.refreshSession().pipe(
+        map(response => {
+          if (!response.success || !response.data?.token) {
+            throw new Error(response.message || 'Token refresh failed');
+          }
+          return response.data.token;
+        }),
+        catchError(refreshError => {
+          this.endSession();
+          return throwError(() => refreshError);
+        }),
+        finalize(() => {
+          this.refreshInProgress$ = null;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.refreshInProgress$;
+  }
+
+  /**
+   * Log out and send the user to login, keeping the page they were on.
+   */
+  private endSession(): void {
+    if (!this.authService.getToken()) {
+      return; // Already logged out by a concurrent request
+    }
+
+    const currentUrl = this.router.url;
+    this.authService.logout();
+    this.notificationService.showWarning('Your session has expired. Please log in again.');
+    this.router.navigate(['/login'], { queryParams: { returnUrl: currentUrl } });
+  }
+
+  private addToken(req: HttpRequest<any>, token: string | null): HttpRequest<any> {
+    if (!token) {
+      return req;
+    }
+
+    return req.clone({
+      headers: req.headers.set('Authorization', `Bearer ${token}`)
+    });
+  }
+
+  private isAuthEndpoint(req: HttpRequest<any>): boolean {
+    return this.AUTH_ENDPOINTS.some(endpoint => req.url.startsWith(`${environment.apiUrl}${endpoint}`));
   }
 }
@@ -1,18 +1,18 @@
-import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { HttpContextToken, HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
 import { Injectable } from '@angular/core';
 import { MatSnackBar } from '@angular/material/snack-bar';
-import { Router } from '@angular/router';
 import { Observable, throwError } from 'rxjs';
 import { catchError } from 'rxjs/operators';
-import { AuthService } from '../services/auth.service';
+
+/**
+ * Set on requests whose failures the caller handles itself, such as probes
+ * for endpoints the API may not have.
+ */
+export const SKIP_ERROR_NOTIFICATION = new HttpContextToken<boolean>(() => false);
 
 @Injectable()
 export class ErrorInterceptor implements HttpInterceptor {
-  constructor(
-    private snackBar: MatSnackBar,
-    private authService: AuthService,
-    private router: Router
-  ) {}
+  constructor(private snackBar: MatSnackBar) {}
 
   intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
     return next.handle(req).pipe(
@@ -26,9 +26,7 @@ export class ErrorInterceptor implements HttpInterceptor {
           // Server-side error
           switch (error.status) {
             case 401:
-              // Unauthorized - redirect to login
-              this.authService.logout();
-              this.router.navigate(['/login']);
+              // Unauthorized - AuthInterceptor refreshes the token or ends the session
               errorMessage = 'Your session has expired. Please log in again.';
               break;
             case 403:
@@ -51,8 +49,8 @@ export class ErrorInterceptor implements HttpInterceptor {
           }
         }
 
-        // Show error message (unless it's a 401 which redirects)
-        if (error.status !== 401) {
+        // Show error message (unless it's a 401 which AuthInterceptor handles)
+        if (error.status !== 401 && !req.context.get(SKIP_ERROR_NOTIFICATION)) {
           this.snackBar.open(errorMessage, 'Close', {
             duration: 5000,
             panelClass: ['error-snackbar']
@@ -1,9 +1,27 @@
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, tap } from 'rxjs';
+import { BehaviorSubject, Observable, catchError, filter, map, take, tap, throwError } from 'rxjs';
 import { environment } from '../../../environments/environment';
 import { ApiResponse } from '../../shared/models/api.models';
-import { AuthResponse, LoginRequest, RegisterRequest } from '../../shared/models/auth.models';
+import {
+  AuthResponse,
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  ImpersonationRequest,
+  ImpersonationSession,
+  LoginRequest,
+  LoginResult,
+  RegisterRequest,
+  ResetPasswordRequest,
+  TwoFactorChallenge,
+  UpdateProfileRequest
+} from '../../shared/models/auth.models';
+import { Permission, ROLE_PERMISSIONS } from '../../shared/models/permission.models';
+import { JwtUtil } from '../../shared/utils/jwt.util';
+import { SKIP_ERROR_NOTIFICATION } from '../interceptors/error.interceptor';
+import { TabSyncMessage, TabSyncService } from './tab-sync.service';
+import { TokenStorageService } from './token-storage.service';
+import { TwoFactorService } from './two-factor.service';
 
 @Injectable({
   providedIn: 'root'
@@ -12,9 +30,34 @@ export class AuthService {
   private currentUserSubject = new BehaviorSubject<AuthResponse | null>(null);
   public currentUser$ = this.currentUserSubject.asObservable();
 
-  constructor(private http: HttpClient) {
+  // When the current token stops being accepted by the API (null when signed out)
+  private sessionExpiresAtSubject = new BehaviorSubject<Date | null>(null);
+  public sessionExpiresAt$ = this.sessionExpiresAtSubject.asObservable();
+
+  // Becomes true once we know who the user is, or that nobody is signed in
+  private userResolvedSubject = new BehaviorSubject<boolean>(false);
+
+  // Set while an admin is viewing the site as a customer in this tab
+  private impersonationSubject = new BehaviorSubject<ImpersonationSession | null>(null);
+  public impersonation$ = this.impersonationSubject.asObservable();
+
+  // "Keep me signed in" choice carried over to the second login step
+  private pendingRememberMe = false;
+
+  // Set when the API has no refresh endpoint, so sessions can't be extended
+  private refreshUnavailable = false;
+
+  constructor(
+    private http: HttpClient,
+    private tabSync: TabSyncService,
+    private tokenStorage: TokenStorageService,
+    private twoFactorService: TwoFactorService
+  ) {
     // Load user from token on startup
     this.loadUserFromToken();
+
+    // Keep this tab in step with logins and logouts in other tabs
+    this.listenToOtherTabs();
   }
 
   register(request: RegisterRequest): Observable<ApiResponse<AuthResponse>> {
@@ -22,26 +65,219 @@ export class AuthService {
       .pipe(
         tap(response => {
           if (response.success) {
-            this.setCurrentUser(response.data);
+            // New accounts stay signed in, as they always have
+            this.completeLogin(response.data, true);
+          }
+        })
+      );
+  }
+
+  /**
+   * Sign in with a password. Accounts with two-factor authentication get a
+   * TwoFactorChallenge back instead of a session; finish those with verifyTwoFactor.
+   */
+  login(request: LoginRequest): Observable<ApiResponse<LoginResult>> {
+    return this.http.post<ApiResponse<LoginResult>>(`${environment.apiUrl}/auth/login`, request)
+      .pipe(
+        map(response => response.success
+          ? { ...response, data: this.twoFactorService.challengeLogin(response.data) }
+          : response),
+        tap(response => {
+          if (!response.success) {
+            return;
+          }
+
+          const remember = request.rememberMe ?? false;
+          if (this.twoFactorService.isChallenge(response.data)) {
+            this.pendingRememberMe = remember;
+          } else {
+            this.completeLogin(response.data, remember);
           }
         })
       );
   }
 
-  login(request: LoginRequest): Observable<ApiResponse<AuthResponse>> {
-    return this.http.post<ApiResponse<AuthResponse>>(`${environment.apiUrl}/auth/login`, request)
+  /**
+   * Second login step - exchange the challenge and an authenticator or recovery code for a session.
+   */
+  verifyTwoFactor(
+    challenge: TwoFactorChallenge,
+    code: string,
+    isRecoveryCode = false
+  ): Observable<ApiResponse<AuthResponse>> {
+    return this.twoFactorService.verifyLogin({
+      challengeToken: challenge.challengeToken,
+      code,
+      isRecoveryCode,
+      rememberMe: this.pendingRememberMe
+    }).pipe(
+      tap(response => {
+        if (response.success) {
+          this.completeLogin(response.data, this.pendingRememberMe);
+          this.pendingRememberMe = false;
+        }
+      })
+    );
+  }
+
+  /**
+   * Exchange the current token for a fresh one so the user can keep working
+   * past the original expiry without signing in again. Callers report
+   * failures in their own words, so the error snackbar is skipped.
+   */
+  refreshSession(): Observable<ApiResponse<AuthResponse>> {
+    return this.http.post<ApiResponse<AuthResponse>>(`${environment.apiUrl}/auth/refresh`, {
+      refreshToken: this.getRefreshToken()
+    }, { context: new HttpContext().set(SKIP_ERROR_NOTIFICATION, true) })
       .pipe(
         tap(response => {
           if (response.success) {
             this.setCurrentUser(response.data);
+            this.publish({ type: 'auth:token-refreshed', user: response.data });
+          }
+        }),
+        catchError(error => {
+          if (error instanceof HttpErrorResponse && (error.status === 404 || error.status === 405)) {
+            this.refreshUnavailable = true;
+          }
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /**
+   * Whether refreshSession is worth trying: there is a refresh token and the
+   * API hasn't shown it lacks the endpoint.
+   */
+  canRefreshSession(): boolean {
+    return !this.refreshUnavailable && !!this.getRefreshToken();
+  }
+
+  /**
+   * Update the user's name. The API returns no user payload, so the new name is
+   * merged into the current user locally so the header updates immediately.
+   */
+  updateProfile(request: UpdateProfileRequest): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(`${environment.apiUrl}/auth/update-profile`, request)
+      .pipe(
+        tap(response => {
+          const user = this.getCurrentUser();
+          if (response.success && user) {
+            const updatedUser = {
+              ...user,
+              firstName: request.firstName,
+              lastName: request.lastName
+            };
+            this.currentUserSubject.next(updatedUser);
+            this.publish({ type: 'auth:user-updated', user: updatedUser });
           }
         })
       );
   }
 
+  changePassword(request: ChangePasswordRequest): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(`${environment.apiUrl}/auth/change-password`, request);
+  }
+
+  /**
+   * Email a password reset link. The API answers the same way whether or not
+   * the address has an account, so this can't be used to discover accounts.
+   */
+  requestPasswordReset(request: ForgotPasswordRequest): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(`${environment.apiUrl}/auth/forgot-password`, request);
+  }
+
+  /**
+   * Check a reset link before asking for the new password. Fails with 410 when
+   * the link has expired and 400/404 when it was never valid or was already used.
+   */
+  validateResetToken(token: string): Observable<ApiResponse<void>> {
+    return this.http.get<ApiResponse<void>>(
+      `${environment.apiUrl}/auth/reset-password/${encodeURIComponent(token)}`
+    );
+  }
+
+  resetPassword(request: ResetPasswordRequest): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(`${environment.apiUrl}/auth/reset-password`, request);
+  }
+
+  /**
+   * Confirm the email address from the verification link. Works signed in or
+   * out; when signed in the current user is marked as verified straight away.
+   */
+  verifyEmail(token: string): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(`${environment.apiUrl}/auth/verify-email`, { token })
+      .pipe(
+        tap(response => {
+          const user = this.getCurrentUser();
+          if (response.success && user) {
+            const updatedUser = { ...user, emailVerified: true };
+            this.currentUserSubject.next(updatedUser);
+            this.publish({ type: 'auth:user-updated', user: updatedUser });
+          }
+        })
+      );
+  }
+
+  resendVerificationEmail(): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(`${environment.apiUrl}/auth/resend-verification`, {});
+  }
+
+  /**
+   * Switch this tab to a customer's session so an admin can see what they see.
+   * The admin's own tokens stay in storage and come back with stopImpersonation.
+   */
+  startImpersonation(request: ImpersonationRequest): Observable<ApiResponse<AuthResponse>> {
+    return this.http.post<ApiResponse<AuthResponse>>(`${environment.apiUrl}/admin/impersonate`, request)
+      .pipe(
+        tap(response => {
+          const admin = this.getCurrentUser();
+          if (response.success && admin && !this.isImpersonating()) {
+            const session: ImpersonationSession = {
+              customer: response.data,
+              admin,
+              startedAt: new Date().toISOString()
+            };
+            this.tokenStorage.saveImpersonation(session);
+            this.impersonationSubject.next(session);
+            this.applySession(response.data);
+          }
+        })
+      );
+  }
+
+  /**
+   * Return to the admin's own session.
+   */
+  stopImpersonation(): void {
+    const session = this.impersonationSubject.value;
+    if (!session) {
+      return;
+    }
+
+    this.tokenStorage.clearImpersonation();
+    this.impersonationSubject.next(null);
+    this.applySession(session.admin);
+
+    // Let the API close its audit record - the admin is back either way
+    this.http.post<ApiResponse<void>>(`${environment.apiUrl}/admin/impersonate/end`, {
+      customerUserId: session.customer.userId
+    }).subscribe({ error: () => {} });
+  }
+
+  isImpersonating(): boolean {
+    return this.impersonationSubject.value !== null;
+  }
+
+  getImpersonation(): ImpersonationSession | null {
+    return this.impersonationSubject.value;
+  }
+
   logout(): void {
-    localStorage.removeItem(environment.tokenKey);
-    this.currentUserSubject.next(null);
+    this.tokenStorage.clear();
+    this.impersonationSubject.next(null);
+    this.clearSession();
+    this.tabSync.publish({ type: 'auth:logout' });
   }
 
   getCurrentUser(): AuthResponse | null {
@@ -49,7 +285,8 @@ export class AuthService {
   }
 
   isAuthenticated(): boolean {
-    return !!this.getToken();
+    const token = this.getToken();
+    return !!token && !JwtUtil.isExpired(token);
   }
 
   isAdmin(): boolean {
@@ -57,31 +294,211 @@ export class AuthService {
     return user?.role === 'admin';
   }
 
+  /**
+   * Emit the current user once the startup /auth/me call has settled.
+   * Guards use this so a reload doesn't treat an admin as a customer
+   * while their details are still loading.
+   */
+  waitForUser(): Observable<AuthResponse | null> {
+    return this.userResolvedSubject.pipe(
+      filter(resolved => resolved),
+      take(1),
+      map(() => this.getCurrentUser())
+    );
+  }
+
+  getPermissions(user: AuthResponse | null = this.getCurrentUser()): Permission[] {
+    if (!user) {
+      return [];
+    }
+
+    const rolePermissions = ROLE_PERMISSIONS[user.role] ?? [];
+    return Array.from(new Set([...rolePermissions, ...(user.permissions ?? [])]));
+  }
+
+  /**
+   * Check that the user holds every one of the given permissions.
+   */
+  hasPermission(permission: Permission | Permission[], user: AuthResponse | null = this.getCurrentUser()): boolean {
+    const required = Array.isArray(permission) ? permission : [permission];
+    const granted = this.getPermissions(user);
+    return required.every(p => granted.includes(p));
+  }
+
   getToken(): string | null {
-    return localStorage.getItem(environment.tokenKey);
+    return this.tokenStorage.getToken();
+  }
+
+  getRefreshToken(): string | null {
+    return this.tokenStorage.getRefreshToken();
+  }
+
+  getSessionExpiresAt(): Date | null {
+    return this.sessionExpiresAtSubject.value;
+  }
+
+  /**
+   * Tell other tabs about a session change - except while impersonating, when
+   * the change belongs to the customer and the other tabs are still the admin's.
+   */
+  private publish(message: TabSyncMessage): void {
+    if (!this.isImpersonating()) {
+      this.tabSync.publish(message);
+    }
+  }
+
+  private completeLogin(user: AuthResponse, remember: boolean): void {
+    this.setCurrentUser(user, remember);
+    this.tabSync.publish({ type: 'auth:login', user, remember });
   }
 
-  private setCurrentUser(authResponse: AuthResponse): void {
-    localStorage.setItem(environment.tokenKey, authResponse.token);
+  /**
+   * Store the tokens and publish the user. Pass `remember` for a new login;
+   * leave it out for a refresh so the tokens stay where they were.
+   */
+  private setCurrentUser(authResponse: AuthResponse, remember?: boolean): void {
+    if (remember === undefined) {
+      this.tokenStorage.updateTokens(authResponse.token, authResponse.refreshToken);
+    } else {
+      this.tokenStorage.saveTokens(authResponse.token, authResponse.refreshToken, remember);
+    }
+    this.applySession(authResponse);
+  }
+
+  private applySession(authResponse: AuthResponse): void {
     this.currentUserSubject.next(authResponse);
+    this.userResolvedSubject.next(true);
+
+    // Prefer the token's own exp claim, fall back to the lifetime reported by the API
+    const expiresAt = JwtUtil.getExpirationDate(authResponse.token)
+      ?? (authResponse.expiresIn > 0 ? new Date(Date.now() + authResponse.expiresIn * 1000) : null);
+    this.sessionExpiresAtSubject.next(expiresAt);
+  }
+
+  private clearSession(): void {
+    this.currentUserSubject.next(null);
+    this.sessionExpiresAtSubject.next(null);
+  }
+
+  /**
+   * Apply session changes made in other tabs. Tokens are stored again here
+   * because sessionStorage is not shared between tabs.
+   */
+  private listenToOtherTabs(): void {
+    this.tabSync.messages$.subscribe(message => {
+      const user = 'user' in message ? this.withTokens(message.user) : null;
+
+      switch (message.type) {
+        case 'auth:login':
+          if (!user) {
+            break;
+          }
+          // Someone else signed in, so any impersonation in this tab is over
+          this.tokenStorage.clearImpersonation();
+          this.impersonationSubject.next(null);
+          this.setCurrentUser(user, message.remember);
+          break;
+        case 'auth:token-refreshed':
+          if (!user) {
+            break;
+          }
+          if (this.isImpersonating()) {
+            this.tokenStorage.updateTokens(user.token, user.refreshToken);
+            this.updateImpersonatingAdmin(user);
+          } else {
+            this.setCurrentUser(user);
+          }
+          break;
+        case 'auth:user-updated':
+          if (!user) {
+            break;
+          }
+          if (this.isImpersonating()) {
+            this.updateImpersonatingAdmin(user);
+          } else {
+            this.currentUserSubject.next(user);
+          }
+          break;
+        case 'auth:logout':
+          this.tokenStorage.clear();
+          this.impersonationSubject.next(null);
+          this.clearSession();
+          break;
+      }
+    });
+  }
+
+  /**
+   * A user from another tab, with tokens. Users relayed without them (see
+   * TabSyncService) take the remembered tokens every tab can read; a session
+   * kept for its own tab only has none to share, and null is returned.
+   */
+  private withTokens(user: AuthResponse): AuthResponse | null {
+    if (user.token) {
+      return user;
+    }
+
+    const shared = this.tokenStorage.getSharedTokens();
+    return shared ? { ...user, token: shared.token, refreshToken: shared.refreshToken } : null;
+  }
+
+  // Keep the admin session that stopImpersonation restores up to date
+  private updateImpersonatingAdmin(admin: AuthResponse): void {
+    const session = this.impersonationSubject.value;
+    if (session) {
+      const updated = { ...session, admin };
+      this.tokenStorage.saveImpersonation(updated);
+      this.impersonationSubject.next(updated);
+    }
   }
 
   private loadUserFromToken(): void {
+    // Pick up an impersonation that was running in this tab before a reload
+    const impersonation = this.tokenStorage.getImpersonation();
+    if (impersonation) {
+      if (JwtUtil.isExpired(impersonation.customer.token)) {
+        this.tokenStorage.clearImpersonation();
+      } else {
+        this.impersonationSubject.next(impersonation);
+        this.applySession(impersonation.customer);
+        return;
+      }
+    }
+
     const token = this.getToken();
-    if (token) {
-      // Get user info from token
-      this.http.get<ApiResponse<AuthResponse>>(`${environment.apiUrl}/auth/me`)
-        .subscribe({
-          next: (response) => {
-            if (response.success) {
-              this.currentUserSubject.next(response.data);
-            }
-          },
-          error: () => {
+    if (!token) {
+      this.userResolvedSubject.next(true);
+      return;
+    }
+
+    // Don't bother the API with a token we already know is dead
+    if (JwtUtil.isExpired(token)) {
+      this.logout();
+      this.userResolvedSubject.next(true);
+      return;
+    }
+
+    this.sessionExpiresAtSubject.next(JwtUtil.getExpirationDate(token));
+
+    // Get user info from token
+    this.http.get<ApiResponse<AuthResponse>>(`${environment.apiUrl}/auth/me`)
+      .subscribe({
+        next: (response) => {
+          if (response.success) {
+            this.currentUserSubject.next(response.data);
+          }
+          this.userResolvedSubject.next(true);
+        },
+        error: (error: HttpErrorResponse) => {
+          if (error.status === 401) {
             // Token invalid, clear it
             this.logout();
+          } else {
+            // The API couldn't answer - sign this tab out only, so other tabs keep their session
+            this.clearSession();
           }
-        });
-    }
+          this.userResolvedSubject.next(true);
+        }
+      });
   }
 }
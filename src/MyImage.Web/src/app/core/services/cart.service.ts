@@ -1,9 +1,11 @@
 import { HttpClient } from '@angular/common/http';
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, catchError, Observable, of, tap } from 'rxjs';
+import { BehaviorSubject, catchError, concatMap, from, map, Observable, of, reduce, tap } from 'rxjs';
 import { environment } from '../../../environments/environment';
-import { ApiResponse } from '../../shared/models/api.models';
+import { ApiResponse, BulkResult } from '../../shared/models/api.models';
 import { Cart, PrintSelection } from '../../shared/models/cart.models';
+import { AuthService } from './auth.service';
+import { TabSyncMessage, TabSyncService } from './tab-sync.service';
 
 /**
  * Fixed CartService with improved error handling and null safety.
@@ -15,6 +17,7 @@ import { Cart, PrintSelection } from '../../shared/models/cart.models';
  * - Automatic retry logic for cart loading
  * - Consistent state management
  * - Memory leak prevention
+ * - Cart changes are mirrored to other open tabs (not while an admin is impersonating a customer)
  */
 @Injectable({
   providedIn: 'root'
@@ -26,8 +29,13 @@ export class CartService {
   // Track loading state to prevent multiple simultaneous requests
   private isLoadingCart = false;
 
-  constructor(private http: HttpClient) {
+  constructor(
+    private http: HttpClient,
+    private tabSync: TabSyncService,
+    private authService: AuthService
+  ) {
     this.loadCart();
+    this.listenToOtherTabs();
   }
 
   /**
@@ -117,7 +125,7 @@ export class CartService {
     }).pipe(
       tap(response => {
         if (response.success && response.data) {
-          this.cartSubject.next(response.data);
+          this.setCart(response.data);
         }
       }),
       catchError(error => {
@@ -135,6 +143,27 @@ export class CartService {
     );
   }
 
+  /**
+   * Add several photos with the same print selections. Sent one at a time so
+   * the server never merges two changes to the cart at once; each photo
+   * succeeds or fails on its own.
+   */
+  addPhotosToCart(photoIds: string[], printSelections: PrintSelection[]): Observable<BulkResult> {
+    return from(photoIds).pipe(
+      concatMap(photoId => this.addToCart(photoId, printSelections).pipe(
+        map(response => ({ photoId, response }))
+      )),
+      reduce<{ photoId: string; response: ApiResponse<Cart> }, BulkResult>((result, { photoId, response }) => {
+        if (response.success) {
+          result.succeeded.push(photoId);
+        } else {
+          result.failed.push({ id: photoId, message: response.errors?.[0] || response.message });
+        }
+        return result;
+      }, { succeeded: [], failed: [] })
+    );
+  }
+
   /**
    * Update cart item with validation and error handling.
    */
@@ -154,7 +183,7 @@ export class CartService {
     }).pipe(
       tap(response => {
         if (response.success && response.data) {
-          this.cartSubject.next(response.data);
+          this.setCart(response.data);
         }
       }),
       catchError(error => {
@@ -189,8 +218,12 @@ export class CartService {
       .pipe(
         tap(response => {
           if (response.success) {
-            // Refresh cart after successful removal
-            this.loadCart().subscribe();
+            // Refresh cart after successful removal, then pass it on to other tabs
+            this.loadCart().subscribe(cartResponse => {
+              if (cartResponse.success) {
+                this.publish({ type: 'cart:updated', cart: this.getCurrentCart() });
+              }
+            });
           }
         }),
         catchError(error => {
@@ -215,7 +248,7 @@ export class CartService {
       .pipe(
         tap(response => {
           if (response.success) {
-            this.cartSubject.next(null);
+            this.setCart(null);
           }
         }),
         catchError(error => {
@@ -309,6 +342,44 @@ export class CartService {
     return (cart?.items?.length ?? 0) > 0;
   }
 
+  /**
+   * Update the local cart after a change made in this tab and tell other tabs.
+   */
+  private setCart(cart: Cart | null): void {
+    this.cartSubject.next(cart);
+    this.publish({ type: 'cart:updated', cart });
+  }
+
+  // An impersonated customer's cart must not show up in the admin's other tabs
+  private publish(message: TabSyncMessage): void {
+    if (!this.authService.isImpersonating()) {
+      this.tabSync.publish(message);
+    }
+  }
+
+  /**
+   * Apply cart changes made in other tabs without publishing them again.
+   */
+  private listenToOtherTabs(): void {
+    this.tabSync.messages$.subscribe(message => {
+      switch (message.type) {
+        case 'cart:updated':
+          // Other tabs hold the admin's cart, not the impersonated customer's
+          if (!this.authService.isImpersonating()) {
+            this.cartSubject.next(message.cart);
+          }
+          break;
+        case 'auth:login':
+          // A different user may have signed in
+          this.loadCart().subscribe();
+          break;
+        case 'auth:logout':
+          this.cartSubject.next(null);
+          break;
+      }
+    });
+  }
+
   /**
    * Extract meaningful error message from HTTP error response.
    */
@@ -0,0 +1,421 @@
+import { HttpClient, HttpContext, HttpErrorResponse, HttpEventType, HttpHeaders } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable, Subscription, from, map, of, retry, switchMap, throwError, timer } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { ApiResponse } from '../../shared/models/api.models';
+import { Photo, UploadErrorCode } from '../../shared/models/photo.models';
+import { ExifUtil } from '../../shared/utils/exif.util';
+import { UploadProgress } from './file-upload.service';
+import { SKIP_ERROR_NOTIFICATION } from '../interceptors/error.interceptor';
+import { PhotoService } from './photo.service';
+
+/**
+ * An upload the server has started receiving. Stored locally so an
+ * interrupted upload can continue from the last chunk the server confirmed.
+ */
+export interface UploadSession {
+  uploadId: string;
+  fingerprint: string;
+  filename: string;
+  fileSize: number;
+  receivedBytes: number;
+  chunkSize: number;
+  folderPath?: string;
+  createdAt: string;
+}
+
+interface UploadSessionResponse {
+  uploadId: string;
+  receivedBytes: number;
+  chunkSize?: number;
+}
+
+/**
+ * Uploads photos one chunk at a time so a dropped connection costs one chunk,
+ * not the whole file.
+ *
+ * Protocol:
+ * - POST   /photos/uploads                      start (or find) a session for a file, with its EXIF metadata
+ * - GET    /photos/uploads/{id}                 how many bytes the server has
+ * - PUT    /photos/uploads/{id}/chunks          one chunk, with a Content-Range header
+ * - POST   /photos/uploads/{id}/complete        assemble the file and create the photo
+ * - DELETE /photos/uploads/{id}                 abandon the session
+ *
+ * Browsers can't reopen a File after a reload, so sessions are remembered by
+ * file fingerprint (folder, name, size, last modified). Selecting the same
+ * file again resumes where it stopped.
+ *
+ * An API without these routes answers the first POST with 404 or 405. Files
+ * then go through the single-request bulk upload instead, without resuming.
+ *
+ * Failures show on the file in the upload queue, so session and chunk
+ * requests don't raise the usual error snackbar as well.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChunkedUploadService {
+  private readonly SESSIONS_KEY = 'myimage_upload_sessions';
+  private readonly SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // Server discards partial uploads after a day
+  private readonly CHUNK_RETRIES = 3;
+  private readonly baseUrl = `${environment.apiUrl}/photos/uploads`;
+  private readonly quiet = { context: new HttpContext().set(SKIP_ERROR_NOTIFICATION, true) };
+
+  // Set once the API has shown it has no upload sessions
+  private sessionsUnavailable = false;
+
+  constructor(
+    private http: HttpClient,
+    private photoService: PhotoService
+  ) {
+    this.pruneExpiredSessions();
+  }
+
+  /**
+   * Upload one file, emitting progress after every chunk and a final event with the stored photo.
+   */
+  upload(file: File, folderPath?: string, contentHash?: string): Observable<UploadProgress> {
+    if (this.sessionsUnavailable) {
+      return this.uploadWhole(file, folderPath);
+    }
+
+    let resumed = false;
+
+    return this.openSession(file, folderPath, contentHash).pipe(
+      switchMap(session => {
+        resumed = session.receivedBytes > 0;
+        return this.sendChunks(file, session, resumed);
+      }),
+      catchError(error => {
+        if (this.sessionsUnavailable && !resumed) {
+          return this.uploadWhole(file, folderPath);
+        }
+
+        // Sessions the server no longer knows about can't be resumed - start clean next time
+        if (error instanceof HttpErrorResponse && (error.status === 404 || error.status === 410)) {
+          this.removeSession(this.fingerprint(file, folderPath));
+        }
+        return of(this.progressEvent(file, 0, 'failed', {
+          error: this.getErrorMessage(error),
+          errorCode: this.getErrorCode(error),
+          resumed
+        }));
+      })
+    );
+  }
+
+  /**
+   * Give up on an interrupted upload and tell the server to discard what it has.
+   */
+  discard(session: UploadSession): Observable<void> {
+    this.removeSession(session.fingerprint);
+    return this.http.delete<ApiResponse<void>>(`${this.baseUrl}/${session.uploadId}`).pipe(
+      map(() => undefined),
+      catchError(() => of(undefined))
+    );
+  }
+
+  /**
+   * Discard whatever the server has received of this file, if anything.
+   */
+  discardFile(file: File, folderPath?: string): Observable<void> {
+    const session = this.loadSessions()[this.fingerprint(file, folderPath)];
+    return session ? this.discard(session) : of(undefined);
+  }
+
+  /**
+   * Uploads that stopped part-way, e.g. because the tab was closed.
+   */
+  getInterruptedUploads(): UploadSession[] {
+    return Object.values(this.loadSessions());
+  }
+
+  hasInterruptedUpload(file: File, folderPath?: string): boolean {
+    return !!this.loadSessions()[this.fingerprint(file, folderPath)];
+  }
+
+  /**
+   * Identifies a file across page loads. The folder is part of it, since
+   * copies of one photo in two folders are two uploads.
+   */
+  fingerprint(file: File, folderPath?: string): string {
+    return `${folderPath ?? ''}/${file.name}:${file.size}:${file.lastModified}`;
+  }
+
+  /**
+   * Reuse the stored session for this file if the server still has it, otherwise start a new one.
+   */
+  private openSession(file: File, folderPath?: string, contentHash?: string): Observable<UploadSession> {
+    const stored = this.loadSessions()[this.fingerprint(file, folderPath)];
+
+    if (stored) {
+      return this.http.get<ApiResponse<UploadSessionResponse>>(`${this.baseUrl}/${stored.uploadId}`, this.quiet).pipe(
+        map(response => ({ ...stored, receivedBytes: response.data?.receivedBytes ?? 0 })),
+        catchError(() => {
+          this.removeSession(stored.fingerprint);
+          return this.createSession(file, folderPath, contentHash);
+        })
+      );
+    }
+
+    return this.createSession(file, folderPath, contentHash);
+  }
+
+  private createSession(file: File, folderPath?: string, contentHash?: string): Observable<UploadSession> {
+    // Camera details go with the upload so the server can store them on the photo
+    return from(ExifUtil.fromBlob(file)).pipe(
+      switchMap(metadata => this.http.post<ApiResponse<UploadSessionResponse>>(this.baseUrl, {
+        filename: file.name,
+        fileSize: file.size,
+        contentType: file.type || 'image/jpeg',
+        fingerprint: this.fingerprint(file, folderPath),
+        chunkSize: environment.uploadChunkSize,
+        folderPath,
+        metadata: metadata ?? undefined,
+        contentHash // Lets later uploads of the same photo be recognised
+      }, this.quiet).pipe(
+        catchError(error => {
+          if (error instanceof HttpErrorResponse && (error.status === 404 || error.status === 405)) {
+            this.sessionsUnavailable = true;
+          }
+          return throwError(() => error);
+        })
+      )),
+      map(response => {
+        const session: UploadSession = {
+          uploadId: response.data.uploadId,
+          fingerprint: this.fingerprint(file, folderPath),
+          filename: file.name,
+          fileSize: file.size,
+          receivedBytes: response.data.receivedBytes ?? 0,
+          // The server may pick a different size than we asked for
+          chunkSize: response.data.chunkSize ?? environment.uploadChunkSize,
+          folderPath,
+          createdAt: new Date().toISOString()
+        };
+        this.saveSession(session);
+        return session;
+      })
+    );
+  }
+
+  /**
+   * Send the remaining chunks one after another, then finish the upload.
+   */
+  private sendChunks(file: File, session: UploadSession, resumed: boolean): Observable<UploadProgress> {
+    return new Observable<UploadProgress>(subscriber => {
+      let offset = session.receivedBytes;
+      let request: Subscription | null = null;
+
+      const sendNext = () => {
+        if (offset >= file.size) {
+          request = this.complete(session).subscribe({
+            next: photo => {
+              this.removeSession(session.fingerprint);
+              subscriber.next(this.progressEvent(file, file.size, 'completed', { photo, resumed }));
+              subscriber.complete();
+            },
+            error: error => subscriber.error(error)
+          });
+          return;
+        }
+
+        const end = Math.min(offset + session.chunkSize, file.size);
+        const headers = new HttpHeaders({
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${offset}-${end - 1}/${file.size}`
+        });
+
+        request = this.http.put<ApiResponse<UploadSessionResponse>>(
+          `${this.baseUrl}/${session.uploadId}/chunks`,
+          file.slice(offset, end),
+          { headers, reportProgress: true, observe: 'events', ...this.quiet }
+        ).pipe(
+          // Only retry failures that might go away - not rejections of the chunk itself
+          retry({
+            count: this.CHUNK_RETRIES,
+            delay: (error, attempt) => this.isTransient(error)
+              ? timer(1000 * 2 ** (attempt - 1))
+              : throwError(() => error)
+          })
+        ).subscribe({
+          next: event => {
+            if (event.type === HttpEventType.UploadProgress) {
+              subscriber.next(this.progressEvent(file, offset + event.loaded, 'uploading', { resumed }));
+            } else if (event.type === HttpEventType.Response) {
+              // Trust the server's count - it may already have had part of this chunk.
+              // A count that doesn't move on would send the same chunk forever.
+              const received = event.body?.data?.receivedBytes ?? end;
+              if (received <= offset) {
+                subscriber.error(new Error('Upload stalled - the server did not accept the chunk'));
+                return;
+              }
+              offset = received;
+              this.saveSession({ ...session, receivedBytes: offset });
+              subscriber.next(this.progressEvent(file, offset, 'uploading', { resumed }));
+              sendNext();
+            }
+          },
+          error: error => subscriber.error(error)
+        });
+      };
+
+      subscriber.next(this.progressEvent(file, offset, 'uploading', { resumed }));
+      sendNext();
+
+      // Unsubscribing aborts the chunk in flight; the session stays so the upload can resume
+      return () => request?.unsubscribe();
+    });
+  }
+
+  /**
+   * Send the whole file in one bulk-upload request, for APIs without upload sessions.
+   */
+  private uploadWhole(file: File, folderPath?: string): Observable<UploadProgress> {
+    return this.photoService.uploadPhotos([file], folderPath).pipe(
+      map(event => {
+        // Only the response carries a result, even when the API left it empty
+        if (!('result' in event)) {
+          return this.progressEvent(file, Math.round(file.size * event.progress / 100), 'uploading');
+        }
+
+        const photo = event.result?.uploadedPhotos[0];
+        if (photo) {
+          return this.progressEvent(file, file.size, 'completed', { photo });
+        }
+
+        const failure = event.result?.failedUploads[0];
+        return this.progressEvent(file, 0, 'failed', {
+          error: failure?.errorMessage || 'Upload failed',
+          errorCode: failure?.errorCode ?? 'PROCESSING_ERROR'
+        });
+      }),
+      catchError(error => of(this.progressEvent(file, 0, 'failed', {
+        error: this.getErrorMessage(error),
+        errorCode: this.getErrorCode(error)
+      })))
+    );
+  }
+
+  private complete(session: UploadSession): Observable<Photo> {
+    return this.http.post<ApiResponse<Photo>>(`${this.baseUrl}/${session.uploadId}/complete`, {}).pipe(
+      map(response => {
+        if (!response.success) {
+          throw new Error(response.message || 'Upload could not be completed');
+        }
+        return response.data;
+      })
+    );
+  }
+
+  private progressEvent(
+    file: File,
+    bytesUploaded: number,
+    status: UploadProgress['status'],
+    extra: Partial<UploadProgress> = {}
+  ): UploadProgress {
+    return {
+      file,
+      bytesUploaded,
+      progress: file.size > 0 ? Math.min(100, Math.round(100 * bytesUploaded / file.size)) : 100,
+      completed: status === 'completed',
+      status,
+      ...extra
+    };
+  }
+
+  private isTransient(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && (error.status === 0 || error.status >= 500 || error.status === 408);
+  }
+
+  private getErrorMessage(error: any): string {
+    if (error instanceof HttpErrorResponse) {
+      if (error.status === 0) {
+        return 'Connection lost - select the file again to resume';
+      }
+      if (error.status === 413) {
+        return 'File is too large';
+      }
+      if (error.status === 415) {
+        return 'File type is not supported';
+      }
+      return error.error?.message || `Upload failed (HTTP ${error.status})`;
+    }
+    return error?.message || 'Upload failed';
+  }
+
+  /**
+   * The API's own code when the response carries a FailedUploadDto, otherwise
+   * one inferred from the status.
+   */
+  private getErrorCode(error: any): UploadErrorCode {
+    if (!(error instanceof HttpErrorResponse)) {
+      return 'PROCESSING_ERROR'; // The server answered but couldn't store the photo
+    }
+    if (error.error?.data?.errorCode) {
+      return error.error.data.errorCode;
+    }
+
+    switch (error.status) {
+      case 0: return 'NETWORK_ERROR';
+      case 413: return 'FILE_TOO_LARGE';
+      case 415: return 'INVALID_FORMAT';
+      case 400:
+      case 422: return 'VALIDATION_FAILED';
+      default: return 'SERVER_ERROR';
+    }
+  }
+
+  private loadSessions(): { [fingerprint: string]: UploadSession } {
+    try {
+      return JSON.parse(localStorage.getItem(this.SESSIONS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveSession(session: UploadSession): void {
+    const sessions = this.loadSessions();
+    sessions[session.fingerprint] = session;
+    this.storeSessions(sessions);
+  }
+
+  private removeSession(fingerprint: string): void {
+    const sessions = this.loadSessions();
+    if (sessions[fingerprint]) {
+      delete sessions[fingerprint];
+      this.storeSessions(sessions);
+    }
+  }
+
+  private storeSessions(sessions: { [fingerprint: string]: UploadSession }): void {
+    try {
+      localStorage.setItem(this.SESSIONS_KEY, JSON.stringify(sessions));
+    } catch (error) {
+      // Resuming is a nice-to-have; the upload itself still works without it
+      console.warn('ChunkedUploadService - Could not save upload session:', error);
+    }
+  }
+
+  private pruneExpiredSessions(): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    const sessions = this.loadSessions();
+    const cutoff = Date.now() - this.SESSION_MAX_AGE;
+    let changed = false;
+
+    Object.values(sessions).forEach(session => {
+      if (new Date(session.createdAt).getTime() < cutoff) {
+        delete sessions[session.fingerprint];
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.storeSessions(sessions);
+    }
+  }
+}
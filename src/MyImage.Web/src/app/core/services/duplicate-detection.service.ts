@@ -0,0 +1,97 @@
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable, catchError, map, of } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { ApiResponse } from '../../shared/models/api.models';
+import { ExistingPhotoMatch } from '../../shared/models/photo.models';
+import { SKIP_ERROR_NOTIFICATION } from '../interceptors/error.interceptor';
+
+/**
+ * Why a selected file looks like a photo the user already has.
+ */
+export interface DuplicateMatch {
+  source: 'existing' | 'batch'; // Already uploaded, or selected twice in this batch
+  duplicateOf: string; // Filename of the photo it matches
+  photoId?: string; // Set for matches with an uploaded photo
+}
+
+/**
+ * Finds re-uploads by content, not by name: a SHA-256 of each file's bytes
+ * is compared with the hashes the server stores for uploaded photos and with
+ * the rest of the selection. APIs without the hash lookup are asked once;
+ * after that only duplicates within the selection are caught.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DuplicateDetectionService {
+  // Set once the API answers 404, so the lookup isn't tried on every selection
+  private lookupUnavailable = false;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * SHA-256 of the file's contents as lowercase hex.
+   */
+  async hashFile(file: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Which of these hashes belong to photos already uploaded. Without an
+   * answer from the server only duplicates within the batch are caught.
+   */
+  findExisting(hashes: string[]): Observable<ExistingPhotoMatch[]> {
+    if (hashes.length === 0 || this.lookupUnavailable) {
+      return of([]);
+    }
+
+    return this.http.post<ApiResponse<ExistingPhotoMatch[]>>(
+      `${environment.apiUrl}/photos/hashes/lookup`,
+      { hashes },
+      { context: new HttpContext().set(SKIP_ERROR_NOTIFICATION, true) }
+    ).pipe(
+      map(response => response.data ?? []),
+      catchError(error => {
+        if (error instanceof HttpErrorResponse && error.status === 404) {
+          this.lookupUnavailable = true;
+        }
+        console.warn('DuplicateDetectionService - Could not check uploaded photos:', error);
+        return of([]);
+      })
+    );
+  }
+
+  /**
+   * Match each hashed file against uploaded photos first, then against
+   * earlier files in the same selection.
+   */
+  findDuplicates(
+    files: { file: File; hash: string }[],
+    existing: ExistingPhotoMatch[]
+  ): Map<File, DuplicateMatch> {
+    const uploaded = new Map(existing.map(match => [match.contentHash, match]));
+    const firstSeen = new Map<string, File>();
+    const duplicates = new Map<File, DuplicateMatch>();
+
+    files.forEach(({ file, hash }) => {
+      const match = uploaded.get(hash);
+      if (match) {
+        duplicates.set(file, { source: 'existing', duplicateOf: match.filename, photoId: match.photoId });
+        return;
+      }
+
+      const original = firstSeen.get(hash);
+      if (original) {
+        duplicates.set(file, { source: 'batch', duplicateOf: original.name });
+      } else {
+        firstSeen.set(hash, file);
+      }
+    });
+
+    return duplicates;
+  }
+}
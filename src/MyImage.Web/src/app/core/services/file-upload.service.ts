@@ -1,15 +1,23 @@
 import { Injectable } from '@angular/core';
+import { Photo, UploadErrorCode } from '../../shared/models/photo.models';
 
 export interface FileValidationResult {
   valid: boolean;
   error?: string;
 }
 
+export type UploadStatus = 'pending' | 'uploading' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+
 export interface UploadProgress {
   file: File;
-  progress: number;
+  progress: number; // 0-100
   completed: boolean;
   error?: string;
+  errorCode?: UploadErrorCode; // Set with error for failed uploads
+  status: UploadStatus;
+  bytesUploaded: number;
+  resumed?: boolean; // Picked up from an upload interrupted earlier, possibly before a reload
+  photo?: Photo; // Set once the server has stored the photo
 }
 
 @Injectable({
@@ -17,7 +25,7 @@ export interface UploadProgress {
 })
 export class FileUploadService {
   private maxFileSize = 52428800; // 50MB
-  private allowedTypes = ['image/jpeg', 'image/jpg'];
+  private allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/tiff'];
 
   validateFile(file: File): FileValidationResult {
     // Check file size
@@ -32,7 +40,7 @@ export class FileUploadService {
     if (!this.allowedTypes.includes(file.type.toLowerCase())) {
       return {
         valid: false,
-        error: `File "${file.name}" is not a supported format. Only JPEG files are allowed.`
+        error: `File "${file.name}" is not a supported format. Only JPEG, PNG, WebP and TIFF files are allowed.`
       };
     }
 
@@ -0,0 +1,255 @@
+import { isPlatformBrowser } from '@angular/common';
+import { Inject, Injectable, NgZone, OnDestroy, PLATFORM_ID } from '@angular/core';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable, Subscription, interval } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { AuthService } from './auth.service';
+import { ImageCacheService } from './image-cache.service';
+import { NotificationService } from './notification.service';
+import { PhotoService } from './photo.service';
+import { TabSyncService } from './tab-sync.service';
+
+export interface KioskSettings {
+  enabled: boolean;
+  timeoutMinutes: number;
+}
+
+/**
+ * Signs the user out after a period without mouse, keyboard or touch input.
+ *
+ * Branch computers are shared between customers, so an admin can switch the
+ * device into kiosk mode, which uses a much shorter timeout. The setting is
+ * stored on the device itself, not on the account.
+ *
+ * Activity is shared between tabs so a user working in one tab isn't signed
+ * out by another tab that has been left in the background.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService implements OnDestroy {
+  // Kiosk timeouts outside this range are replaced, whether typed in or read from storage
+  static readonly MIN_KIOSK_MINUTES = 1;
+  static readonly MAX_KIOSK_MINUTES = 60;
+
+  private readonly KIOSK_SETTINGS_KEY = 'myimage_kiosk_settings';
+  private readonly ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+  private readonly CHECK_INTERVAL = 1000;
+  // Activity is broadcast to other tabs at most this often
+  private readonly ACTIVITY_BROADCAST_INTERVAL = 15 * 1000;
+
+  private lastActivity = Date.now();
+  private lastBroadcast = 0;
+  private watching = false;
+  private checkSubscription: Subscription | null = null;
+  private userSubscription: Subscription | null = null;
+  private tabSyncSubscription: Subscription | null = null;
+  private readonly isBrowser: boolean;
+
+  // Seconds left before sign-out while the warning is showing, otherwise null
+  private warningSubject = new BehaviorSubject<number | null>(null);
+  public warning$ = this.warningSubject.asObservable();
+
+  private kioskSettingsSubject: BehaviorSubject<KioskSettings>;
+  public kioskSettings$: Observable<KioskSettings>;
+
+  constructor(
+    private authService: AuthService,
+    private photoService: PhotoService,
+    private imageCache: ImageCacheService,
+    private notificationService: NotificationService,
+    private tabSync: TabSyncService,
+    private router: Router,
+    private ngZone: NgZone,
+    @Inject(PLATFORM_ID) platformId: object
+  ) {
+    this.isBrowser = isPlatformBrowser(platformId);
+    this.kioskSettingsSubject = new BehaviorSubject<KioskSettings>(this.loadKioskSettings());
+    this.kioskSettings$ = this.kioskSettingsSubject.asObservable();
+
+    // A kiosk's next customer mustn't find the last one's photos on the device
+    this.kioskSettings$.subscribe(settings => this.imageCache.setStorageEnabled(!settings.enabled));
+  }
+
+  /**
+   * Start watching for inactivity whenever a user is signed in.
+   */
+  start(): void {
+    if (this.userSubscription || !this.isBrowser) {
+      return;
+    }
+
+    this.userSubscription = this.authService.currentUser$.subscribe(user => {
+      if (user) {
+        this.watch();
+      } else {
+        this.stop();
+      }
+    });
+
+    this.tabSyncSubscription = this.tabSync.on('session:activity').subscribe(message => {
+      this.lastActivity = Math.max(this.lastActivity, message.at);
+      this.dismissWarning();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.userSubscription?.unsubscribe();
+    this.tabSyncSubscription?.unsubscribe();
+    this.stop();
+  }
+
+  /**
+   * Called from the warning overlay when the user confirms they are still there.
+   */
+  stayActive(): void {
+    this.recordActivity();
+  }
+
+  getKioskSettings(): KioskSettings {
+    return this.kioskSettingsSubject.value;
+  }
+
+  saveKioskSettings(settings: KioskSettings): void {
+    settings = { ...settings, timeoutMinutes: this.validKioskMinutes(settings.timeoutMinutes) };
+    localStorage.setItem(this.KIOSK_SETTINGS_KEY, JSON.stringify(settings));
+    this.kioskSettingsSubject.next(settings);
+    this.recordActivity();
+  }
+
+  /**
+   * Inactivity allowed before sign-out on this device, in milliseconds.
+   */
+  getTimeout(): number {
+    const kiosk = this.getKioskSettings();
+    const minutes = kiosk.enabled ? kiosk.timeoutMinutes : environment.idleTimeout.defaultMinutes;
+    return minutes * 60 * 1000;
+  }
+
+  private watch(): void {
+    if (this.watching) {
+      return;
+    }
+
+    this.watching = true;
+    this.lastActivity = Date.now();
+
+    // Activity events fire constantly - keep them from triggering change detection
+    this.ngZone.runOutsideAngular(() => {
+      this.ACTIVITY_EVENTS.forEach(event =>
+        window.addEventListener(event, this.onActivity, { passive: true, capture: true })
+      );
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+
+      this.checkSubscription = interval(this.CHECK_INTERVAL).subscribe(() => this.checkIdle());
+    });
+  }
+
+  private stop(): void {
+    if (!this.watching) {
+      return;
+    }
+
+    this.watching = false;
+    this.ACTIVITY_EVENTS.forEach(event =>
+      window.removeEventListener(event, this.onActivity, { capture: true })
+    );
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this.checkSubscription?.unsubscribe();
+    this.checkSubscription = null;
+    this.dismissWarning();
+  }
+
+  private onActivity = (): void => {
+    this.recordActivity();
+  };
+
+  private onVisibilityChange = (): void => {
+    // Background tabs throttle timers, so check straight away when shown again
+    if (document.visibilityState === 'visible') {
+      this.checkIdle();
+    }
+  };
+
+  private recordActivity(): void {
+    const now = Date.now();
+    this.lastActivity = now;
+    this.dismissWarning();
+
+    if (now - this.lastBroadcast > this.ACTIVITY_BROADCAST_INTERVAL) {
+      this.lastBroadcast = now;
+      this.tabSync.publish({ type: 'session:activity', at: now });
+    }
+  }
+
+  private checkIdle(): void {
+    const idleFor = Date.now() - this.lastActivity;
+    const timeout = this.getTimeout();
+    const warningLead = environment.idleTimeout.warningSeconds * 1000;
+
+    if (idleFor >= timeout) {
+      this.ngZone.run(() => this.signOut());
+    } else if (idleFor >= timeout - warningLead) {
+      const secondsLeft = Math.ceil((timeout - idleFor) / 1000);
+      if (this.warningSubject.value !== secondsLeft) {
+        this.ngZone.run(() => this.warningSubject.next(secondsLeft));
+      }
+    }
+  }
+
+  private dismissWarning(): void {
+    if (this.warningSubject.value !== null) {
+      this.ngZone.run(() => this.warningSubject.next(null));
+    }
+  }
+
+  private signOut(): void {
+    const minutes = Math.round(this.getTimeout() / 60000);
+
+    this.stop();
+    this.authService.logout();
+    // Don't leave the previous customer's photos in memory on a shared computer
+    this.photoService.clearImageCache();
+
+    this.notificationService.showInfo(
+      `You were signed out after ${minutes} minute${minutes === 1 ? '' : 's'} of inactivity`,
+      8000
+    );
+    this.router.navigate(['/login']);
+  }
+
+  private loadKioskSettings(): KioskSettings {
+    const defaults: KioskSettings = {
+      enabled: false,
+      timeoutMinutes: environment.idleTimeout.kioskMinutes
+    };
+
+    if (!this.isBrowser) {
+      return defaults;
+    }
+
+    try {
+      const stored = localStorage.getItem(this.KIOSK_SETTINGS_KEY);
+      if (!stored) {
+        return defaults;
+      }
+      const settings: KioskSettings = { ...defaults, ...JSON.parse(stored) };
+      // The stored value can be edited by hand, so don't trust it to be a usable number
+      return { enabled: settings.enabled === true, timeoutMinutes: this.validKioskMinutes(settings.timeoutMinutes) };
+    } catch {
+      return defaults;
+    }
+  }
+
+  /**
+   * Kiosk timeout clamped to the allowed range, or the default kiosk timeout
+   * when it isn't a positive number.
+   */
+  private validKioskMinutes(minutes: unknown): number {
+    const value = Number(minutes);
+    if (!Number.isFinite(value) || value <= 0) {
+      return environment.idleTimeout.kioskMinutes;
+    }
+    return Math.min(Math.max(Math.round(value), IdleService.MIN_KIOSK_MINUTES), IdleService.MAX_KIOSK_MINUTES);
+  }
+}
@@ -0,0 +1,369 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { AuthService } from './auth.service';
+
+export type ImageVariant = 'thumbnail' | 'download';
+
+/**
+ * A downloaded photo image, as kept in IndexedDB.
+ */
+export interface CachedImage {
+  key: string;
+  userId: string;
+  photoId: string;
+  variant: ImageVariant;
+  blob: Blob;
+  etag?: string;
+  size: number;
+  validatedAt: number; // When the server last confirmed this copy
+  lastUsed: number;
+}
+
+interface MemoryEntry {
+  url: string;
+  size: number;
+  variant: ImageVariant;
+}
+
+/**
+ * Two-tier cache of photo images: blob URLs in memory for this page, and
+ * the images themselves in IndexedDB so later visits don't download them
+ * again. Both tiers are bounded by total bytes and drop the least recently
+ * used images first. In memory, thumbnails and full-size downloads have
+ * separate limits, so opening one large photo doesn't push out the grid.
+ *
+ * Images are kept per user, and any change of user - signing in or out,
+ * or an admin entering or leaving a customer view - removes every stored
+ * image that isn't the new user's, including any left by an earlier visit. Nothing is stored while viewing as a customer or on a
+ * kiosk device, where the next person at the screen isn't the same user.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageCacheService {
+  private readonly DB_NAME = 'myimage_images';
+  private readonly STORE = 'images';
+  private readonly VERSION = 1;
+
+  private readonly MEMORY_LIMITS: Record<ImageVariant, number> = {
+    thumbnail: 50 * 1024 * 1024,
+    download: 100 * 1024 * 1024
+  };
+  private readonly STORAGE_LIMIT = 200 * 1024 * 1024;
+
+  // Stored images older than this are checked with the server before use
+  private readonly REVALIDATE_AFTER = 24 * 60 * 60 * 1000;
+
+  // Map order is use order, oldest first
+  private memory = new Map<string, MemoryEntry>();
+  private memorySize: Record<ImageVariant, number> = { thumbnail: 0, download: 0 };
+
+  // Keys whose blob URLs were revoked to make room, for views still holding them
+  private evictedSubject = new Subject<string>();
+  public evicted$: Observable<string> = this.evictedSubject.asObservable();
+
+  private db: Promise<IDBDatabase> | null = null;
+  private trimScheduled = false;
+  private userId: string | null = null;
+  private storageEnabled = true;
+
+  constructor(private authService: AuthService) {
+    this.authService.currentUser$.subscribe(user => {
+      const previousUserId = this.userId;
+      this.userId = user?.userId ?? null;
+      if (this.userId === previousUserId) {
+        return; // Same user, e.g. after a token refresh
+      }
+
+      this.clearMemory();
+      this.deleteOtherUsers(this.userId)
+        .catch(error => console.warn('ImageCacheService - Could not clear stored images:', error));
+    });
+  }
+
+  /**
+   * Blob URL of an image already in memory.
+   */
+  getUrl(photoId: string, variant: ImageVariant): string | null {
+    const key = this.key(photoId, variant);
+    const entry = this.memory.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Move to the most recently used end
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    return entry.url;
+  }
+
+  /**
+   * Whether an image is in memory, i.e. its blob URL hasn't been revoked.
+   */
+  has(photoId: string, variant: ImageVariant): boolean {
+    return this.memory.has(this.key(photoId, variant));
+  }
+
+  /**
+   * The stored copy of an image, or null when there is none or storage is
+   * unavailable.
+   */
+  async getStored(photoId: string, variant: ImageVariant): Promise<CachedImage | null> {
+    if (!this.canStore()) {
+      return null;
+    }
+
+    try {
+      const image = await this.run<CachedImage | undefined>('readonly', store => store.get(this.storageKey(photoId, variant)));
+      return image ?? null;
+    } catch (error) {
+      console.warn('ImageCacheService - Could not read stored image:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether a stored image can be used without asking the server.
+   */
+  isFresh(image: CachedImage): boolean {
+    return Date.now() - image.validatedAt < this.REVALIDATE_AFTER;
+  }
+
+  /**
+   * Cache a newly downloaded image and return its blob URL.
+   */
+  put(photoId: string, variant: ImageVariant, blob: Blob, etag?: string): string {
+    const now = Date.now();
+    if (this.canStore()) {
+      this.persist({
+        key: this.storageKey(photoId, variant),
+        userId: this.userId!,
+        photoId,
+        variant,
+        blob,
+        etag,
+        size: blob.size,
+        validatedAt: now,
+        lastUsed: now
+      });
+    }
+    return this.remember(photoId, variant, blob);
+  }
+
+  /**
+   * Use a stored image, e.g. after the server confirmed it is unchanged.
+   */
+  use(image: CachedImage, revalidated: boolean): string {
+    const now = Date.now();
+    if (this.canStore()) {
+      this.persist({ ...image, lastUsed: now, validatedAt: revalidated ? now : image.validatedAt });
+    }
+    return this.remember(image.photoId, image.variant, image.blob);
+  }
+
+  /**
+   * Forget every variant of a photo, e.g. when it is deleted. Returns the
+   * memory keys that were dropped.
+   */
+  remove(photoId: string): string[] {
+    const removed = (['thumbnail', 'download'] as ImageVariant[])
+      .map(variant => this.key(photoId, variant))
+      .filter(key => this.forget(key));
+
+    this.deleteWhere('photoId', photoId)
+      .catch(error => console.warn('ImageCacheService - Could not remove stored image:', error));
+    return removed;
+  }
+
+  /**
+   * Drop the in-memory tier and revoke its blob URLs. Stored images stay.
+   * Returns the keys that were dropped.
+   */
+  clearMemory(): string[] {
+    const keys = Array.from(this.memory.keys());
+    keys.forEach(key => this.forget(key));
+    return keys;
+  }
+
+  /**
+   * Turn storage off for devices shared between people, e.g. in kiosk mode.
+   * Turning it off also removes every image already stored on the device.
+   */
+  setStorageEnabled(enabled: boolean): void {
+    if (enabled === this.storageEnabled) {
+      return;
+    }
+
+    this.storageEnabled = enabled;
+    if (!enabled) {
+      this.run('readwrite', store => store.clear())
+        .catch(error => console.warn('ImageCacheService - Could not clear stored images:', error));
+    }
+  }
+
+  private canStore(): boolean {
+    return !!this.userId && this.storageEnabled && !this.authService.isImpersonating();
+  }
+
+  private key(photoId: string, variant: ImageVariant): string {
+    return `${photoId}-${variant}`;
+  }
+
+  private storageKey(photoId: string, variant: ImageVariant): string {
+    return `${this.userId}:${this.key(photoId, variant)}`;
+  }
+
+  private remember(photoId: string, variant: ImageVariant, blob: Blob): string {
+    const key = this.key(photoId, variant);
+    this.forget(key);
+
+    const entry = { url: URL.createObjectURL(blob), size: blob.size, variant };
+    this.memory.set(key, entry);
+    this.memorySize[variant] += entry.size;
+
+    // Evict images of the same variant from the least recently used end, always keeping the new image
+    for (const [oldKey, oldEntry] of this.memory) {
+      if (this.memorySize[variant] <= this.MEMORY_LIMITS[variant] || oldKey === key) {
+        break;
+      }
+      if (oldEntry.variant === variant) {
+        this.forget(oldKey);
+        this.evictedSubject.next(oldKey);
+      }
+    }
+
+    return entry.url;
+  }
+
+  private forget(key: string): boolean {
+    const entry = this.memory.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    URL.revokeObjectURL(entry.url);
+    this.memory.delete(key);
+    this.memorySize[entry.variant] -= entry.size;
+    return true;
+  }
+
+  private persist(image: CachedImage): void {
+    this.run('readwrite', store => store.put(image))
+      .then(() => this.scheduleTrim())
+      .catch(error => console.warn('ImageCacheService - Could not store image:', error));
+  }
+
+  /**
+   * Keep stored images under the byte limit, removing the least recently
+   * used. Batched so a screenful of new thumbnails trims once.
+   */
+  private scheduleTrim(): void {
+    if (this.trimScheduled) {
+      return;
+    }
+
+    this.trimScheduled = true;
+    setTimeout(() => {
+      this.trimScheduled = false;
+      this.trim().catch(error => console.warn('ImageCacheService - Could not trim stored images:', error));
+    }, 1000);
+  }
+
+  private async trim(): Promise<void> {
+    const db = await this.open();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE, 'readwrite');
+      let total = 0;
+
+      // Newest first; once the limit is reached everything older goes
+      const cursorRequest = transaction.objectStore(this.STORE).index('lastUsed').openCursor(null, 'prev');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          return;
+        }
+
+        total += (cursor.value as CachedImage).size;
+        if (total > this.STORAGE_LIMIT) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Remove stored images belonging to anyone but this user (everyone, for null).
+   */
+  private async deleteOtherUsers(userId: string | null): Promise<void> {
+    const db = await this.open();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE, 'readwrite');
+      const cursorRequest = transaction.objectStore(this.STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          return;
+        }
+
+        if ((cursor.value as CachedImage).userId !== userId) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async deleteWhere(index: 'userId' | 'photoId', value: string): Promise<void> {
+    const keys = await this.run<IDBValidKey[]>('readonly', store => store.index(index).getAllKeys(value));
+    await Promise.all(keys.map(key => this.run('readwrite', store => store.delete(key))));
+  }
+
+  private async run<T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE, mode);
+      const result = request(transaction.objectStore(this.STORE));
+      transaction.oncomplete = () => resolve(result.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(this.DB_NAME, this.VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(this.STORE, { keyPath: 'key' });
+          store.createIndex('userId', 'userId');
+          store.createIndex('photoId', 'photoId');
+          store.createIndex('lastUsed', 'lastUsed');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Let a later call try again rather than caching the failure
+      this.db.catch(() => this.db = null);
+    }
+
+    return this.db;
+  }
+}
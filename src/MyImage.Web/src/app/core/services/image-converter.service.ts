@@ -0,0 +1,113 @@
+import { Injectable } from '@angular/core';
+import { TiffDecoderUtil } from '../../shared/utils/tiff-decoder.util';
+
+/**
+ * A file that couldn't be turned into a JPEG, with a reason to show the customer.
+ */
+export interface ConversionFailure {
+  filename: string;
+  reason: string;
+}
+
+/**
+ * Turns PNG, WebP and TIFF files into JPEGs in the browser, since prints are
+ * only made from JPEG.
+ *
+ * PNG and WebP are decoded by the browser; TIFF, which browsers can't show,
+ * goes through TiffDecoderUtil. Transparent areas come out white, as they
+ * would on paper.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageConverterService {
+  private readonly JPEG_QUALITY = 0.95; // Close to lossless for a single conversion
+
+  private readonly FORMATS: { [extension: string]: string } = {
+    '.png': 'PNG',
+    '.webp': 'WebP',
+    '.tif': 'TIFF',
+    '.tiff': 'TIFF'
+  };
+
+  /**
+   * The format a file is converted from, e.g. "PNG", or null for JPEGs and
+   * anything that can't be converted.
+   */
+  getSourceFormat(file: File): string | null {
+    const name = file.name.toLowerCase();
+    const extension = Object.keys(this.FORMATS).find(ext => name.endsWith(ext));
+    return extension ? this.FORMATS[extension] : null;
+  }
+
+  needsConversion(file: File): boolean {
+    return this.getSourceFormat(file) !== null;
+  }
+
+  /**
+   * JPEG copy of the file, named like the original with a .jpg extension.
+   * Rejects with an Error whose message explains why it couldn't be converted.
+   */
+  async convert(file: File): Promise<File> {
+    let bitmap: ImageBitmap;
+
+    try {
+      bitmap = await this.decode(file);
+    } catch (error) {
+      throw new Error(error instanceof Error && this.getSourceFormat(file) === 'TIFF'
+        ? error.message
+        : `The ${this.getSourceFormat(file) ?? 'image'} file could not be read`);
+    }
+
+    try {
+      const blob = await this.encodeJpeg(bitmap);
+      const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+
+      // Keep the date so resumable uploads and duplicate checks see the same photo
+      return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified });
+    } catch {
+      throw new Error(`The image is too large to convert in the browser (${bitmap.width} × ${bitmap.height})`);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  private async decode(file: File): Promise<ImageBitmap> {
+    if (this.getSourceFormat(file) !== 'TIFF') {
+      return createImageBitmap(file);
+    }
+
+    const image = await TiffDecoderUtil.decode(await file.arrayBuffer());
+    return createImageBitmap(new ImageData(image.data, image.width, image.height));
+  }
+
+  private async encodeJpeg(bitmap: ImageBitmap): Promise<Blob> {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      this.draw(canvas.getContext('2d'), bitmap);
+      return canvas.convertToBlob({ type: 'image/jpeg', quality: this.JPEG_QUALITY });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    this.draw(canvas.getContext('2d'), bitmap);
+
+    return new Promise((resolve, reject) => canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Encoding failed')),
+      'image/jpeg',
+      this.JPEG_QUALITY
+    ));
+  }
+
+  private draw(context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null, bitmap: ImageBitmap): void {
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+
+    // JPEG has no transparency; fill with white first as paper would show
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, bitmap.width, bitmap.height);
+    context.drawImage(bitmap, 0, 0);
+  }
+}
@@ -0,0 +1,154 @@
+import { Injectable } from '@angular/core';
+import { NgxImageCompressService } from 'ngx-image-compress';
+import { Observable, catchError, map, of, shareReplay } from 'rxjs';
+import { PrintSize } from '../../shared/models/print-size.models';
+import { ExifUtil } from '../../shared/utils/exif.util';
+import { PrintSizeService } from './print-size.service';
+
+/**
+ * What optimizing one photo would do, worked out before touching its pixels.
+ */
+export interface OptimizationPlan {
+  width: number;
+  height: number;
+  targetWidth: number;
+  targetHeight: number;
+  scale: number; // 1 = left as is
+  estimatedBytes: number;
+  worthwhile: boolean;
+  limitingPrintSize?: string; // The print that needs the most pixels from this photo
+}
+
+/**
+ * Shrinks photos before upload to what the largest print we sell needs.
+ *
+ * A photo is only scaled down as far as it still covers every active print
+ * size at its recommended pixel dimensions, in either orientation, so
+ * optimizing never lowers the quality of any print the customer can order.
+ * The copy keeps the original's EXIF, turned upright.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageOptimizerService {
+  private readonly JPEG_QUALITY = 92; // High enough that recompression isn't visible in print
+  private readonly MIN_SCALE_GAIN = 0.9; // Not worth a generation of JPEG loss for less than this
+
+  private printSizes$: Observable<PrintSize[]>;
+
+  constructor(
+    private imageCompress: NgxImageCompressService,
+    private printSizeService: PrintSizeService
+  ) {
+    this.printSizes$ = this.printSizeService.getPrintSizes().pipe(
+      map(response => (response.data ?? []).filter(size => size.isActive)),
+      catchError(() => of([])),
+      shareReplay(1)
+    );
+  }
+
+  /**
+   * Work out how far this photo can be scaled down. Without print sizes to
+   * check against, nothing is scaled.
+   */
+  plan(file: File, printSizes: PrintSize[]): Promise<OptimizationPlan> {
+    return this.getDimensions(file).then(({ width, height }) => {
+      let scale = 1;
+      let limitingPrintSize: string | undefined;
+
+      if (printSizes.length > 0) {
+        scale = 0;
+        const photoLong = Math.max(width, height);
+        const photoShort = Math.min(width, height);
+
+        // Prints are cropped to fill, so the scaled photo must cover the print on both sides
+        printSizes.forEach(size => {
+          const printLong = Math.max(size.recommendedWidth, size.recommendedHeight);
+          const printShort = Math.min(size.recommendedWidth, size.recommendedHeight);
+          const needed = Math.max(printLong / photoLong, printShort / photoShort);
+
+          if (needed > scale) {
+            scale = needed;
+            limitingPrintSize = size.displayName;
+          }
+        });
+
+        scale = Math.min(1, scale);
+      }
+
+      const worthwhile = scale < this.MIN_SCALE_GAIN;
+      const effectiveScale = worthwhile ? scale : 1;
+
+      return {
+        width,
+        height,
+        targetWidth: Math.ceil(width * effectiveScale),
+        targetHeight: Math.ceil(height * effectiveScale),
+        scale: effectiveScale,
+        // JPEG size grows roughly with pixel count
+        estimatedBytes: worthwhile ? Math.round(file.size * effectiveScale * effectiveScale) : file.size,
+        worthwhile,
+        limitingPrintSize
+      };
+    });
+  }
+
+  /**
+   * Active print sizes, fetched once.
+   */
+  getPrintSizes(): Observable<PrintSize[]> {
+    return this.printSizes$;
+  }
+
+  /**
+   * Produce the optimized copy. Returns the original when scaling isn't worth
+   * it or the copy doesn't come out smaller.
+   */
+  async optimize(file: File, plan: OptimizationPlan): Promise<File> {
+    if (!plan.worthwhile) {
+      return file;
+    }
+
+    const dataUrl = await this.readAsDataUrl(file);
+    const orientation = await this.imageCompress.getOrientation(file);
+
+    // Nudge the scale up so rounding can't leave the result a pixel short of the print
+    const ratio = Math.min(100, plan.scale * 100 + 0.5);
+    const compressed = await this.imageCompress.compressFile(dataUrl, orientation, ratio, this.JPEG_QUALITY);
+
+    // Canvas drops EXIF; the capture date, camera and location come back from the original
+    const blob = await ExifUtil.copyExif(file, await (await fetch(compressed)).blob());
+    if (blob.size >= file.size) {
+      return file;
+    }
+
+    // Keep name and date so the gallery and resumable uploads see the same photo
+    return new File([blob], file.name, { type: 'image/jpeg', lastModified: file.lastModified });
+  }
+
+  private getDimensions(file: File): Promise<{ width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+      const url = URL.createObjectURL(file);
+      const img = new Image();
+
+      img.onload = () => {
+        resolve({ width: img.naturalWidth, height: img.naturalHeight });
+        URL.revokeObjectURL(url);
+      };
+      img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error(`Could not read "${file.name}"`));
+      };
+      img.src = url;
+    });
+  }
+
+  private readAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  }
+}
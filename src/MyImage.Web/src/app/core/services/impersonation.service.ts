@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, tap } from 'rxjs';
+import { ApiResponse } from '../../shared/models/api.models';
+import { AuthResponse } from '../../shared/models/auth.models';
+import { AuthService } from './auth.service';
+import { CartService } from './cart.service';
+import { NotificationService } from './notification.service';
+import { PhotoService } from './photo.service';
+
+/**
+ * "View as customer" for support staff.
+ *
+ * AuthService swaps the session; this service moves everything that depends
+ * on it - the cart, cached photos and the current page - to match.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImpersonationService {
+  public impersonation$ = this.authService.impersonation$;
+
+  constructor(
+    private authService: AuthService,
+    private cartService: CartService,
+    private photoService: PhotoService,
+    private notificationService: NotificationService,
+    private router: Router
+  ) {}
+
+  start(customerEmail: string): Observable<ApiResponse<AuthResponse>> {
+    return this.authService.startImpersonation({ customerEmail }).pipe(
+      tap(response => {
+        if (response.success) {
+          this.switchUserData();
+          this.notificationService.showInfo(
+            `Now viewing as ${response.data.firstName} ${response.data.lastName}. Checkout is disabled.`,
+            5000
+          );
+          this.router.navigate(['/photos']);
+        }
+      })
+    );
+  }
+
+  /**
+   * Go back to the admin session. Pass a reason when this wasn't the admin's choice.
+   */
+  stop(reason?: string): void {
+    if (!this.authService.isImpersonating()) {
+      return;
+    }
+
+    this.authService.stopImpersonation();
+    this.switchUserData();
+
+    if (reason) {
+      this.notificationService.showWarning(reason, 6000);
+    } else {
+      this.notificationService.showInfo('Returned to your admin account');
+    }
+    this.router.navigate(['/admin/orders']);
+  }
+
+  isImpersonating(): boolean {
+    return this.authService.isImpersonating();
+  }
+
+  private switchUserData(): void {
+    // Photos and cart belong to whoever the session is for now
+    this.photoService.clearImageCache();
+    this.cartService.loadCart().subscribe();
+  }
+}
@@ -1,17 +1,29 @@
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
 import { Injectable } from '@angular/core';
-import { Observable } from 'rxjs';
+import { Observable, throwError } from 'rxjs';
 import { environment } from '../../../environments/environment';
 import { ApiResponse, PagedResult } from '../../shared/models/api.models';
 import { Order, ShippingAddress } from '../../shared/models/order.models';
+import { AuthService } from './auth.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class OrderService {
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService
+  ) {}
 
   createOrder(shippingAddress: ShippingAddress, paymentMethod: string, creditCard?: any): Observable<ApiResponse<any>> {
+    // Support staff viewing as a customer must never place orders or take payments for them
+    if (this.authService.isImpersonating()) {
+      return throwError(() => new HttpErrorResponse({
+        status: 403,
+        error: { success: false, message: 'Checkout is disabled while viewing as a customer' }
+      }));
+    }
+
     const orderData: any = {
       shippingAddress,
       paymentMethod
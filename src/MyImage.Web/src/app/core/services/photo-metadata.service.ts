@@ -0,0 +1,80 @@
+import { Injectable } from '@angular/core';
+import { Observable, from, map, of, switchMap, tap } from 'rxjs';
+import { Photo, PhotoMetadata } from '../../shared/models/photo.models';
+import { ExifUtil } from '../../shared/utils/exif.util';
+import { PhotoService } from './photo.service';
+
+/**
+ * EXIF metadata for stored photos.
+ *
+ * Photos uploaded since metadata was sent with the upload carry it on
+ * `Photo.metadata`. For older ones it's read from the image itself and
+ * remembered for the rest of the session.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PhotoMetadataService {
+  private metadataCache = new Map<string, PhotoMetadata | null>();
+  private orientationCache = new Map<string, number>();
+
+  constructor(private photoService: PhotoService) {}
+
+  /**
+   * Full metadata, reading the original image if the server didn't supply it.
+   */
+  getMetadata(photo: Photo): Observable<PhotoMetadata | null> {
+    if (photo.metadata) {
+      return of(photo.metadata);
+    }
+    if (this.metadataCache.has(photo.id)) {
+      return of(this.metadataCache.get(photo.id)!);
+    }
+
+    return this.photoService.getDownloadUrl(photo.id).pipe(
+      switchMap(url => from(this.readFromUrl(url))),
+      tap(metadata => this.metadataCache.set(photo.id, metadata))
+    );
+  }
+
+  /**
+   * Orientation of the original photo. Thumbnails keep the original's tag, so
+   * one can be read from there without downloading the full image.
+   */
+  getOrientation(photo: Photo, thumbnailUrl?: string): Observable<number> {
+    const known = this.getKnownOrientation(photo);
+    if (known !== undefined || !thumbnailUrl) {
+      return of(known ?? 1);
+    }
+
+    return from(this.readFromUrl(thumbnailUrl)).pipe(
+      map(metadata => metadata?.orientation ?? 1),
+      tap(orientation => this.orientationCache.set(photo.id, orientation))
+    );
+  }
+
+  /**
+   * Orientation when it's already known, without any loading.
+   */
+  getKnownOrientation(photo: Photo): number | undefined {
+    return photo.metadata?.orientation
+      ?? this.metadataCache.get(photo.id)?.orientation
+      ?? this.orientationCache.get(photo.id);
+  }
+
+  /**
+   * Width and height as the photo is displayed, for layout and print-quality checks.
+   */
+  getOrientedDimensions(photo: Photo, orientation?: number): { width: number; height: number } {
+    return ExifUtil.orientedDimensions(photo.dimensions, orientation ?? this.getKnownOrientation(photo));
+  }
+
+  private async readFromUrl(url: string): Promise<PhotoMetadata | null> {
+    try {
+      const response = await fetch(url);
+      return await ExifUtil.fromBlob(await response.blob());
+    } catch {
+      return null;
+    }
+  }
+}
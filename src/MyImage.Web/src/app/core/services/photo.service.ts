@@ -1,26 +1,31 @@
 // src/MyImage.Web/src/app/core/services/photo.service.ts
-import { HttpClient, HttpEventType } from '@angular/common/http';
+import { HttpClient, HttpContext, HttpErrorResponse, HttpEventType, HttpHeaders, HttpParams } from '@angular/common/http';
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, catchError, map, of, throwError } from 'rxjs';
+import { BehaviorSubject, Observable, catchError, defer, finalize, from, map, mergeMap, of, reduce, share, switchMap, throwError } from 'rxjs';
 import { environment } from '../../../environments/environment';
-import { ApiResponse, PagedResult } from '../../shared/models/api.models';
-import { Photo, PhotoUploadResult } from '../../shared/models/photo.models';
+import { ApiResponse, BulkResult } from '../../shared/models/api.models';
+import { PhotoGalleryPage, PhotoQuery, PhotoUploadResult } from '../../shared/models/photo.models';
+import { PhotoQueryUtil } from '../../shared/utils/photo-query.util';
+import { SKIP_ERROR_NOTIFICATION } from '../interceptors/error.interceptor';
+import { CachedImage, ImageCacheService, ImageVariant } from './image-cache.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class PhotoService {
-  // FIXED: Better cache management with validation and subjects for reactivity
-  private imageCache = new Map<string, { url: string; timestamp: number; isValid: boolean }>();
-  private readonly CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+  // Requests under way, shared by everyone asking for the same image
+  private inFlight = new Map<string, Observable<string>>();
 
   // Subject to notify components when cache is invalidated
   private cacheInvalidated = new BehaviorSubject<string | null>(null);
   public cacheInvalidated$ = this.cacheInvalidated.asObservable();
 
-  constructor(private http: HttpClient) {
-    // Periodic cleanup of expired cache entries
-    setInterval(() => this.cleanupExpiredCache(), 60000); // Every minute
+  constructor(
+    private http: HttpClient,
+    private imageCache: ImageCacheService
+  ) {
+    // Blob URLs revoked to make room are as gone as deleted ones
+    this.imageCache.evicted$.subscribe(cacheKey => this.cacheInvalidated.next(cacheKey));
   }
 
   /**
@@ -63,59 +68,75 @@ export class PhotoService {
   }
 
   /**
-   * Get photos with pagination.
+   * Get photos with pagination, newest upload first unless a query is given.
+   * The page says which options the API applied; see PhotoQueryUtil.isApplied.
    */
-  getPhotos(page: number = 1, pageSize: number = 20): Observable<ApiResponse<PagedResult<Photo>>> {
-    return this.http.get<ApiResponse<PagedResult<Photo>>>(
-      `${environment.apiUrl}/photos?page=${page}&pageSize=${pageSize}`
-    );
+  getPhotos(page: number = 1, pageSize: number = 20, query?: PhotoQuery): Observable<ApiResponse<PhotoGalleryPage>> {
+    const params = new HttpParams({
+      fromObject: { page, pageSize, ...(query ? PhotoQueryUtil.toApiParams(query) : {}) }
+    });
+    return this.http.get<ApiResponse<PhotoGalleryPage>>(`${environment.apiUrl}/photos`, { params });
   }
 
   /**
-   * FIXED: Get authenticated image URL with proper validation and error recovery.
+   * Blob URL of a photo image, from memory, from storage, or downloaded.
+   * Stored copies are revalidated with their ETag once they're a day old.
    */
-  getAuthenticatedImageUrl(photoId: string, type: 'thumbnail' | 'download' = 'thumbnail'): Observable<string> {
+  getAuthenticatedImageUrl(photoId: string, type: ImageVariant = 'thumbnail'): Observable<string> {
     const cacheKey = `${photoId}-${type}`;
-    const now = Date.now();
 
-    // Check cache and validate
-    const cached = this.imageCache.get(cacheKey);
-    if (cached && cached.isValid && (now - cached.timestamp) < this.CACHE_DURATION) {
-      console.log(`PhotoService - Using valid cached ${type} for photo ${photoId}`);
-      return of(cached.url);
+    const cachedUrl = this.imageCache.getUrl(photoId, type);
+    if (cachedUrl) {
+      return of(cachedUrl);
     }
 
-    // Clear expired or invalid cache entry
-    if (cached) {
-      this.invalidateImageUrl(cacheKey);
+    // Join a fetch that's already running rather than starting a second one
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending;
     }
 
-    // Fetch fresh image
-    return this.fetchImageAsBlob(photoId, type, cacheKey, now);
+    // The request is cancelled once nobody is subscribed
+    const request = defer(() => this.imageCache.getStored(photoId, type)).pipe(
+      switchMap(stored => stored && this.imageCache.isFresh(stored)
+        ? of(this.imageCache.use(stored, false))
+        : this.fetchImageAsBlob(photoId, type, stored)),
+      finalize(() => this.inFlight.delete(cacheKey)),
+      share()
+    );
+    this.inFlight.set(cacheKey, request);
+    return request;
   }
 
   /**
-   * FIXED: Fetch image as blob with better error handling
+   * Download an image, or confirm a stored copy is current when there is one.
+   * Revalidations answer 304, or fail offline, and both fall back to the
+   * stored copy, so they don't raise the error snackbar.
    */
-  private fetchImageAsBlob(photoId: string, type: 'thumbnail' | 'download', cacheKey: string, timestamp: number): Observable<string> {
+  private fetchImageAsBlob(photoId: string, type: ImageVariant, stored: CachedImage | null): Observable<string> {
     const endpoint = type === 'thumbnail'
       ? `${environment.apiUrl}/photos/${photoId}/thumbnail`
       : `${environment.apiUrl}/photos/${photoId}/download`;
 
-    console.log(`PhotoService - Fetching fresh ${type} for photo ${photoId}`);
+    let headers = new HttpHeaders({
+      'Accept': 'image/jpeg,image/*,*/*',
+      'Cache-Control': 'no-cache'
+    });
+    if (stored?.etag) {
+      headers = headers.set('If-None-Match', stored.etag);
+    }
+
+    console.log(`PhotoService - Fetching ${type} for photo ${photoId}`);
 
-    return this.http.get(endpoint, {
-      responseType: 'blob',
-      headers: {
-        'Accept': 'image/jpeg,image/*,*/*',
-        'Cache-Control': 'no-cache'
-      }
-    }).pipe(
-      map(blob => {
-        console.log(`PhotoService - Received blob for ${photoId} ${type}:`, blob.size, 'bytes');
+    const context = new HttpContext().set(SKIP_ERROR_NOTIFICATION, !!stored);
+
+    return this.http.get(endpoint, { responseType: 'blob', headers, observe: 'response', context }).pipe(
+      map(response => {
+        const blob = response.body;
+        console.log(`PhotoService - Received blob for ${photoId} ${type}:`, blob?.size, 'bytes');
 
         // Validate blob
-        if (blob.size === 0) {
+        if (!blob || blob.size === 0) {
           throw new Error('Received empty blob');
         }
 
@@ -123,48 +144,24 @@ export class PhotoService {
           console.warn(`PhotoService - Unexpected blob type: ${blob.type}`);
         }
 
-        // Create object URL
-        const objectUrl = URL.createObjectURL(blob);
-
-        // Cache with validation flag
-        this.imageCache.set(cacheKey, {
-          url: objectUrl,
-          timestamp: timestamp,
-          isValid: true
-        });
-
-        console.log(`PhotoService - Cached new blob URL for ${photoId} ${type}:`, objectUrl);
-        return objectUrl;
+        return this.imageCache.put(photoId, type, blob, response.headers.get('ETag') ?? undefined);
       }),
-      catchError(error => {
-        console.error(`PhotoService - Error fetching ${type} for photo ${photoId}:`, error);
-
-        // Mark any existing cache as invalid
-        const existing = this.imageCache.get(cacheKey);
-        if (existing) {
-          existing.isValid = false;
+      catchError((error: HttpErrorResponse) => {
+        // Not modified - the stored copy is still current
+        if (stored && error.status === 304) {
+          return of(this.imageCache.use(stored, true));
+        }
+        // Offline - an old copy beats no image
+        if (stored && error.status === 0) {
+          return of(this.imageCache.use(stored, false));
         }
 
+        console.error(`PhotoService - Error fetching ${type} for photo ${photoId}:`, error);
         return throwError(() => error);
       })
     );
   }
 
-  /**
-   * FIXED: Invalidate specific image URL and notify components
-   */
-  private invalidateImageUrl(cacheKey: string): void {
-    const cached = this.imageCache.get(cacheKey);
-    if (cached) {
-      URL.revokeObjectURL(cached.url);
-      this.imageCache.delete(cacheKey);
-      console.log(`PhotoService - Invalidated cache: ${cacheKey}`);
-
-      // Notify components that cache was invalidated
-      this.cacheInvalidated.next(cacheKey);
-    }
-  }
-
   /**
    * Get thumbnail URL with authentication.
    */
@@ -190,64 +187,45 @@ export class PhotoService {
   }
 
   /**
-   * FIXED: Clear cached image URLs with proper validation.
+   * Delete several photos, a few at a time. One failing doesn't stop the rest.
    */
-  clearImageCache(photoId?: string): void {
-    if (photoId) {
-      // Clear specific photo cache
-      const thumbnailKey = `${photoId}-thumbnail`;
-      const downloadKey = `${photoId}-download`;
-
-      this.invalidateImageUrl(thumbnailKey);
-      this.invalidateImageUrl(downloadKey);
-
-      console.log(`PhotoService - Cleared all cache for photo ${photoId}`);
-    } else {
-      // Clear all cache
-      const allKeys = Array.from(this.imageCache.keys());
-      allKeys.forEach(key => this.invalidateImageUrl(key));
-      console.log('PhotoService - Cleared all image cache');
-    }
+  deletePhotos(photoIds: string[]): Observable<BulkResult> {
+    return from(photoIds).pipe(
+      mergeMap(photoId => this.deletePhoto(photoId).pipe(
+        map(response => ({ photoId, success: response.success, message: response.message })),
+        catchError(error => of({ photoId, success: false, message: error.error?.message || 'Failed to delete photo' }))
+      ), 4),
+      reduce<{ photoId: string; success: boolean; message: string }, BulkResult>((result, outcome) => {
+        if (outcome.success) {
+          result.succeeded.push(outcome.photoId);
+        } else {
+          result.failed.push({ id: outcome.photoId, message: outcome.message });
+        }
+        return result;
+      }, { succeeded: [], failed: [] })
+    );
   }
 
   /**
-   * FIXED: Check if cached URL is still valid
+   * Whether a blob URL handed out for this image is still usable.
    */
-  isCacheValid(photoId: string, type: 'thumbnail' | 'download' = 'thumbnail'): boolean {
-    const cacheKey = `${photoId}-${type}`;
-    const cached = this.imageCache.get(cacheKey);
-
-    if (!cached) return false;
-
-    const now = Date.now();
-    const isExpired = (now - cached.timestamp) > this.CACHE_DURATION;
-
-    return cached.isValid && !isExpired;
+  isCacheValid(photoId: string, type: ImageVariant = 'thumbnail'): boolean {
+    return this.imageCache.has(photoId, type);
   }
 
   /**
-   * Periodic cleanup of expired cache entries
+   * Forget a photo's cached images, or with no id drop all images held in
+   * memory. Stored images stay until sign-out; see ImageCacheService.
    */
-  private cleanupExpiredCache(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
-
-    this.imageCache.forEach((cached, key) => {
-      if (!cached.isValid || (now - cached.timestamp) > this.CACHE_DURATION) {
-        URL.revokeObjectURL(cached.url);
-        expiredKeys.push(key);
-      }
-    });
-
-    expiredKeys.forEach(key => this.imageCache.delete(key));
+  clearImageCache(photoId?: string): void {
+    const cleared = photoId ? this.imageCache.remove(photoId) : this.imageCache.clearMemory();
 
-    if (expiredKeys.length > 0) {
-      console.log(`PhotoService - Cleaned up ${expiredKeys.length} expired cache entries`);
-    }
+    // Notify components that cache was invalidated
+    cleared.forEach(cacheKey => this.cacheInvalidated.next(cacheKey));
   }
 
-  // Helper method to filter JPEG files client-side
-  filterJpegFiles(files: FileList): File[] {
+  // Helper method to filter supported image files client-side
+  filterSupportedFiles(files: FileList | File[]): File[] {
     return Array.from(files).filter(file => {
       const extension = file.name.toLowerCase();
       return environment.supportedFormats.some(format =>
@@ -268,7 +246,7 @@ export class PhotoService {
     );
 
     if (!isValidFormat) {
-      return { valid: false, error: 'Only JPEG files are supported' };
+      return { valid: false, error: 'Only JPEG, PNG, WebP and TIFF files are supported' };
     }
 
     return { valid: true };
@@ -0,0 +1,67 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { ImageAnalysis, PrintQualityResponse } from '../../shared/models/print-quality.models';
+
+/**
+ * Checks photos for print problems - blur and bad exposure - before upload.
+ *
+ * The pixel work runs in a Web Worker so the page stays responsive while a
+ * large batch is analyzed. How big a photo can print comes from
+ * PrintQualityUtil.printFit, which is cheap enough for the main thread.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PrintQualityService implements OnDestroy {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (analysis: ImageAnalysis) => void; reject: (error: Error) => void }>();
+
+  ngOnDestroy(): void {
+    this.worker?.terminate();
+  }
+
+  /**
+   * Analyze one photo. Rejects when the browser can't run the worker or
+   * can't decode the file.
+   */
+  analyze(file: File): Promise<ImageAnalysis> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.reject(new Error('Photo analysis is not supported in this browser'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, file });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+      return this.worker;
+    }
+
+    this.worker = new Worker(new URL('../workers/print-quality.worker', import.meta.url), { type: 'module' });
+    this.worker.onmessage = ({ data }: MessageEvent<PrintQualityResponse>) => {
+      const request = this.pending.get(data.id);
+      this.pending.delete(data.id);
+
+      if (data.analysis) {
+        request?.resolve(data.analysis);
+      } else {
+        request?.reject(new Error(data.error || 'Analysis failed'));
+      }
+    };
+    this.worker.onerror = event => {
+      // A crashed worker answers nothing more; fail what's waiting and start afresh next time
+      console.warn('PrintQualityService - Worker failed:', event.message);
+      this.pending.forEach(request => request.reject(new Error('Analysis failed')));
+      this.pending.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    };
+
+    return this.worker;
+  }
+}
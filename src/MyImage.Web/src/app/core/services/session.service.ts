@@ -0,0 +1,199 @@
+import { isPlatformBrowser } from '@angular/common';
+import { Inject, Injectable, OnDestroy, PLATFORM_ID } from '@angular/core';
+import { MatDialog, MatDialogRef } from '@angular/material/dialog';
+import { Router } from '@angular/router';
+import { Subscription, merge, timer } from 'rxjs';
+import {
+  SessionExpiryDialogComponent,
+  SessionExpiryDialogResult
+} from '../../shared/components/session-expiry-dialog/session-expiry-dialog.component';
+import { AuthService } from './auth.service';
+import { ImpersonationService } from './impersonation.service';
+import { NotificationService } from './notification.service';
+import { TabSyncService } from './tab-sync.service';
+
+/**
+ * Watches the token expiry published by AuthService and keeps the user informed.
+ *
+ * - Opens a countdown dialog shortly before the token expires
+ * - Extends the session when the user chooses to stay signed in, if it can be refreshed
+ * - Logs out at expiry and sends the user to the login page with a return URL,
+ *   instead of waiting for the next API call to fail with a 401
+ * - Follows logins and logouts made in other tabs
+ * - Ends an impersonation (back to the admin) rather than logging out when its token expires
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService implements OnDestroy {
+  // How long before expiry the warning dialog appears
+  private readonly WARNING_LEAD_TIME = 5 * 60 * 1000; // 5 minutes
+
+  // Longest delay a browser timer takes; anything longer fires straight away
+  private readonly MAX_TIMER_DELAY = 2 ** 31 - 1; // About 24.8 days
+
+  private expirySubscription: Subscription | null = null;
+  private tabSyncSubscription: Subscription | null = null;
+  private warningTimer: Subscription | null = null;
+  private expiryTimer: Subscription | null = null;
+  private dialogRef: MatDialogRef<SessionExpiryDialogComponent, SessionExpiryDialogResult> | null = null;
+
+  constructor(
+    private authService: AuthService,
+    private dialog: MatDialog,
+    private router: Router,
+    private notificationService: NotificationService,
+    private tabSync: TabSyncService,
+    private impersonationService: ImpersonationService,
+    @Inject(PLATFORM_ID) private platformId: object
+  ) {}
+
+  /**
+   * Start watching the session. Safe to call more than once.
+   */
+  start(): void {
+    // Timers would keep server-side rendering from ever settling
+    if (this.expirySubscription || !isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    this.expirySubscription = this.authService.sessionExpiresAt$
+      .subscribe(expiresAt => this.schedule(expiresAt));
+
+    this.tabSyncSubscription = merge(
+      this.tabSync.on('auth:login'),
+      this.tabSync.on('auth:logout')
+    ).subscribe(message => this.followOtherTab(message.type === 'auth:login'));
+  }
+
+  ngOnDestroy(): void {
+    this.expirySubscription?.unsubscribe();
+    this.tabSyncSubscription?.unsubscribe();
+    this.clearTimers();
+    this.closeWarning();
+  }
+
+  /**
+   * (Re)schedule the warning and expiry timers for a new expiry date.
+   */
+  private schedule(expiresAt: Date | null): void {
+    this.clearTimers();
+    this.closeWarning();
+
+    if (!expiresAt) {
+      return;
+    }
+
+    const msUntilExpiry = expiresAt.getTime() - Date.now();
+
+    // "Keep me signed in" tokens can outlast a timer - check back once it runs out
+    if (msUntilExpiry > this.MAX_TIMER_DELAY) {
+      this.expiryTimer = timer(this.MAX_TIMER_DELAY).subscribe(() => this.schedule(expiresAt));
+      return;
+    }
+
+    // Impersonation sessions can't be extended, so skip the warning and hand back to the admin
+    if (this.impersonationService.isImpersonating()) {
+      this.expiryTimer = timer(Math.max(0, msUntilExpiry)).subscribe(() =>
+        this.impersonationService.stop('The customer view has timed out. You are back in your admin account.')
+      );
+      return;
+    }
+
+    if (msUntilExpiry <= 0) {
+      this.expireSession();
+      return;
+    }
+
+    const msUntilWarning = Math.max(0, msUntilExpiry - this.WARNING_LEAD_TIME);
+    this.warningTimer = timer(msUntilWarning).subscribe(() => this.showWarning(expiresAt));
+    this.expiryTimer = timer(msUntilExpiry).subscribe(() => this.expireSession());
+  }
+
+  private showWarning(expiresAt: Date): void {
+    if (this.dialogRef) {
+      return;
+    }
+
+    this.dialogRef = this.dialog.open(SessionExpiryDialogComponent, {
+      width: '420px',
+      disableClose: true,
+      data: { expiresAt, canExtend: this.authService.canRefreshSession() }
+    });
+
+    this.dialogRef.afterClosed().subscribe(result => {
+      this.dialogRef = null;
+
+      if (result === 'extend') {
+        this.extendSession();
+      } else if (result === 'signout') {
+        this.clearTimers();
+        this.authService.logout();
+        this.router.navigate(['/login']);
+      }
+    });
+  }
+
+  private extendSession(): void {
+    this.authService.refreshSession().subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.notificationService.showSuccess('Your session has been extended');
+        } else {
+          this.notificationService.showError('Unable to extend your session');
+        }
+      },
+      error: () => {
+        this.notificationService.showError('Unable to extend your session');
+      }
+    });
+  }
+
+  /**
+   * Log out cleanly, remembering where the user was so login can bring them back.
+   */
+  private expireSession(): void {
+    this.clearTimers();
+    this.closeWarning();
+
+    const currentUrl = this.router.url;
+    this.authService.logout();
+    this.notificationService.showWarning('Your session has expired. Please sign in again.', 6000);
+
+    const isOnAuthPage = currentUrl.startsWith('/auth') || currentUrl.startsWith('/login');
+    this.router.navigate(['/login'], {
+      queryParams: isOnAuthPage ? {} : { returnUrl: currentUrl }
+    });
+  }
+
+  /**
+   * Move this tab to match a login or logout made in another tab.
+   */
+  private followOtherTab(signedIn: boolean): void {
+    const currentUrl = this.router.url;
+    const isOnAuthPage = currentUrl.startsWith('/auth') || currentUrl.startsWith('/login');
+
+    if (signedIn && isOnAuthPage) {
+      this.router.navigate(['/photos']);
+    } else if (!signedIn && !isOnAuthPage) {
+      this.notificationService.showInfo('You have been signed out in another tab');
+      this.router.navigate(['/login'], { queryParams: { returnUrl: currentUrl } });
+    }
+  }
+
+  private clearTimers(): void {
+    this.warningTimer?.unsubscribe();
+    this.expiryTimer?.unsubscribe();
+    this.warningTimer = null;
+    this.expiryTimer = null;
+  }
+
+  private closeWarning(): void {
+    if (this.dialogRef) {
+      // Detach first so afterClosed doesn't treat this as a user choice
+      const dialogRef = this.dialogRef;
+      this.dialogRef = null;
+      dialogRef.close();
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { isPlatformBrowser } from '@angular/common';
+import { Inject, Injectable, NgZone, OnDestroy, PLATFORM_ID } from '@angular/core';
+import { Observable, Subject, filter } from 'rxjs';
+import { AuthResponse } from '../../shared/models/auth.models';
+import { Cart } from '../../shared/models/cart.models';
+
+export type TabSyncMessage =
+  | { type: 'auth:login'; user: AuthResponse; remember: boolean }
+  | { type: 'auth:token-refreshed'; user: AuthResponse }
+  | { type: 'auth:user-updated'; user: AuthResponse }
+  | { type: 'auth:logout' }
+  | { type: 'session:activity'; at: number }
+  | { type: 'cart:updated'; cart: Cart | null };
+
+/**
+ * Relays session and cart changes between browser tabs of the same origin.
+ *
+ * Uses BroadcastChannel where available and falls back to the localStorage
+ * "storage" event (which also only fires in other tabs). Messages are never
+ * delivered back to the tab that published them, so receivers can apply them
+ * without re-publishing and causing loops.
+ *
+ * Anything written to localStorage can be read by every script on the origin,
+ * so the fallback leaves tokens out. Users arrive with an empty token and
+ * receivers read the tokens from their own storage instead.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TabSyncService implements OnDestroy {
+  private readonly CHANNEL_NAME = 'myimage-sync';
+  private readonly STORAGE_KEY = 'myimage_sync_message';
+
+  private channel: BroadcastChannel | null = null;
+  private readonly isBrowser: boolean;
+
+  private messagesSubject = new Subject<TabSyncMessage>();
+  public messages$ = this.messagesSubject.asObservable();
+
+  constructor(
+    private ngZone: NgZone,
+    @Inject(PLATFORM_ID) platformId: object
+  ) {
+    this.isBrowser = isPlatformBrowser(platformId);
+
+    if (!this.isBrowser) {
+      return;
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+      this.channel.addEventListener('message', this.onChannelMessage);
+    } else {
+      window.addEventListener('storage', this.onStorageEvent);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.channel) {
+      this.channel.removeEventListener('message', this.onChannelMessage);
+      this.channel.close();
+    } else if (this.isBrowser) {
+      window.removeEventListener('storage', this.onStorageEvent);
+    }
+    this.messagesSubject.complete();
+  }
+
+  /**
+   * Send a message to every other open tab.
+   */
+  publish(message: TabSyncMessage): void {
+    if (!this.isBrowser) {
+      return;
+    }
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else {
+        // Timestamp makes every write a change, so repeated messages still fire the event
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ message: this.withoutTokens(message), sentAt: Date.now() }));
+        localStorage.removeItem(this.STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('TabSyncService - Failed to publish message:', error);
+    }
+  }
+
+  /**
+   * Listen for a single message type from other tabs.
+   */
+  on<T extends TabSyncMessage['type']>(type: T): Observable<Extract<TabSyncMessage, { type: T }>> {
+    return this.messages$.pipe(
+      filter((message): message is Extract<TabSyncMessage, { type: T }> => message.type === type)
+    );
+  }
+
+  private withoutTokens(message: TabSyncMessage): TabSyncMessage {
+    return 'user' in message
+      ? { ...message, user: { ...message.user, token: '', refreshToken: undefined } }
+      : message;
+  }
+
+  private onChannelMessage = (event: MessageEvent<TabSyncMessage>): void => {
+    this.emit(event.data);
+  };
+
+  private onStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== this.STORAGE_KEY || !event.newValue) {
+      return;
+    }
+
+    try {
+      this.emit(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore malformed messages
+    }
+  };
+
+  private emit(message: TabSyncMessage | undefined): void {
+    if (!message?.type) {
+      return;
+    }
+
+    // Make sure change detection picks up whatever the receivers update
+    this.ngZone.run(() => this.messagesSubject.next(message));
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+import { PhotoService } from './photo.service';
+
+interface ThumbnailRequest {
+  photoId: string;
+  priority: number;
+  sequence: number;
+  start: () => void;
+}
+
+/**
+ * Loads thumbnails a few at a time, nearest the viewport first.
+ *
+ * A gallery can ask for hundreds of thumbnails at once; sending them all
+ * together makes the visible ones wait behind the rest. Requests wait here
+ * until a slot is free and are dropped if their tile scrolls away first.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ThumbnailLoaderService {
+  private readonly MAX_CONCURRENT = 6;
+
+  private queue: ThumbnailRequest[] = [];
+  private active = 0;
+  private sequence = 0;
+
+  constructor(private photoService: PhotoService) {}
+
+  /**
+   * Blob URL of a photo's thumbnail. Lower priorities load first; requests
+   * of equal priority load in the order they were made. Unsubscribing
+   * removes a waiting request or cancels a running one.
+   */
+  load(photoId: string, priority: number): Observable<string> {
+    return new Observable<string>(subscriber => {
+      let subscription: Subscription | null = null;
+      let running = false;
+
+      const request: ThumbnailRequest = {
+        photoId,
+        priority,
+        sequence: this.sequence++,
+        start: () => {
+          running = true;
+          this.active++;
+          subscription = this.photoService.getThumbnailUrl(photoId).subscribe({
+            next: url => subscriber.next(url),
+            error: error => subscriber.error(error),
+            complete: () => subscriber.complete()
+          });
+        }
+      };
+
+      this.queue.push(request);
+      this.pump();
+
+      return () => {
+        this.queue = this.queue.filter(queued => queued !== request);
+        subscription?.unsubscribe();
+        if (running) {
+          running = false;
+          this.active--;
+          this.pump();
+        }
+      };
+    });
+  }
+
+  /**
+   * Move a waiting request up or down the queue, e.g. as its tile scrolls.
+   */
+  reprioritize(photoId: string, priority: number): void {
+    this.queue
+      .filter(request => request.photoId === photoId)
+      .forEach(request => request.priority = priority);
+  }
+
+  private pump(): void {
+    while (this.active < this.MAX_CONCURRENT && this.queue.length > 0) {
+      const next = this.queue.reduce((best, request) =>
+        request.priority < best.priority || (request.priority === best.priority && request.sequence < best.sequence)
+          ? request
+          : best);
+
+      this.queue = this.queue.filter(request => request !== next);
+      next.start();
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { isPlatformBrowser } from '@angular/common';
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { ImpersonationSession } from '../../shared/models/auth.models';
+
+/**
+ * Minimal key/value store the auth tokens are kept in.
+ */
+export abstract class TokenStorage {
+  abstract get(key: string): string | null;
+  abstract set(key: string, value: string): void;
+  abstract remove(key: string): void;
+}
+
+/**
+ * Survives browser restarts - used for "Keep me signed in".
+ */
+export class LocalTokenStorage extends TokenStorage {
+  get(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  set(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  remove(key: string): void {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Cleared when the tab is closed - the default for shared computers.
+ */
+export class SessionTokenStorage extends TokenStorage {
+  get(key: string): string | null {
+    return sessionStorage.getItem(key);
+  }
+
+  set(key: string, value: string): void {
+    sessionStorage.setItem(key, value);
+  }
+
+  remove(key: string): void {
+    sessionStorage.removeItem(key);
+  }
+}
+
+/**
+ * Lost on reload - fallback when the browser blocks Web Storage.
+ */
+export class MemoryTokenStorage extends TokenStorage {
+  private values = new Map<string, string>();
+
+  get(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  set(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Used during server-side rendering, where there is no user session to read.
+ */
+export class ServerTokenStorage extends TokenStorage {
+  get(key: string): string | null {
+    return null;
+  }
+
+  set(key: string, value: string): void {}
+
+  remove(key: string): void {}
+}
+
+/**
+ * Picks where auth tokens live based on the platform and the user's
+ * "Keep me signed in" choice, so AuthService never touches Web Storage directly.
+ *
+ * - Server: no-op storage, every render is anonymous
+ * - Browser, remembered: localStorage
+ * - Browser, not remembered: sessionStorage
+ * - Browser with Web Storage blocked: in-memory
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TokenStorageService {
+  private readonly IMPERSONATION_KEY = 'myimage_impersonation';
+
+  private persistentStorage: TokenStorage;
+  private sessionStorage: TokenStorage;
+
+  constructor(@Inject(PLATFORM_ID) platformId: object) {
+    if (isPlatformBrowser(platformId)) {
+      this.persistentStorage = this.isAvailable(() => localStorage) ? new LocalTokenStorage() : new MemoryTokenStorage();
+      this.sessionStorage = this.isAvailable(() => sessionStorage) ? new SessionTokenStorage() : this.persistentStorage;
+    } else {
+      this.persistentStorage = new ServerTokenStorage();
+      this.sessionStorage = this.persistentStorage;
+    }
+  }
+
+  /**
+   * The token to send with API calls - the customer's while an admin is impersonating one.
+   */
+  getToken(): string | null {
+    return this.getImpersonation()?.customer.token ?? this.activeStorage().get(environment.tokenKey);
+  }
+
+  // Impersonation sessions can't be refreshed, so don't hand out the admin's refresh token
+  getRefreshToken(): string | null {
+    return this.getImpersonation() ? null : this.activeStorage().get(environment.refreshTokenKey);
+  }
+
+  /**
+   * Whether the current tokens survive closing the browser.
+   */
+  isRemembered(): boolean {
+    return this.persistentStorage.get(environment.tokenKey) !== null;
+  }
+
+  /**
+   * Store tokens from a fresh login, replacing whatever was stored before.
+   */
+  saveTokens(token: string, refreshToken: string | undefined, remember: boolean): void {
+    this.clear();
+    this.writeTokens(remember ? this.persistentStorage : this.sessionStorage, token, refreshToken);
+  }
+
+  /**
+   * Store refreshed tokens in the same place as the ones they replace.
+   */
+  updateTokens(token: string, refreshToken?: string): void {
+    this.writeTokens(this.activeStorage(), token, refreshToken);
+  }
+
+  clear(): void {
+    [this.persistentStorage, this.sessionStorage].forEach(storage => {
+      storage.remove(environment.tokenKey);
+      storage.remove(environment.refreshTokenKey);
+    });
+    this.clearImpersonation();
+  }
+
+  getImpersonation(): ImpersonationSession | null {
+    const stored = this.sessionStorage.get(this.IMPERSONATION_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Kept in sessionStorage so impersonation never outlives the tab it started in.
+   * The admin's own tokens are left untouched underneath.
+   */
+  saveImpersonation(session: ImpersonationSession): void {
+    this.sessionStorage.set(this.IMPERSONATION_KEY, JSON.stringify(session));
+  }
+
+  /**
+   * Tokens every tab of this browser can read - the remembered ones.
+   */
+  getSharedTokens(): { token: string; refreshToken?: string } | null {
+    const token = this.persistentStorage.get(environment.tokenKey);
+    return token ? { token, refreshToken: this.persistentStorage.get(environment.refreshTokenKey) ?? undefined } : null;
+  }
+
+  clearImpersonation(): void {
+    this.sessionStorage.remove(this.IMPERSONATION_KEY);
+  }
+
+  private activeStorage(): TokenStorage {
+    return this.sessionStorage.get(environment.tokenKey) !== null ? this.sessionStorage : this.persistentStorage;
+  }
+
+  private writeTokens(storage: TokenStorage, token: string, refreshToken?: string): void {
+    storage.set(environment.tokenKey, token);
+    if (refreshToken) {
+      storage.set(environment.refreshTokenKey, refreshToken);
+    }
+  }
+
+  // Web Storage access throws when cookies are blocked or in some private modes
+  private isAvailable(getStorage: () => Storage): boolean {
+    try {
+      const storage = getStorage();
+      const probeKey = '__myimage_storage_probe__';
+      storage.setItem(probeKey, probeKey);
+      storage.removeItem(probeKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { Observable, from, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { ApiResponse } from '../../shared/models/api.models';
+import {
+  AuthResponse,
+  LoginResult,
+  TwoFactorChallenge,
+  TwoFactorRecoveryCodes,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  TwoFactorVerifyRequest
+} from '../../shared/models/auth.models';
+import { TotpUtil } from '../../shared/utils/totp.util';
+import { SKIP_ERROR_NOTIFICATION } from '../interceptors/error.interceptor';
+
+/**
+ * Where TOTP secrets live and codes get checked.
+ */
+export abstract class TwoFactorVerifier {
+  /**
+   * Whether two-factor authentication can be offered to the signed-in user.
+   */
+  abstract isAvailable(): Observable<boolean>;
+  abstract getStatus(user: AuthResponse): Observable<ApiResponse<TwoFactorStatus>>;
+  abstract beginSetup(user: AuthResponse): Observable<ApiResponse<TwoFactorSetup>>;
+  abstract confirmSetup(user: AuthResponse, code: string): Observable<ApiResponse<TwoFactorRecoveryCodes>>;
+  abstract disable(user: AuthResponse, code: string): Observable<ApiResponse<void>>;
+  abstract verifyLogin(request: TwoFactorVerifyRequest): Observable<ApiResponse<AuthResponse>>;
+
+  /**
+   * Turn a completed password login into a challenge when the API can't do it itself.
+   */
+  abstract challengeLogin(result: LoginResult): LoginResult;
+}
+
+/**
+ * The real implementation - the API owns the secrets and issues challenges from /auth/login.
+ */
+export class ApiTwoFactorVerifier extends TwoFactorVerifier {
+  private readonly baseUrl = `${environment.apiUrl}/auth/2fa`;
+
+  constructor(private http: HttpClient) {
+    super();
+  }
+
+  // Only offered once the API answers - until then there is no second factor to enforce
+  isAvailable(): Observable<boolean> {
+    return this.http.get<ApiResponse<TwoFactorStatus>>(`${this.baseUrl}/status`, {
+      context: new HttpContext().set(SKIP_ERROR_NOTIFICATION, true)
+    }).pipe(
+      map(response => response.success),
+      catchError(() => of(false))
+    );
+  }
+
+  getStatus(user: AuthResponse): Observable<ApiResponse<TwoFactorStatus>> {
+    return this.http.get<ApiResponse<TwoFactorStatus>>(`${this.baseUrl}/status`);
+  }
+
+  beginSetup(user: AuthResponse): Observable<ApiResponse<TwoFactorSetup>> {
+    return this.http.post<ApiResponse<TwoFactorSetup>>(`${this.baseUrl}/setup`, {});
+  }
+
+  confirmSetup(user: AuthResponse, code: string): Observable<ApiResponse<TwoFactorRecoveryCodes>> {
+    return this.http.post<ApiResponse<TwoFactorRecoveryCodes>>(`${this.baseUrl}/enable`, { code });
+  }
+
+  disable(user: AuthResponse, code: string): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(`${this.baseUrl}/disable`, { code });
+  }
+
+  verifyLogin(request: TwoFactorVerifyRequest): Observable<ApiResponse<AuthResponse>> {
+    return this.http.post<ApiResponse<AuthResponse>>(`${this.baseUrl}/verify`, request);
+  }
+
+  challengeLogin(result: LoginResult): LoginResult {
+    return result;
+  }
+}
+
+interface LocalEnrollment {
+  secret: string;
+  recoveryCodes: string[];
+  enabled: boolean;
+}
+
+/**
+ * Development stand-in that keeps secrets in localStorage and checks codes in
+ * the browser, so the whole flow can be tried against an API without 2FA support.
+ * Not secure - anyone with access to the browser can read the secrets.
+ */
+export class LocalTwoFactorVerifier extends TwoFactorVerifier {
+  private readonly STORAGE_KEY = 'myimage_local_2fa';
+  private readonly CHALLENGE_LIFETIME = 5 * 60; // seconds
+
+  // Password logins held back until the second step succeeds
+  private pendingLogins = new Map<string, { user: AuthResponse; expiresAt: number }>();
+
+  isAvailable(): Observable<boolean> {
+    return of(true);
+  }
+
+  getStatus(user: AuthResponse): Observable<ApiResponse<TwoFactorStatus>> {
+    const enrollment = this.getEnrollment(user.userId);
+    return this.ok({
+      enabled: !!enrollment?.enabled,
+      recoveryCodesRemaining: enrollment?.enabled ? enrollment.recoveryCodes.length : 0
+    });
+  }
+
+  beginSetup(user: AuthResponse): Observable<ApiResponse<TwoFactorSetup>> {
+    const secret = TotpUtil.generateSecret();
+    this.saveEnrollment(user.userId, { secret, recoveryCodes: [], enabled: false });
+
+    return this.ok({
+      secret,
+      otpauthUri: TotpUtil.buildOtpauthUri(environment.twoFactor.issuer, user.email, secret)
+    });
+  }
+
+  confirmSetup(user: AuthResponse, code: string): Observable<ApiResponse<TwoFactorRecoveryCodes>> {
+    return from(this.confirm(user.userId, code));
+  }
+
+  disable(user: AuthResponse, code: string): Observable<ApiResponse<void>> {
+    return from(this.remove(user.userId, code));
+  }
+
+  verifyLogin(request: TwoFactorVerifyRequest): Observable<ApiResponse<AuthResponse>> {
+    return from(this.verify(request));
+  }
+
+  challengeLogin(result: LoginResult): LoginResult {
+    if ('requiresTwoFactor' in result || !this.getEnrollment(result.userId)?.enabled) {
+      return result;
+    }
+
+    const challengeToken = crypto.randomUUID();
+    this.pendingLogins.set(challengeToken, {
+      user: result,
+      expiresAt: Date.now() + this.CHALLENGE_LIFETIME * 1000
+    });
+
+    const challenge: TwoFactorChallenge = {
+      requiresTwoFactor: true,
+      challengeToken,
+      expiresIn: this.CHALLENGE_LIFETIME
+    };
+    return challenge;
+  }
+
+  private async confirm(userId: string, code: string): Promise<ApiResponse<TwoFactorRecoveryCodes>> {
+    const enrollment = this.getEnrollment(userId);
+    if (!enrollment || !await TotpUtil.verifyCode(enrollment.secret, code)) {
+      throw this.rejected(400, 'Invalid verification code');
+    }
+
+    const recoveryCodes = TotpUtil.generateRecoveryCodes();
+    this.saveEnrollment(userId, { ...enrollment, recoveryCodes, enabled: true });
+    return this.response({ recoveryCodes });
+  }
+
+  private async remove(userId: string, code: string): Promise<ApiResponse<void>> {
+    const enrollment = this.getEnrollment(userId);
+    if (!enrollment || !await TotpUtil.verifyCode(enrollment.secret, code)) {
+      throw this.rejected(400, 'Invalid verification code');
+    }
+
+    this.saveEnrollment(userId, null);
+    return this.response(undefined);
+  }
+
+  private async verify(request: TwoFactorVerifyRequest): Promise<ApiResponse<AuthResponse>> {
+    const pending = this.pendingLogins.get(request.challengeToken);
+    if (!pending || pending.expiresAt < Date.now()) {
+      this.pendingLogins.delete(request.challengeToken);
+      throw this.rejected(410, 'Your sign-in attempt has expired. Please sign in again.');
+    }
+
+    const enrollment = this.getEnrollment(pending.user.userId);
+    if (!enrollment) {
+      throw this.rejected(401, 'Invalid verification code');
+    }
+
+    if (request.isRecoveryCode) {
+      const code = request.code.trim().toLowerCase();
+      if (!enrollment.recoveryCodes.includes(code)) {
+        throw this.rejected(401, 'Invalid recovery code');
+      }
+      // Recovery codes only work once
+      this.saveEnrollment(pending.user.userId, {
+        ...enrollment,
+        recoveryCodes: enrollment.recoveryCodes.filter(c => c !== code)
+      });
+    } else if (!await TotpUtil.verifyCode(enrollment.secret, request.code)) {
+      throw this.rejected(401, 'Invalid verification code');
+    }
+
+    this.pendingLogins.delete(request.challengeToken);
+    return this.response(pending.user);
+  }
+
+  private getEnrollment(userId: string): LocalEnrollment | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+      return stored[userId] ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveEnrollment(userId: string, enrollment: LocalEnrollment | null): void {
+    let stored: { [userId: string]: LocalEnrollment } = {};
+    try {
+      stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+    } catch {
+      // Start over if the stored value is corrupt
+    }
+
+    if (enrollment) {
+      stored[userId] = enrollment;
+    } else {
+      delete stored[userId];
+    }
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  private ok<T>(data: T): Observable<ApiResponse<T>> {
+    return of(this.response(data));
+  }
+
+  private response<T>(data: T): ApiResponse<T> {
+    return { success: true, data, message: '', errors: [], timestamp: new Date().toISOString() };
+  }
+
+  // Shaped like an API failure so callers handle both verifiers the same way
+  private rejected(status: number, message: string): HttpErrorResponse {
+    return new HttpErrorResponse({
+      status,
+      error: { success: false, message, errors: [message] }
+    });
+  }
+}
+
+/**
+ * Two-factor enrollment and login verification.
+ *
+ * Uses the API by default, and the settings only appear once the API answers.
+ * Set environment.twoFactor.useLocalVerifier to swap in LocalTwoFactorVerifier
+ * for testing without backend support; production builds ignore the flag.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TwoFactorService {
+  private verifier: TwoFactorVerifier;
+
+  constructor(
+    http: HttpClient,
+    @Inject(PLATFORM_ID) platformId: object
+  ) {
+    this.verifier = environment.twoFactor.useLocalVerifier && !environment.production && isPlatformBrowser(platformId)
+      ? new LocalTwoFactorVerifier()
+      : new ApiTwoFactorVerifier(http);
+  }
+
+  isAvailable(): Observable<boolean> {
+    return this.verifier.isAvailable();
+  }
+
+  getStatus(user: AuthResponse): Observable<ApiResponse<TwoFactorStatus>> {
+    return this.verifier.getStatus(user);
+  }
+
+  beginSetup(user: AuthResponse): Observable<ApiResponse<TwoFactorSetup>> {
+    return this.verifier.beginSetup(user);
+  }
+
+  confirmSetup(user: AuthResponse, code: string): Observable<ApiResponse<TwoFactorRecoveryCodes>> {
+    return this.verifier.confirmSetup(user, code);
+  }
+
+  disable(user: AuthResponse, code: string): Observable<ApiResponse<void>> {
+    return this.verifier.disable(user, code);
+  }
+
+  verifyLogin(request: TwoFactorVerifyRequest): Observable<ApiResponse<AuthResponse>> {
+    return this.verifier.verifyLogin(request);
+  }
+
+  challengeLogin(result: LoginResult): LoginResult {
+    return this.verifier.challengeLogin(result);
+  }
+
+  isChallenge(result: LoginResult): result is TwoFactorChallenge {
+    return 'requiresTwoFactor' in result && result.requiresTwoFactor === true;
+  }
+}
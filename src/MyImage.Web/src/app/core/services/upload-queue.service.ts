@@ -0,0 +1,490 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription, combineLatest, map } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { FailedUpload, Photo, PhotoUploadResult, SkippedDuplicate } from '../../shared/models/photo.models';
+import { UploadReportUtil } from '../../shared/utils/upload-report.util';
+import { AuthService } from './auth.service';
+import { ChunkedUploadService } from './chunked-upload.service';
+import { UploadProgress } from './file-upload.service';
+import { StoredUpload, UploadStoreService } from './upload-store.service';
+
+export interface UploadQueueItem {
+  id: number;
+  folderPath?: string;
+  contentHash?: string;
+  duplicateOf?: string; // Set for files skipped as a copy of this photo
+  upload: UploadProgress;
+}
+
+/**
+ * Totals for compact progress displays such as the header indicator.
+ */
+export interface UploadQueueSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  remaining: number;
+  progress: number; // 0-100, by bytes
+  paused: boolean;
+  offline: boolean; // Waiting for the connection to come back
+}
+
+/**
+ * App-wide upload queue.
+ *
+ * Lives outside any component so uploads keep going while the user browses
+ * the gallery. Uploads a few files at a time through ChunkedUploadService;
+ * pausing stops the chunks in flight, and resuming continues them from the
+ * last chunk the server confirmed.
+ *
+ * Losing the connection pauses the queue the same way until the browser is
+ * back online. Files still waiting are kept in IndexedDB (by one tab at a
+ * time) and picked up again after a reload, until the user signs out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UploadQueueService {
+  private itemsSubject = new BehaviorSubject<UploadQueueItem[]>([]);
+  public items$ = this.itemsSubject.asObservable();
+
+  private pausedSubject = new BehaviorSubject<boolean>(false);
+  public paused$ = this.pausedSubject.asObservable();
+
+  // Each photo as the server stores it, so open views can show it straight away
+  private uploadedSubject = new Subject<Photo>();
+  public uploaded$ = this.uploadedSubject.asObservable();
+
+  private onlineSubject = new BehaviorSubject<boolean>(typeof navigator === 'undefined' || navigator.onLine);
+  public online$ = this.onlineSubject.asObservable();
+
+  public summary$: Observable<UploadQueueSummary | null> = combineLatest([this.items$, this.paused$, this.online$]).pipe(
+    map(([items, paused, online]) => items.length > 0 ? this.summarize(items, paused, !online) : null)
+  );
+
+  private readonly LOCK_NAME = 'myimage_upload_queue';
+
+  private running = new Map<number, Subscription>();
+  private nextId = 1;
+
+  // Queue item id to its IndexedDB key, for the files this tab keeps stored
+  private storedKeys = new Map<number, string>();
+  private isPersisting = false;
+  private userId: string | null = null;
+
+  constructor(
+    private chunkedUploadService: ChunkedUploadService,
+    private uploadStore: UploadStoreService,
+    private authService: AuthService
+  ) {
+    // Uploads belong to the signed-in user; stop them when the session ends
+    this.authService.currentUser$.subscribe(user => {
+      const previousUserId = this.userId;
+      this.userId = user?.userId ?? null;
+      if (this.userId === previousUserId) {
+        return; // Same user, e.g. after a token refresh
+      }
+
+      if (previousUserId) {
+        this.storedKeys.clear(); // First, so clearing the queue doesn't delete what's stored
+        this.clear();
+      }
+      // Signing out forgets the files; switching user (e.g. viewing as a customer) keeps them for later
+      if (previousUserId && !this.userId) {
+        this.uploadStore.deleteAll(previousUserId)
+          .catch(error => console.warn('UploadQueueService - Could not clear stored uploads:', error));
+      }
+      if (this.userId) {
+        this.restore();
+      }
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.setOnline(true));
+      window.addEventListener('offline', () => this.setOnline(false));
+    }
+
+    this.claimPersistence();
+  }
+
+  get items(): UploadQueueItem[] {
+    return this.itemsSubject.value;
+  }
+
+  get isPaused(): boolean {
+    return this.pausedSubject.value;
+  }
+
+  get isOnline(): boolean {
+    return this.onlineSubject.value;
+  }
+
+  /**
+   * Whether any file is still waiting or uploading.
+   */
+  get isActive(): boolean {
+    return this.items.some(item => this.isUnfinished(item));
+  }
+
+  add(files: File[], folderPath?: string, contentHashes?: Map<File, string>): void {
+    const added = files.map(file => ({
+      id: this.nextId++,
+      folderPath,
+      contentHash: contentHashes?.get(file),
+      upload: this.pendingProgress(file)
+    }));
+
+    this.itemsSubject.next([...this.items, ...added]);
+    this.pump();
+  }
+
+  /**
+   * List a duplicate the user chose not to upload, so it shows in the results
+   * and can still be sent with "upload anyway" (retry).
+   */
+  addSkipped(file: File, duplicateOf: string, folderPath?: string, contentHash?: string): void {
+    const skipped: UploadQueueItem = {
+      id: this.nextId++,
+      folderPath,
+      contentHash,
+      duplicateOf,
+      upload: { ...this.pendingProgress(file), status: 'skipped', error: `Duplicate of ${duplicateOf}` }
+    };
+
+    this.itemsSubject.next([...this.items, skipped]);
+  }
+
+  /**
+   * Stop everything in flight. Finished chunks stay on the server.
+   */
+  pause(): void {
+    if (this.isPaused) {
+      return;
+    }
+
+    this.pausedSubject.next(true);
+    this.stopRunning();
+  }
+
+  resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+
+    this.pausedSubject.next(false);
+    this.pump();
+  }
+
+  /**
+   * Stop one file and drop what the server has received of it.
+   */
+  cancel(id: number): void {
+    const item = this.items.find(i => i.id === id);
+    if (!item || !this.isUnfinished(item)) {
+      return;
+    }
+
+    this.running.get(id)?.unsubscribe();
+    this.running.delete(id);
+    this.chunkedUploadService.discardFile(item.upload.file, item.folderPath).subscribe();
+
+    this.updateItem(id, { ...item.upload, status: 'cancelled', error: undefined, errorCode: undefined });
+    this.pump();
+  }
+
+  /**
+   * Put a failed, cancelled or skipped file back in the queue.
+   */
+  retry(id: number): void {
+    const item = this.items.find(i => i.id === id);
+    if (!item || !['failed', 'cancelled', 'skipped'].includes(item.upload.status)) {
+      return;
+    }
+
+    this.updateItem(id, this.pendingProgress(item.upload.file));
+    this.pump();
+  }
+
+  /**
+   * Queue every failed file again, except those the server rejected for what
+   * they are (too large, corrupt...) - trying again can't change that.
+   */
+  retryFailed(): void {
+    this.items
+      .filter(item => item.upload.status === 'failed'
+        && UploadReportUtil.isRetryable(item.upload.errorCode ?? 'SERVER_ERROR'))
+      .forEach(item => this.updateItem(item.id, this.pendingProgress(item.upload.file)));
+    this.pump();
+  }
+
+  /**
+   * Reorder the files still waiting; indexes count pending items only.
+   */
+  movePending(previousIndex: number, currentIndex: number): void {
+    const pending = this.items.filter(item => item.upload.status === 'pending');
+    if (previousIndex === currentIndex || !pending[previousIndex] || !pending[currentIndex]) {
+      return;
+    }
+
+    const [moved] = pending.splice(previousIndex, 1);
+    pending.splice(currentIndex, 0, moved);
+
+    // Refill the pending slots in the new order; other rows keep their place
+    let next = 0;
+    this.itemsSubject.next(this.items.map(item =>
+      item.upload.status === 'pending' ? pending[next++] : item
+    ));
+  }
+
+  /**
+   * Remove completed, failed, cancelled and skipped files from the list.
+   */
+  clearFinished(): void {
+    this.itemsSubject.next(this.items.filter(item => this.isUnfinished(item)));
+  }
+
+  /**
+   * Stop all uploads and empty the queue.
+   */
+  clear(): void {
+    this.running.forEach(subscription => subscription.unsubscribe());
+    this.running.clear();
+    this.pausedSubject.next(false);
+    if (this.items.length > 0) {
+      this.itemsSubject.next([]);
+    }
+  }
+
+  /**
+   * Outcome of the finished files, in the same shape the bulk upload returns.
+   */
+  getResult(): PhotoUploadResult {
+    const uploaded = this.items.filter(item => item.upload.photo);
+    const folders = new Set(this.items.map(item => item.folderPath ?? ''));
+
+    return {
+      uploadedPhotos: uploaded.map(item => item.upload.photo!),
+      failedUploads: this.items
+        .filter(item => item.upload.status === 'failed')
+        .map((item): FailedUpload => ({
+          filename: item.upload.file.name,
+          errorMessage: item.upload.error || 'Upload failed',
+          errorCode: item.upload.errorCode ?? 'SERVER_ERROR'
+        })),
+      totalUploaded: uploaded.length,
+      sourceFolder: folders.size === 1 ? Array.from(folders)[0] : '',
+      skippedDuplicates: this.items
+        .filter(item => item.upload.status === 'skipped')
+        .map((item): SkippedDuplicate => ({ filename: item.upload.file.name, duplicateOf: item.duplicateOf ?? '' }))
+    };
+  }
+
+  /**
+   * Start waiting files, in queue order, until the concurrency limit is reached.
+   */
+  private pump(): void {
+    if (this.isPaused || !this.isOnline) {
+      return;
+    }
+
+    const waiting = this.items.filter(item => item.upload.status === 'pending' && !this.running.has(item.id));
+    const slots = Math.max(0, environment.uploadConcurrency - this.running.size);
+
+    waiting.slice(0, slots).forEach(item => this.start(item));
+  }
+
+  private start(item: UploadQueueItem): void {
+    const subscription = new Subscription();
+    this.running.set(item.id, subscription);
+    this.updateItem(item.id, { ...item.upload, status: 'uploading', error: undefined, errorCode: undefined });
+
+    subscription.add(this.chunkedUploadService.upload(item.upload.file, item.folderPath, item.contentHash).subscribe({
+      next: event => {
+        if (event.status === 'failed' && typeof navigator !== 'undefined' && !navigator.onLine) {
+          // Lost the connection rather than rejected; try again once it's back
+          this.updateItem(item.id, { ...event, status: 'pending', error: undefined, errorCode: undefined });
+          // The window's offline event can come later; don't let the queue restart this file until then
+          this.setOnline(false);
+          return;
+        }
+
+        this.updateItem(item.id, event);
+        if (event.photo) {
+          this.uploadedSubject.next(event.photo);
+        }
+      },
+      error: error => {
+        // Failures normally arrive as 'failed' events; this is a safety net
+        this.updateItem(item.id, {
+          ...item.upload,
+          status: 'failed',
+          error: error?.message || 'Upload failed',
+          errorCode: 'PROCESSING_ERROR'
+        });
+        this.finish(item.id);
+      },
+      complete: () => this.finish(item.id)
+    }));
+  }
+
+  private finish(id: number): void {
+    this.running.delete(id);
+    this.pump();
+  }
+
+  /**
+   * Unsubscribe from every upload in flight and put those files back to waiting.
+   */
+  private stopRunning(): void {
+    this.running.forEach(subscription => subscription.unsubscribe());
+    this.running.clear();
+
+    this.itemsSubject.next(this.items.map(item =>
+      item.upload.status === 'uploading'
+        ? { ...item, upload: { ...item.upload, status: 'pending' } }
+        : item
+    ));
+  }
+
+  private setOnline(online: boolean): void {
+    if (online === this.isOnline) {
+      return;
+    }
+
+    this.onlineSubject.next(online);
+    if (online) {
+      this.pump();
+    } else {
+      this.stopRunning();
+    }
+  }
+
+  /**
+   * Two tabs restoring the same files would upload them twice, so only the
+   * tab holding the lock stores the queue. When it closes, the lock - and
+   * the stored files - pass to another open tab.
+   */
+  private claimPersistence(): void {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) {
+      this.startPersisting();
+      return;
+    }
+
+    // Never resolves, so the lock is held for the life of the tab
+    locks.request(this.LOCK_NAME, () => new Promise<void>(() => this.startPersisting()))
+      .catch(error => console.warn('UploadQueueService - Could not lock the upload store:', error));
+  }
+
+  private startPersisting(): void {
+    this.isPersisting = true;
+    this.items$.subscribe(items => this.syncStore(items));
+    this.restore();
+  }
+
+  /**
+   * Add the signed-in user's stored files to the queue, ahead of anything
+   * selected since the page loaded.
+   */
+  private async restore(): Promise<void> {
+    const userId = this.userId;
+    if (!this.isPersisting || !userId) {
+      return;
+    }
+
+    let stored: StoredUpload[];
+    try {
+      stored = await this.uploadStore.getAll(userId);
+    } catch (error) {
+      console.warn('UploadQueueService - Could not read stored uploads:', error);
+      return;
+    }
+
+    if (this.userId !== userId) {
+      return;
+    }
+
+    const known = new Set(this.storedKeys.values());
+    const restored = stored
+      .filter(upload => !known.has(upload.key))
+      .map(upload => {
+        const id = this.nextId++;
+        this.storedKeys.set(id, upload.key);
+        return { id, folderPath: upload.folderPath, contentHash: upload.contentHash, upload: this.pendingProgress(upload.file) };
+      });
+
+    if (restored.length === 0) {
+      return;
+    }
+
+    this.itemsSubject.next([...restored, ...this.items]);
+    this.pump();
+  }
+
+  /**
+   * Store files that are waiting and drop the ones that have finished.
+   */
+  private syncStore(items: UploadQueueItem[]): void {
+    const userId = this.userId;
+    if (!userId) {
+      return;
+    }
+
+    const waiting = items.filter(item => this.isUnfinished(item));
+    const waitingIds = new Set(waiting.map(item => item.id));
+    const warn = (error: unknown) => console.warn('UploadQueueService - Could not update stored uploads:', error);
+
+    this.storedKeys.forEach((key, id) => {
+      if (!waitingIds.has(id)) {
+        this.storedKeys.delete(id);
+        this.uploadStore.delete(key).catch(warn);
+      }
+    });
+
+    waiting
+      .filter(item => !this.storedKeys.has(item.id))
+      .forEach(item => {
+        const key = `${userId}:${Date.now()}:${item.id}`;
+        this.storedKeys.set(item.id, key);
+        this.uploadStore.put({
+          key,
+          userId,
+          file: item.upload.file,
+          folderPath: item.folderPath,
+          contentHash: item.contentHash,
+          addedAt: Date.now(),
+          sequence: item.id
+        }).catch(warn);
+      });
+  }
+
+  private updateItem(id: number, upload: UploadProgress): void {
+    this.itemsSubject.next(this.items.map(item => item.id === id ? { ...item, upload } : item));
+  }
+
+  private pendingProgress(file: File): UploadProgress {
+    return { file, progress: 0, completed: false, status: 'pending', bytesUploaded: 0 };
+  }
+
+  private isUnfinished(item: UploadQueueItem): boolean {
+    return item.upload.status === 'pending' || item.upload.status === 'uploading';
+  }
+
+  private summarize(items: UploadQueueItem[], paused: boolean, offline: boolean): UploadQueueSummary {
+    // Failed files count as done so the bar can reach 100%; cancelled and skipped ones don't count
+    const counted = items.filter(item => item.upload.status !== 'cancelled' && item.upload.status !== 'skipped');
+    const totalBytes = counted.reduce((sum, item) => sum + item.upload.file.size, 0);
+    const doneBytes = counted.reduce((sum, item) =>
+      sum + (item.upload.status === 'failed' ? item.upload.file.size : item.upload.bytesUploaded), 0);
+
+    return {
+      total: counted.length,
+      completed: items.filter(item => item.upload.status === 'completed').length,
+      failed: items.filter(item => item.upload.status === 'failed').length,
+      remaining: items.filter(item => this.isUnfinished(item)).length,
+      progress: totalBytes > 0 ? Math.round(100 * doneBytes / totalBytes) : 100,
+      paused,
+      offline
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * A file waiting in the upload queue, as kept in IndexedDB.
+ */
+export interface StoredUpload {
+  key: string;
+  userId: string;
+  file: File;
+  folderPath?: string;
+  contentHash?: string;
+  addedAt: number;
+  sequence: number; // Order within files added at the same moment
+}
+
+/**
+ * Keeps the files still waiting to upload in IndexedDB, so a reload or a
+ * dropped connection doesn't lose what the customer selected.
+ *
+ * The files themselves are stored, not just their names - a browser can't
+ * reopen a file from disk without the user picking it again. Storage can be
+ * unavailable (private browsing, full disk); the queue then works as before,
+ * in memory only.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UploadStoreService {
+  private readonly DB_NAME = 'myimage_uploads';
+  private readonly STORE = 'pending';
+  private readonly VERSION = 1;
+
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getAll(userId: string): Promise<StoredUpload[]> {
+    const uploads = await this.run<StoredUpload[]>('readonly', store => store.index('userId').getAll(userId));
+    // Restored in the order they were added
+    return uploads.sort((a, b) => a.addedAt - b.addedAt || a.sequence - b.sequence);
+  }
+
+  async put(upload: StoredUpload): Promise<void> {
+    await this.run('readwrite', store => store.put(upload));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  /**
+   * Remove everything stored for one user, e.g. when they sign out.
+   */
+  async deleteAll(userId: string): Promise<void> {
+    const uploads = await this.getAll(userId);
+    await Promise.all(uploads.map(upload => this.delete(upload.key)));
+  }
+
+  private async run<T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE, mode);
+      const result = request(transaction.objectStore(this.STORE));
+      transaction.oncomplete = () => resolve(result.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(this.DB_NAME, this.VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(this.STORE, { keyPath: 'key' });
+          store.createIndex('userId', 'userId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Let a later call try again rather than caching the failure
+      this.db.catch(() => this.db = null);
+    }
+
+    return this.db;
+  }
+}
@@ -0,0 +1,37 @@
+/// <reference lib="webworker" />
+
+import { PrintQualityRequest, PrintQualityResponse } from '../../shared/models/print-quality.models';
+import { PrintQualityUtil } from '../../shared/utils/print-quality.util';
+
+// Decoding full-size photos takes a lot of memory, so one file at a time
+let queue = Promise.resolve();
+
+addEventListener('message', ({ data }: MessageEvent<PrintQualityRequest>) => {
+  queue = queue.then(() => analyze(data)).then(response => postMessage(response));
+});
+
+async function analyze({ id, file }: PrintQualityRequest): Promise<PrintQualityResponse> {
+  try {
+    // Decoded upright, following the EXIF orientation
+    const bitmap = await createImageBitmap(file);
+    const { width, height } = bitmap;
+    const scale = Math.min(1, PrintQualityUtil.ANALYSIS_SIZE / Math.max(width, height));
+    const sampleWidth = Math.max(1, Math.round(width * scale));
+    const sampleHeight = Math.max(1, Math.round(height * scale));
+
+    const canvas = new OffscreenCanvas(sampleWidth, sampleHeight);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      return { id, error: 'Canvas is not available' };
+    }
+
+    context.drawImage(bitmap, 0, 0, sampleWidth, sampleHeight);
+    bitmap.close();
+    const pixels = context.getImageData(0, 0, sampleWidth, sampleHeight).data;
+
+    return { id, analysis: PrintQualityUtil.analyze(width, height, pixels, sampleWidth, sampleHeight) };
+  } catch (error) {
+    return { id, error: error instanceof Error ? error.message : 'Could not read the image' };
+  }
+}
@@ -0,0 +1,126 @@
+import { Component } from '@angular/core';
+import { AuthService } from '../../../core/services/auth.service';
+import { NotificationService } from '../../../core/services/notification.service';
+import { TwoFactorService } from '../../../core/services/two-factor.service';
+
+@Component({
+  selector: 'app-account-settings',
+  standalone: false,
+  template: `
+    <div class="account-container">
+      <div class="account-header">
+        <h2>Account Settings</h2>
+        <p *ngIf="currentUser$ | async as user" class="account-subtitle">
+          Signed in as {{ user.email }}
+        </p>
+      </div>
+
+      <!-- Only shown when the API says so - older responses don't include the flag -->
+      <div class="verify-notice" *ngIf="(currentUser$ | async)?.emailVerified === false">
+        <mat-icon>mark_email_unread</mat-icon>
+        <span>Your email address isn't confirmed yet. Check your inbox for the verification link.</span>
+        <button mat-button color="primary" (click)="resendVerification()" [disabled]="isResending">
+          Resend Link
+        </button>
+      </div>
+
+      <mat-card class="account-card">
+        <mat-tab-group animationDuration="0ms">
+          <mat-tab>
+            <ng-template mat-tab-label>
+              <mat-icon class="tab-icon">person</mat-icon>
+              Profile
+            </ng-template>
+            <app-profile-form></app-profile-form>
+          </mat-tab>
+
+          <mat-tab>
+            <ng-template mat-tab-label>
+              <mat-icon class="tab-icon">lock</mat-icon>
+              Password
+            </ng-template>
+            <app-change-password></app-change-password>
+          </mat-tab>
+
+          <!-- Hidden until the API can verify codes itself -->
+          <mat-tab *ngIf="twoFactorAvailable$ | async">
+            <ng-template mat-tab-label>
+              <mat-icon class="tab-icon">security</mat-icon>
+              Two-Factor
+            </ng-template>
+            <app-two-factor-settings></app-two-factor-settings>
+          </mat-tab>
+        </mat-tab-group>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .account-container {
+      max-width: 700px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+
+    .account-header {
+      margin-bottom: 24px;
+    }
+
+    .account-header h2 {
+      margin: 0;
+    }
+
+    .account-subtitle {
+      color: #666;
+      margin: 4px 0 0 0;
+    }
+
+    .verify-notice {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 12px 16px;
+      margin-bottom: 16px;
+      background: #fff8e1;
+      border-left: 4px solid #ff9800;
+      border-radius: 4px;
+    }
+
+    .verify-notice span {
+      flex: 1;
+    }
+
+    .account-card {
+      padding: 0 16px;
+    }
+
+    .tab-icon {
+      margin-right: 8px;
+    }
+  `]
+})
+export class AccountSettingsComponent {
+  currentUser$ = this.authService.currentUser$;
+  twoFactorAvailable$ = this.twoFactorService.isAvailable();
+  isResending = false;
+
+  constructor(
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+    private notificationService: NotificationService
+  ) {}
+
+  resendVerification(): void {
+    this.isResending = true;
+
+    this.authService.resendVerificationEmail().subscribe({
+      next: () => {
+        this.isResending = false;
+        this.notificationService.showSuccess('Verification email sent');
+      },
+      error: (error) => {
+        this.isResending = false;
+        this.notificationService.showError(error.error?.message || 'Failed to send verification email');
+      }
+    });
+  }
+}
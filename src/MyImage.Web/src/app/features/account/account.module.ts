@@ -0,0 +1,43 @@
+import { CommonModule } from '@angular/common';
+import { NgModule } from '@angular/core';
+import { ReactiveFormsModule } from '@angular/forms';
+import { RouterModule, Routes } from '@angular/router';
+
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTabsModule } from '@angular/material/tabs';
+
+import { AccountSettingsComponent } from './account-settings/account-settings.component';
+import { ChangePasswordComponent } from './change-password/change-password.component';
+import { ProfileFormComponent } from './profile-form/profile-form.component';
+import { TwoFactorSettingsComponent } from './two-factor-settings/two-factor-settings.component';
+
+const routes: Routes = [
+  { path: '', component: AccountSettingsComponent }
+];
+
+@NgModule({
+  declarations: [
+    AccountSettingsComponent,
+    ProfileFormComponent,
+    ChangePasswordComponent,
+    TwoFactorSettingsComponent
+  ],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterModule.forChild(routes),
+    MatCardModule,
+    MatTabsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule
+  ]
+})
+export class AccountModule { }
@@ -0,0 +1,153 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, FormGroupDirective, Validators } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from '../../../core/services/auth.service';
+import { NotificationService } from '../../../core/services/notification.service';
+import { CustomValidators } from '../../../shared/utils/form-validators';
+
+@Component({
+  selector: 'app-change-password',
+  standalone: false,
+  template: `
+    <form [formGroup]="passwordForm" (ngSubmit)="onSubmit(formDirective)" #formDirective="ngForm"
+          class="password-form">
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>Current Password</mat-label>
+        <input matInput [type]="hidePasswords ? 'password' : 'text'" formControlName="currentPassword"
+               autocomplete="current-password">
+        <mat-icon matSuffix>lock</mat-icon>
+        <mat-error *ngIf="passwordForm.get('currentPassword')?.hasError('required')">
+          Current password is required
+        </mat-error>
+      </mat-form-field>
+
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>New Password</mat-label>
+        <input matInput [type]="hidePasswords ? 'password' : 'text'" formControlName="newPassword"
+               autocomplete="new-password">
+        <mat-icon matSuffix>lock_reset</mat-icon>
+        <mat-hint>At least 8 characters with uppercase, lowercase and a number</mat-hint>
+        <mat-error *ngIf="passwordForm.get('newPassword')?.hasError('required')">
+          New password is required
+        </mat-error>
+        <mat-error *ngIf="passwordForm.get('newPassword')?.hasError('passwordStrength')">
+          Use at least 8 characters with uppercase, lowercase and a number
+        </mat-error>
+      </mat-form-field>
+
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>Confirm New Password</mat-label>
+        <input matInput [type]="hidePasswords ? 'password' : 'text'" formControlName="confirmNewPassword"
+               autocomplete="new-password">
+        <mat-icon matSuffix>lock</mat-icon>
+        <mat-error *ngIf="passwordForm.get('confirmNewPassword')?.hasError('required')">
+          Please confirm your new password
+        </mat-error>
+        <mat-error *ngIf="passwordForm.get('confirmNewPassword')?.hasError('confirmPassword')">
+          Passwords do not match
+        </mat-error>
+      </mat-form-field>
+
+      <div class="form-actions">
+        <button mat-button type="button" (click)="hidePasswords = !hidePasswords">
+          <mat-icon>{{ hidePasswords ? 'visibility' : 'visibility_off' }}</mat-icon>
+          {{ hidePasswords ? 'Show' : 'Hide' }} Passwords
+        </button>
+        <span class="spacer"></span>
+        <button mat-raised-button color="primary" type="submit"
+                [disabled]="passwordForm.invalid || isSaving">
+          <mat-spinner diameter="20" *ngIf="isSaving"></mat-spinner>
+          <span *ngIf="!isSaving">Change Password</span>
+        </button>
+      </div>
+    </form>
+  `,
+  styles: [`
+    .password-form {
+      padding: 24px 0;
+    }
+
+    .full-width {
+      width: 100%;
+      margin-bottom: 16px;
+    }
+
+    .form-actions {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      margin-top: 8px;
+    }
+
+    .spacer {
+      flex: 1;
+    }
+
+    mat-spinner {
+      margin-right: 8px;
+    }
+  `]
+})
+export class ChangePasswordComponent implements OnInit, OnDestroy {
+  passwordForm: FormGroup;
+  isSaving = false;
+  hidePasswords = true;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private notificationService: NotificationService
+  ) {
+    this.passwordForm = this.fb.group({
+      currentPassword: ['', Validators.required],
+      newPassword: ['', [Validators.required, CustomValidators.passwordStrength]],
+      confirmNewPassword: ['', [Validators.required, CustomValidators.confirmPassword('newPassword')]]
+    });
+  }
+
+  ngOnInit(): void {
+    // confirmPassword only runs when its own control changes, so re-check it
+    // when the new password is edited after the confirmation was typed
+    this.passwordForm.get('newPassword')?.valueChanges.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(() => {
+      this.passwordForm.get('confirmNewPassword')?.updateValueAndValidity({ emitEvent: false });
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onSubmit(formDirective: FormGroupDirective): void {
+    if (this.passwordForm.invalid) {
+      return;
+    }
+
+    this.isSaving = true;
+
+    this.authService.changePassword(this.passwordForm.value).subscribe({
+      next: (response) => {
+        this.isSaving = false;
+        if (response.success) {
+          // Reset through the directive so the cleared fields don't show as errors
+          formDirective.resetForm();
+          this.notificationService.showSuccess('Password changed successfully');
+        } else {
+          this.notificationService.showError(response.message || 'Failed to change password');
+        }
+      },
+      error: (error) => {
+        this.isSaving = false;
+        const message = error.status === 403
+          ? 'Current password is incorrect'
+          : error.error?.errors?.[0] || error.error?.message || 'Failed to change password';
+        this.notificationService.showError(message);
+      }
+    });
+  }
+}
@@ -0,0 +1,191 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from '../../../core/services/auth.service';
+import { NotificationService } from '../../../core/services/notification.service';
+
+@Component({
+  selector: 'app-profile-form',
+  standalone: false,
+  template: `
+    <form [formGroup]="profileForm" (ngSubmit)="onSubmit()" class="profile-form">
+      <div class="name-row">
+        <mat-form-field appearance="outline" class="half-width">
+          <mat-label>First Name</mat-label>
+          <input matInput formControlName="firstName">
+          <mat-error *ngIf="profileForm.get('firstName')?.hasError('required')">
+            First name is required
+          </mat-error>
+          <mat-error *ngIf="profileForm.get('firstName')?.hasError('maxlength')">
+            First name cannot exceed 50 characters
+          </mat-error>
+          <mat-error *ngIf="profileForm.get('firstName')?.hasError('pattern')">
+            Only letters, spaces, hyphens and apostrophes are allowed
+          </mat-error>
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" class="half-width">
+          <mat-label>Last Name</mat-label>
+          <input matInput formControlName="lastName">
+          <mat-error *ngIf="profileForm.get('lastName')?.hasError('required')">
+            Last name is required
+          </mat-error>
+          <mat-error *ngIf="profileForm.get('lastName')?.hasError('maxlength')">
+            Last name cannot exceed 50 characters
+          </mat-error>
+          <mat-error *ngIf="profileForm.get('lastName')?.hasError('pattern')">
+            Only letters, spaces, hyphens and apostrophes are allowed
+          </mat-error>
+        </mat-form-field>
+      </div>
+
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>Email Address</mat-label>
+        <input matInput [value]="email" disabled>
+        <mat-icon matSuffix>email</mat-icon>
+        <mat-hint>Your email address is used to sign in and cannot be changed here</mat-hint>
+      </mat-form-field>
+
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>User ID</mat-label>
+        <input matInput [value]="userId" disabled>
+        <mat-icon matSuffix>badge</mat-icon>
+      </mat-form-field>
+
+      <div class="form-actions">
+        <button mat-button type="button" (click)="reset()" [disabled]="profileForm.pristine || isSaving">
+          Reset
+        </button>
+        <button mat-raised-button color="primary" type="submit"
+                [disabled]="profileForm.invalid || profileForm.pristine || isSaving">
+          <mat-spinner diameter="20" *ngIf="isSaving"></mat-spinner>
+          <span *ngIf="!isSaving">Save Changes</span>
+        </button>
+      </div>
+    </form>
+  `,
+  styles: [`
+    .profile-form {
+      padding: 24px 0;
+    }
+
+    .name-row {
+      display: flex;
+      gap: 16px;
+    }
+
+    .half-width {
+      flex: 1;
+    }
+
+    .full-width {
+      width: 100%;
+      margin-bottom: 16px;
+    }
+
+    .form-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 16px;
+      margin-top: 8px;
+    }
+
+    mat-spinner {
+      margin-right: 8px;
+    }
+
+    @media (max-width: 600px) {
+      .name-row {
+        flex-direction: column;
+        gap: 0;
+      }
+    }
+  `]
+})
+export class ProfileFormComponent implements OnInit, OnDestroy {
+  profileForm: FormGroup;
+  isSaving = false;
+  email = '';
+  userId = '';
+
+  private destroy$ = new Subject<void>();
+
+  // Mirrors the server-side validation on UpdateProfileDto
+  private readonly NAME_PATTERN = /^[a-zA-Z\s\-']+$/;
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private notificationService: NotificationService
+  ) {
+    this.profileForm = this.fb.group({
+      firstName: ['', [Validators.required, Validators.maxLength(50), Validators.pattern(this.NAME_PATTERN)]],
+      lastName: ['', [Validators.required, Validators.maxLength(50), Validators.pattern(this.NAME_PATTERN)]]
+    });
+  }
+
+  ngOnInit(): void {
+    // The user may still be loading from /auth/me on a fresh page load
+    this.authService.currentUser$.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(user => {
+      if (!user) {
+        return;
+      }
+
+      this.email = user.email;
+      this.userId = user.userId;
+
+      // Don't overwrite edits in progress
+      if (this.profileForm.pristine) {
+        this.profileForm.reset({
+          firstName: user.firstName,
+          lastName: user.lastName
+        });
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  reset(): void {
+    const user = this.authService.getCurrentUser();
+    this.profileForm.reset({
+      firstName: user?.firstName ?? '',
+      lastName: user?.lastName ?? ''
+    });
+  }
+
+  onSubmit(): void {
+    if (this.profileForm.invalid) {
+      return;
+    }
+
+    this.isSaving = true;
+    const { firstName, lastName } = this.profileForm.value;
+
+    this.authService.updateProfile({
+      firstName: firstName.trim(),
+      lastName: lastName.trim()
+    }).subscribe({
+      next: (response) => {
+        this.isSaving = false;
+        if (response.success) {
+          this.profileForm.markAsPristine();
+          this.reset();
+          this.notificationService.showSuccess('Profile updated successfully');
+        } else {
+          this.notificationService.showError(response.message || 'Failed to update profile');
+        }
+      },
+      error: (error) => {
+        this.isSaving = false;
+        this.notificationService.showError(error.error?.message || 'Failed to update profile');
+      }
+    });
+  }
+}
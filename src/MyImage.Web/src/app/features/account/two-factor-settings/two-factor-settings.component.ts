@@ -0,0 +1,388 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { toDataURL } from 'qrcode';
+import { AuthService } from '../../../core/services/auth.service';
+import { NotificationService } from '../../../core/services/notification.service';
+import { TwoFactorService } from '../../../core/services/two-factor.service';
+import { TwoFactorSetup, TwoFactorStatus } from '../../../shared/models/auth.models';
+
+type SetupStep = 'idle' | 'scan' | 'recovery-codes' | 'disable';
+
+/**
+ * Turn two-factor authentication on or off.
+ *
+ * Enrolling shows a QR code (drawn in the browser from the otpauth URI, so the
+ * secret never goes to a third-party QR service), asks for a first code to
+ * prove the app is set up, then shows the recovery codes exactly once.
+ */
+@Component({
+  selector: 'app-two-factor-settings',
+  standalone: false,
+  template: `
+    <div class="two-factor-settings">
+      <div class="loading" *ngIf="isLoading">
+        <mat-spinner diameter="32"></mat-spinner>
+      </div>
+
+      <ng-container *ngIf="!isLoading && status">
+        <div class="status-row">
+          <mat-icon [class.enabled]="status.enabled">
+            {{ status.enabled ? 'verified_user' : 'shield' }}
+          </mat-icon>
+          <div class="status-text">
+            <strong>Two-factor authentication is {{ status.enabled ? 'on' : 'off' }}</strong>
+            <p *ngIf="!status.enabled">
+              Protect your account with a code from an authenticator app as well as your password.
+            </p>
+            <p *ngIf="status.enabled">
+              {{ status.recoveryCodesRemaining }} recovery code{{ status.recoveryCodesRemaining === 1 ? '' : 's' }} left.
+            </p>
+          </div>
+        </div>
+
+        <!-- Not enrolled -->
+        <div class="form-actions" *ngIf="step === 'idle' && !status.enabled">
+          <button mat-raised-button color="primary" (click)="beginSetup()" [disabled]="isSaving">
+            <mat-icon>add_moderator</mat-icon>
+            Set Up Two-Factor Authentication
+          </button>
+        </div>
+
+        <!-- Enrolled -->
+        <div class="form-actions" *ngIf="step === 'idle' && status.enabled">
+          <button mat-stroked-button color="warn" (click)="startDisable()">
+            <mat-icon>remove_moderator</mat-icon>
+            Turn Off
+          </button>
+        </div>
+
+        <!-- Scan QR code and confirm -->
+        <div class="setup" *ngIf="step === 'scan' && setup">
+          <ol class="setup-steps">
+            <li>Scan this QR code with an authenticator app such as Google Authenticator or Microsoft Authenticator.</li>
+            <li>Enter the 6-digit code the app shows to finish.</li>
+          </ol>
+
+          <div class="qr-code">
+            <img *ngIf="qrCodeDataUrl" [src]="qrCodeDataUrl" alt="QR code for your authenticator app" width="200" height="200">
+          </div>
+
+          <p class="manual-entry">
+            Can't scan it? Enter this key instead:
+            <code>{{ formatSecret(setup.secret) }}</code>
+          </p>
+
+          <form [formGroup]="codeForm" (ngSubmit)="confirmSetup()" class="code-form">
+            <mat-form-field appearance="outline">
+              <mat-label>Verification code</mat-label>
+              <input matInput formControlName="code" inputmode="numeric" autocomplete="one-time-code">
+              <mat-error>Enter the 6 digits shown in the app</mat-error>
+            </mat-form-field>
+
+            <div class="form-actions">
+              <button mat-button type="button" (click)="cancel()">Cancel</button>
+              <button mat-raised-button color="primary" type="submit" [disabled]="codeForm.invalid || isSaving">
+                <mat-spinner diameter="20" *ngIf="isSaving"></mat-spinner>
+                <span *ngIf="!isSaving">Turn On</span>
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <!-- Recovery codes, shown once -->
+        <div class="recovery-codes" *ngIf="step === 'recovery-codes'">
+          <p>
+            <strong>Save these recovery codes somewhere safe.</strong>
+            If you lose your phone, each one lets you sign in once. You won't be able to see them again.
+          </p>
+
+          <ul class="code-list">
+            <li *ngFor="let code of recoveryCodes"><code>{{ code }}</code></li>
+          </ul>
+
+          <div class="form-actions">
+            <button mat-stroked-button (click)="downloadRecoveryCodes()">
+              <mat-icon>download</mat-icon>
+              Download
+            </button>
+            <button mat-raised-button color="primary" (click)="finish()">
+              I've Saved My Codes
+            </button>
+          </div>
+        </div>
+
+        <!-- Confirm turning off -->
+        <form *ngIf="step === 'disable'" [formGroup]="codeForm" (ngSubmit)="confirmDisable()" class="code-form">
+          <p>Enter a code from your authenticator app to turn off two-factor authentication.</p>
+
+          <mat-form-field appearance="outline">
+            <mat-label>Verification code</mat-label>
+            <input matInput formControlName="code" inputmode="numeric" autocomplete="one-time-code">
+            <mat-error>Enter the 6 digits shown in the app</mat-error>
+          </mat-form-field>
+
+          <div class="form-actions">
+            <button mat-button type="button" (click)="cancel()">Cancel</button>
+            <button mat-raised-button color="warn" type="submit" [disabled]="codeForm.invalid || isSaving">
+              <mat-spinner diameter="20" *ngIf="isSaving"></mat-spinner>
+              <span *ngIf="!isSaving">Turn Off</span>
+            </button>
+          </div>
+        </form>
+      </ng-container>
+    </div>
+  `,
+  styles: [`
+    .two-factor-settings {
+      padding: 24px 0;
+    }
+
+    .loading {
+      display: flex;
+      justify-content: center;
+      padding: 24px;
+    }
+
+    .status-row {
+      display: flex;
+      gap: 16px;
+      align-items: flex-start;
+      margin-bottom: 16px;
+    }
+
+    .status-row mat-icon {
+      color: #999;
+    }
+
+    .status-row mat-icon.enabled {
+      color: #4caf50;
+    }
+
+    .status-text p {
+      color: #666;
+      margin: 4px 0 0 0;
+    }
+
+    .setup-steps {
+      padding-left: 20px;
+      color: #444;
+    }
+
+    .qr-code {
+      display: flex;
+      justify-content: center;
+      margin: 16px 0;
+      min-height: 200px;
+    }
+
+    .manual-entry {
+      text-align: center;
+      color: #666;
+      font-size: 0.9em;
+    }
+
+    .manual-entry code {
+      display: block;
+      margin-top: 4px;
+      font-size: 1.1em;
+      letter-spacing: 1px;
+      color: #333;
+    }
+
+    .code-form {
+      margin-top: 16px;
+    }
+
+    .code-list {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 8px;
+      list-style: none;
+      padding: 16px;
+      background: #f5f5f5;
+      border-radius: 4px;
+    }
+
+    .code-list code {
+      font-size: 1.1em;
+    }
+
+    .form-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 16px;
+      margin-top: 8px;
+    }
+
+    mat-spinner {
+      margin-right: 8px;
+    }
+  `]
+})
+export class TwoFactorSettingsComponent implements OnInit {
+  status: TwoFactorStatus | null = null;
+  step: SetupStep = 'idle';
+  setup: TwoFactorSetup | null = null;
+  qrCodeDataUrl: string | null = null;
+  recoveryCodes: string[] = [];
+  codeForm: FormGroup;
+  isLoading = false;
+  isSaving = false;
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+    private notificationService: NotificationService
+  ) {
+    this.codeForm = this.fb.group({
+      code: ['', [Validators.required, Validators.pattern(/^\s*\d{3}\s?\d{3}\s*$/)]]
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadStatus();
+  }
+
+  beginSetup(): void {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return;
+    }
+
+    this.isSaving = true;
+    this.twoFactorService.beginSetup(user).subscribe({
+      next: (response) => {
+        this.isSaving = false;
+        if (response.success) {
+          this.setup = response.data;
+          this.codeForm.reset();
+          this.step = 'scan';
+          this.renderQrCode(response.data.otpauthUri);
+        }
+      },
+      error: (error) => {
+        this.isSaving = false;
+        this.notificationService.showError(error.error?.message || 'Failed to start two-factor setup');
+      }
+    });
+  }
+
+  confirmSetup(): void {
+    const user = this.authService.getCurrentUser();
+    if (!user || this.codeForm.invalid) {
+      return;
+    }
+
+    this.isSaving = true;
+    this.twoFactorService.confirmSetup(user, this.codeForm.value.code.trim()).subscribe({
+      next: (response) => {
+        this.isSaving = false;
+        if (response.success) {
+          this.recoveryCodes = response.data.recoveryCodes;
+          this.setup = null;
+          this.qrCodeDataUrl = null;
+          this.step = 'recovery-codes';
+          this.notificationService.showSuccess('Two-factor authentication is now on');
+        }
+      },
+      error: (error) => {
+        this.isSaving = false;
+        this.codeForm.reset();
+        this.notificationService.showError(error.error?.message || 'Invalid verification code');
+      }
+    });
+  }
+
+  startDisable(): void {
+    this.codeForm.reset();
+    this.step = 'disable';
+  }
+
+  confirmDisable(): void {
+    const user = this.authService.getCurrentUser();
+    if (!user || this.codeForm.invalid) {
+      return;
+    }
+
+    this.isSaving = true;
+    this.twoFactorService.disable(user, this.codeForm.value.code.trim()).subscribe({
+      next: (response) => {
+        this.isSaving = false;
+        if (response.success) {
+          this.notificationService.showSuccess('Two-factor authentication is now off');
+          this.finish();
+        }
+      },
+      error: (error) => {
+        this.isSaving = false;
+        this.codeForm.reset();
+        this.notificationService.showError(error.error?.message || 'Invalid verification code');
+      }
+    });
+  }
+
+  downloadRecoveryCodes(): void {
+    const user = this.authService.getCurrentUser();
+    const content = [
+      'MyImage recovery codes',
+      user ? `Account: ${user.email}` : '',
+      `Generated: ${new Date().toLocaleString()}`,
+      '',
+      'Each code can be used once to sign in if you lose access to your authenticator app.',
+      '',
+      ...this.recoveryCodes
+    ].join('\n');
+
+    const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'myimage-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  cancel(): void {
+    this.step = 'idle';
+    this.setup = null;
+    this.qrCodeDataUrl = null;
+  }
+
+  finish(): void {
+    this.recoveryCodes = [];
+    this.step = 'idle';
+    this.loadStatus();
+  }
+
+  // Groups of four are easier to type into an app by hand
+  formatSecret(secret: string): string {
+    return secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+  }
+
+  private loadStatus(): void {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.twoFactorService.getStatus(user).subscribe({
+      next: (response) => {
+        this.isLoading = false;
+        if (response.success) {
+          this.status = response.data;
+        }
+      },
+      error: () => {
+        this.isLoading = false;
+        this.notificationService.showError('Failed to load two-factor authentication status');
+      }
+    });
+  }
+
+  private renderQrCode(otpauthUri: string): void {
+    toDataURL(otpauthUri, { width: 200, margin: 1, errorCorrectionLevel: 'M' })
+      .then(dataUrl => this.qrCodeDataUrl = dataUrl)
+      .catch(() => this.notificationService.showError('Could not draw the QR code - enter the key manually'));
+  }
+}
@@ -55,16 +55,21 @@ import { AdminService } from '../../../core/services/admin.service';
       <div class="quick-actions">
         <h3>Quick Actions</h3>
         <div class="actions-grid">
-          <button mat-raised-button color="primary" routerLink="/admin/orders">
+          <button *appHasPermission="'orders.view'" mat-raised-button color="primary" routerLink="/admin/orders">
             <mat-icon>assignment</mat-icon>
             Manage Orders
           </button>
 
-          <button mat-raised-button color="accent" routerLink="/admin/pricing">
+          <button *appHasPermission="'pricing.edit'" mat-raised-button color="accent" routerLink="/admin/pricing">
             <mat-icon>price_change</mat-icon>
             Update Pricing
           </button>
 
+          <button *appHasPermission="'kiosk.configure'" mat-stroked-button routerLink="/admin/kiosk">
+            <mat-icon>storefront</mat-icon>
+            Kiosk Mode
+          </button>
+
           <button mat-stroked-button routerLink="/photos">
             <mat-icon>photo_library</mat-icon>
             View as Customer
@@ -91,7 +96,7 @@ import { AdminService } from '../../../core/services/admin.service';
             <span class="order-amount">\${{ order.totalAmount.toFixed(2) }}</span>
           </div>
 
-          <div class="view-all-action">
+          <div class="view-all-action" *appHasPermission="'orders.view'">
             <button mat-button routerLink="/admin/orders">View All Orders</button>
           </div>
         </mat-card-content>
@@ -0,0 +1,140 @@
+// src/app/features/admin/admin-kiosk/admin-kiosk.component.ts
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { IdleService } from '../../../core/services/idle.service';
+import { environment } from '../../../../environments/environment';
+
+@Component({
+  selector: 'app-admin-kiosk',
+  standalone: false,
+  template: `
+    <div class="kiosk-container">
+      <h2>Kiosk Mode</h2>
+
+      <mat-card>
+        <mat-card-header>
+          <mat-icon mat-card-avatar>storefront</mat-icon>
+          <mat-card-title>This Device</mat-card-title>
+          <mat-card-subtitle>
+            Settings apply only to the browser you are using now
+          </mat-card-subtitle>
+        </mat-card-header>
+
+        <mat-card-content>
+          <p class="description">
+            Turn on kiosk mode for computers in a branch that are shared between customers.
+            Anyone who stops using the computer is signed out after a short time and
+            their photos are cleared from the screen.
+          </p>
+
+          <form [formGroup]="kioskForm" (ngSubmit)="save()" class="kiosk-form">
+            <mat-slide-toggle formControlName="enabled" color="primary">
+              Kiosk mode
+            </mat-slide-toggle>
+
+            <mat-form-field appearance="outline" class="timeout-field">
+              <mat-label>Sign out after (minutes)</mat-label>
+              <input matInput type="number" formControlName="timeoutMinutes"
+                     [min]="minTimeout" [max]="maxTimeout">
+              <mat-hint>Idle time before a warning, then sign-out</mat-hint>
+              <mat-error *ngIf="kioskForm.get('timeoutMinutes')?.invalid">
+                Enter between {{ minTimeout }} and {{ maxTimeout }} minutes
+              </mat-error>
+            </mat-form-field>
+
+            <p class="current">
+              <mat-icon>info</mat-icon>
+              Without kiosk mode, users are signed out after {{ defaultMinutes }} minutes of inactivity.
+            </p>
+
+            <div class="form-actions">
+              <button mat-raised-button color="primary" type="submit"
+                      [disabled]="kioskForm.invalid || kioskForm.pristine">
+                Save
+              </button>
+            </div>
+          </form>
+        </mat-card-content>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .kiosk-container {
+      max-width: 640px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+
+    .description {
+      color: #666;
+      margin: 16px 0;
+    }
+
+    .kiosk-form {
+      display: flex;
+      flex-direction: column;
+      gap: 16px;
+    }
+
+    .timeout-field {
+      max-width: 240px;
+    }
+
+    .current {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #666;
+      font-size: 0.9em;
+    }
+
+    .form-actions {
+      display: flex;
+      justify-content: flex-end;
+    }
+  `]
+})
+export class AdminKioskComponent implements OnInit {
+  kioskForm: FormGroup;
+  readonly minTimeout = IdleService.MIN_KIOSK_MINUTES;
+  readonly maxTimeout = IdleService.MAX_KIOSK_MINUTES;
+  readonly defaultMinutes = environment.idleTimeout.defaultMinutes;
+
+  constructor(
+    private fb: FormBuilder,
+    private idleService: IdleService,
+    private snackBar: MatSnackBar
+  ) {
+    this.kioskForm = this.fb.group({
+      enabled: [false],
+      timeoutMinutes: [
+        environment.idleTimeout.kioskMinutes,
+        [Validators.required, Validators.min(this.minTimeout), Validators.max(this.maxTimeout)]
+      ]
+    });
+  }
+
+  ngOnInit(): void {
+    this.kioskForm.reset(this.idleService.getKioskSettings());
+  }
+
+  save(): void {
+    if (this.kioskForm.invalid) {
+      return;
+    }
+
+    const settings = this.kioskForm.value;
+    this.idleService.saveKioskSettings({
+      enabled: settings.enabled,
+      timeoutMinutes: Number(settings.timeoutMinutes)
+    });
+    this.kioskForm.markAsPristine();
+
+    this.snackBar.open(
+      settings.enabled ? 'Kiosk mode turned on for this device' : 'Kiosk mode turned off for this device',
+      'Close',
+      { duration: 3000 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { MatDialog } from '@angular/material/dialog';
 import { PageEvent } from '@angular/material/paginator';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { AdminService } from '../../../core/services/admin.service';
+import { ImpersonationService } from '../../../core/services/impersonation.service';
 import { OrderStatusDialogComponent } from '../order-status-dialog/order-status-dialog.component';
 
 @Component({
@@ -102,7 +103,8 @@ import { OrderStatusDialogComponent } from '../order-status-dialog/order-status-
               <th mat-header-cell *matHeaderCellDef>Actions</th>
               <td mat-cell *matCellDef="let order">
                 <div class="action-buttons">
-                  <button mat-icon-button (click)="updateOrderStatus(order)"
+                  <button *appHasPermission="'orders.manage'"
+                          mat-icon-button (click)="updateOrderStatus(order)"
                           matTooltip="Update Status">
                     <mat-icon>edit</mat-icon>
                   </button>
@@ -112,13 +114,22 @@ import { OrderStatusDialogComponent } from '../order-status-dialog/order-status-
                     <mat-icon>visibility</mat-icon>
                   </button>
 
-                  <button mat-icon-button
-                          *ngIf="order.status === 'shipped'"
-                          (click)="completeOrder(order)"
-                          color="primary"
-                          matTooltip="Mark as Completed">
-                    <mat-icon>check_circle</mat-icon>
+                  <button *appHasPermission="'customers.impersonate'"
+                          mat-icon-button (click)="viewAsCustomer(order)"
+                          [disabled]="impersonatingOrderId === order.orderId"
+                          matTooltip="View as Customer">
+                    <mat-icon>supervisor_account</mat-icon>
                   </button>
+
+                  <ng-container *appHasPermission="'orders.manage'">
+                    <button mat-icon-button
+                            *ngIf="order.status === 'shipped'"
+                            (click)="completeOrder(order)"
+                            color="primary"
+                            matTooltip="Mark as Completed">
+                      <mat-icon>check_circle</mat-icon>
+                    </button>
+                  </ng-container>
                 </div>
               </td>
             </ng-container>
@@ -247,6 +258,7 @@ export class AdminOrdersComponent implements OnInit {
   pageSize = 25;
   currentPage = 1;
   selectedStatus = '';
+  impersonatingOrderId: string | null = null;
 
   displayedColumns = [
     'orderNumber',
@@ -261,6 +273,7 @@ export class AdminOrdersComponent implements OnInit {
 
   constructor(
     private adminService: AdminService,
+    private impersonationService: ImpersonationService,
     private dialog: MatDialog,
     private snackBar: MatSnackBar
   ) {}
@@ -311,6 +324,26 @@ export class AdminOrdersComponent implements OnInit {
     // Navigate to order details or open in dialog
   }
 
+  /**
+   * Switch to the customer's view of the site to investigate a reported problem.
+   */
+  viewAsCustomer(order: any): void {
+    if (!confirm(`View the site as ${order.customerName} (${order.customerEmail})? Checkout will be disabled until you exit.`)) {
+      return;
+    }
+
+    this.impersonatingOrderId = order.orderId;
+    this.impersonationService.start(order.customerEmail).subscribe({
+      next: () => {
+        this.impersonatingOrderId = null;
+      },
+      error: (error) => {
+        this.impersonatingOrderId = null;
+        this.snackBar.open(error.error?.message || 'Failed to start customer view', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
   completeOrder(order: any): void {
     if (confirm(`Mark order ${order.orderNumber} as completed? This will delete all associated photos.`)) {
       const completionData = {
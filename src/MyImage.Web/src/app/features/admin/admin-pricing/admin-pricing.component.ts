@@ -3,6 +3,7 @@ import { Component, OnInit } from '@angular/core';
 import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { AdminService } from '../../../core/services/admin.service';
+import { AuthService } from '../../../core/services/auth.service';
 
 @Component({
   selector: 'app-admin-pricing',
@@ -11,7 +12,7 @@ import { AdminService } from '../../../core/services/admin.service';
     <div class="pricing-container">
       <div class="pricing-header">
         <h2>Price Management</h2>
-        <button mat-raised-button color="primary" (click)="toggleAddForm()">
+        <button *appHasPermission="'pricing.edit'" mat-raised-button color="primary" (click)="toggleAddForm()">
           <mat-icon>add</mat-icon>
           Add New Size
         </button>
@@ -147,10 +148,14 @@ import { AdminService } from '../../../core/services/admin.service';
                     </button>
                   </div>
                   <ng-template #priceDisplay>
-                    <span class="price-value" (click)="startPriceEdit(size)">
+                    <span *appHasPermission="'pricing.edit'; else readOnlyPrice"
+                          class="price-value" (click)="startPriceEdit(size)">
                       \${{ size.price.toFixed(2) }}
                       <mat-icon class="edit-icon">edit</mat-icon>
                     </span>
+                    <ng-template #readOnlyPrice>
+                      <span class="price-readonly">\${{ size.price.toFixed(2) }}</span>
+                    </ng-template>
                   </ng-template>
                 </td>
               </ng-container>
@@ -177,7 +182,7 @@ import { AdminService } from '../../../core/services/admin.service';
                 <th mat-header-cell *matHeaderCellDef>Status</th>
                 <td mat-cell *matCellDef="let size">
                   <mat-chip [class]="size.isActive ? 'status-active' : 'status-inactive'"
-                           (click)="toggleStatus(size)">
+                           (click)="canEditPricing && toggleStatus(size)">
                     {{ size.isActive ? 'Active' : 'Inactive' }}
                   </mat-chip>
                 </td>
@@ -187,13 +192,15 @@ import { AdminService } from '../../../core/services/admin.service';
               <ng-container matColumnDef="actions">
                 <th mat-header-cell *matHeaderCellDef>Actions</th>
                 <td mat-cell *matCellDef="let size">
-                  <button mat-icon-button (click)="editSize(size)" matTooltip="Edit Size">
-                    <mat-icon>edit</mat-icon>
-                  </button>
-                  <button mat-icon-button (click)="toggleStatus(size)"
-                          [matTooltip]="size.isActive ? 'Deactivate' : 'Activate'">
-                    <mat-icon>{{ size.isActive ? 'visibility_off' : 'visibility' }}</mat-icon>
-                  </button>
+                  <ng-container *appHasPermission="'pricing.edit'">
+                    <button mat-icon-button (click)="editSize(size)" matTooltip="Edit Size">
+                      <mat-icon>edit</mat-icon>
+                    </button>
+                    <button mat-icon-button (click)="toggleStatus(size)"
+                            [matTooltip]="size.isActive ? 'Deactivate' : 'Activate'">
+                      <mat-icon>{{ size.isActive ? 'visibility_off' : 'visibility' }}</mat-icon>
+                    </button>
+                  </ng-container>
                 </td>
               </ng-container>
 
@@ -329,6 +336,10 @@ import { AdminService } from '../../../core/services/admin.service';
       background-color: #f0f0f0;
     }
 
+    .price-readonly {
+      padding: 4px 8px;
+    }
+
     .edit-icon {
       font-size: 16px;
       width: 16px;
@@ -431,6 +442,7 @@ export class AdminPricingComponent implements OnInit {
   constructor(
     private fb: FormBuilder,
     private adminService: AdminService,
+    private authService: AuthService,
     private snackBar: MatSnackBar
   ) {
     this.addSizeForm = this.fb.group({
@@ -463,6 +475,10 @@ export class AdminPricingComponent implements OnInit {
     });
   }
 
+  get canEditPricing(): boolean {
+    return this.authService.hasPermission('pricing.edit');
+  }
+
   toggleAddForm(): void {
     this.showAddForm = !this.showAddForm;
     if (this.showAddForm) {
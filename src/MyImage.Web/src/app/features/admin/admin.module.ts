@@ -13,20 +13,40 @@ import { MatInputModule } from '@angular/material/input';
 import { MatPaginatorModule } from '@angular/material/paginator';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
 import { MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatTableModule } from '@angular/material/table';
 import { MatTabsModule } from '@angular/material/tabs';
 import { MatTooltipModule } from '@angular/material/tooltip';
 
+import { PermissionGuard } from '../../core/guards/permission.guard';
+import { SharedModule } from '../../shared/shared.module';
 import { AdminDashboardComponent } from './admin-dashboard/admin-dashboard.component';
+import { AdminKioskComponent } from './admin-kiosk/admin-kiosk.component';
 import { AdminOrdersComponent } from './admin-orders/admin-orders.component';
 import { AdminPricingComponent } from './admin-pricing/admin-pricing.component';
 import { OrderStatusDialogComponent } from './order-status-dialog/order-status-dialog.component';
 
 const routes: Routes = [
   { path: '', component: AdminDashboardComponent },
-  { path: 'orders', component: AdminOrdersComponent },
-  { path: 'pricing', component: AdminPricingComponent }
+  {
+    path: 'orders',
+    component: AdminOrdersComponent,
+    canActivate: [PermissionGuard],
+    data: { permissions: ['orders.view'] }
+  },
+  {
+    path: 'pricing',
+    component: AdminPricingComponent,
+    canActivate: [PermissionGuard],
+    data: { permissions: ['pricing.view'] }
+  },
+  {
+    path: 'kiosk',
+    component: AdminKioskComponent,
+    canActivate: [PermissionGuard],
+    data: { permissions: ['kiosk.configure'] }
+  }
 ];
 
 @NgModule({
@@ -34,6 +54,7 @@ const routes: Routes = [
     AdminDashboardComponent,
     AdminOrdersComponent,
     AdminPricingComponent,
+    AdminKioskComponent,
     OrderStatusDialogComponent
   ],
   imports: [
@@ -41,6 +62,7 @@ const routes: Routes = [
     ReactiveFormsModule,
     FormsModule,
     RouterModule.forChild(routes),
+    SharedModule,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
@@ -50,6 +72,7 @@ const routes: Routes = [
     MatFormFieldModule,
     MatInputModule,
     MatSelectModule,
+    MatSlideToggleModule,
     MatDialogModule,
     MatSnackBarModule,
     MatProgressSpinnerModule,
@@ -0,0 +1,146 @@
+import { Component } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { AuthService } from '../../../core/services/auth.service';
+
+@Component({
+  selector: 'app-forgot-password',
+  standalone: false,
+  template: `
+    <div class="auth-container">
+      <mat-card class="auth-card">
+        <mat-card-header>
+          <mat-card-title>Reset Your Password</mat-card-title>
+          <mat-card-subtitle>We'll email you a link to choose a new one</mat-card-subtitle>
+        </mat-card-header>
+
+        <mat-card-content *ngIf="!emailSent">
+          <form [formGroup]="forgotForm" (ngSubmit)="onSubmit()">
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Email Address</mat-label>
+              <input matInput type="email" formControlName="email" autocomplete="email">
+              <mat-icon matSuffix>email</mat-icon>
+              <mat-error *ngIf="forgotForm.get('email')?.hasError('required')">
+                Email is required
+              </mat-error>
+              <mat-error *ngIf="forgotForm.get('email')?.hasError('email')">
+                Please enter a valid email address
+              </mat-error>
+            </mat-form-field>
+
+            <div class="form-actions">
+              <button mat-raised-button color="primary" type="submit"
+                      [disabled]="forgotForm.invalid || isLoading" class="full-width">
+                <mat-spinner diameter="20" *ngIf="isLoading"></mat-spinner>
+                <span *ngIf="!isLoading">Send Reset Link</span>
+              </button>
+            </div>
+          </form>
+        </mat-card-content>
+
+        <mat-card-content *ngIf="emailSent" class="result">
+          <mat-icon class="result-icon">mark_email_read</mat-icon>
+          <p>
+            If an account exists for <strong>{{ forgotForm.value.email }}</strong>,
+            you'll get an email with a reset link shortly. The link expires after a short time.
+          </p>
+          <p class="hint">Didn't get it? Check your spam folder, or try again.</p>
+          <button mat-button color="primary" (click)="emailSent = false">Try Again</button>
+        </mat-card-content>
+
+        <mat-card-actions>
+          <p class="login-link">
+            Remembered it?
+            <a routerLink="/auth/login" mat-button color="primary">Back to sign in</a>
+          </p>
+        </mat-card-actions>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .auth-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: calc(100vh - 120px);
+      padding: 20px;
+    }
+
+    .auth-card {
+      width: 100%;
+      max-width: 400px;
+    }
+
+    .full-width {
+      width: 100%;
+      margin-bottom: 16px;
+    }
+
+    .form-actions {
+      margin-top: 16px;
+    }
+
+    .result {
+      text-align: center;
+      padding-top: 16px;
+    }
+
+    .result-icon {
+      font-size: 48px;
+      width: 48px;
+      height: 48px;
+      color: #4caf50;
+    }
+
+    .hint {
+      color: #666;
+      font-size: 0.9em;
+    }
+
+    .login-link {
+      text-align: center;
+      margin: 0;
+      padding: 16px;
+    }
+
+    mat-spinner {
+      margin-right: 8px;
+    }
+  `]
+})
+export class ForgotPasswordComponent {
+  forgotForm: FormGroup;
+  isLoading = false;
+  emailSent = false;
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private snackBar: MatSnackBar
+  ) {
+    this.forgotForm = this.fb.group({
+      email: ['', [Validators.required, Validators.email]]
+    });
+  }
+
+  onSubmit(): void {
+    if (this.forgotForm.valid) {
+      this.isLoading = true;
+
+      this.authService.requestPasswordReset(this.forgotForm.value).subscribe({
+        next: () => {
+          this.isLoading = false;
+          this.emailSent = true;
+        },
+        error: (error) => {
+          this.isLoading = false;
+          this.snackBar.open(
+            error.error?.message || 'Could not send the reset email. Please try again.',
+            'Close',
+            { duration: 5000 }
+          );
+        }
+      });
+    }
+  }
+}
@@ -3,6 +3,8 @@ import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { ActivatedRoute, Router } from '@angular/router';
 import { AuthService } from '../../../core/services/auth.service';
+import { TwoFactorService } from '../../../core/services/two-factor.service';
+import { TwoFactorChallenge } from '../../../shared/models/auth.models';
 
 @Component({
   selector: 'app-login',
@@ -11,11 +13,20 @@ import { AuthService } from '../../../core/services/auth.service';
     <div class="auth-container">
       <mat-card class="auth-card">
         <mat-card-header>
-          <mat-card-title>Sign In to MyImage</mat-card-title>
-          <mat-card-subtitle>Access your photo printing account</mat-card-subtitle>
+          <mat-card-title>{{ challenge ? 'Two-Factor Authentication' : 'Sign In to MyImage' }}</mat-card-title>
+          <mat-card-subtitle>
+            {{ challenge ? 'One more step to confirm it is you' : 'Access your photo printing account' }}
+          </mat-card-subtitle>
         </mat-card-header>
 
-        <mat-card-content>
+        <mat-card-content *ngIf="challenge">
+          <app-two-factor-challenge [challenge]="challenge"
+                                    (verified)="onSignedIn()"
+                                    (cancelled)="cancelChallenge()">
+          </app-two-factor-challenge>
+        </mat-card-content>
+
+        <mat-card-content *ngIf="!challenge">
           <form [formGroup]="loginForm" (ngSubmit)="onSubmit()">
             <mat-form-field appearance="outline" class="full-width">
               <mat-label>Email or User ID</mat-label>
@@ -35,6 +46,15 @@ import { AuthService } from '../../../core/services/auth.service';
               </mat-error>
             </mat-form-field>
 
+            <div class="forgot-link">
+              <a routerLink="/auth/forgot-password">Forgot your password?</a>
+            </div>
+
+            <mat-checkbox formControlName="rememberMe" color="primary" class="remember-me">
+              Keep me signed in
+            </mat-checkbox>
+            <p class="remember-hint">Don't use this on shared or public computers</p>
+
             <div class="form-actions">
               <button mat-raised-button color="primary" type="submit"
                       [disabled]="loginForm.invalid || isLoading" class="full-width">
@@ -45,7 +65,7 @@ import { AuthService } from '../../../core/services/auth.service';
           </form>
         </mat-card-content>
 
-        <mat-card-actions>
+        <mat-card-actions *ngIf="!challenge">
           <p class="register-link">
             Don't have an account?
             <a routerLink="/register" mat-button color="primary">Register here</a>
@@ -73,6 +93,22 @@ import { AuthService } from '../../../core/services/auth.service';
       margin-bottom: 16px;
     }
 
+    .forgot-link {
+      text-align: right;
+      margin: -8px 0 8px 0;
+      font-size: 0.9em;
+    }
+
+    .remember-me {
+      display: block;
+    }
+
+    .remember-hint {
+      margin: 0 0 0 40px;
+      color: #666;
+      font-size: 0.85em;
+    }
+
     .form-actions {
       margin-top: 16px;
     }
@@ -92,17 +128,21 @@ export class LoginComponent implements OnInit {
   loginForm: FormGroup;
   isLoading = false;
   returnUrl = '/photos';
+  // Set when the account needs a second factor before the login completes
+  challenge: TwoFactorChallenge | null = null;
 
   constructor(
     private fb: FormBuilder,
     private authService: AuthService,
+    private twoFactorService: TwoFactorService,
     private router: Router,
     private route: ActivatedRoute,
     private snackBar: MatSnackBar
   ) {
     this.loginForm = this.fb.group({
       identifier: ['', Validators.required],
-      password: ['', Validators.required]
+      password: ['', Validators.required],
+      rememberMe: [false]
     });
   }
 
@@ -111,7 +151,7 @@ export class LoginComponent implements OnInit {
 
     // Redirect if already authenticated
     if (this.authService.isAuthenticated()) {
-      this.router.navigate([this.returnUrl]);
+      this.router.navigateByUrl(this.returnUrl);
     }
   }
 
@@ -122,9 +162,14 @@ export class LoginComponent implements OnInit {
       this.authService.login(this.loginForm.value).subscribe({
         next: (response) => {
           this.isLoading = false;
-          if (response.success) {
-            this.snackBar.open('Login successful!', 'Close', { duration: 3000 });
-            this.router.navigate([this.returnUrl]);
+          if (!response.success) {
+            return;
+          }
+
+          if (this.twoFactorService.isChallenge(response.data)) {
+            this.challenge = response.data;
+          } else {
+            this.onSignedIn();
           }
         },
         error: (error) => {
@@ -138,4 +183,14 @@ export class LoginComponent implements OnInit {
       });
     }
   }
+
+  onSignedIn(): void {
+    this.snackBar.open('Login successful!', 'Close', { duration: 3000 });
+    this.router.navigateByUrl(this.returnUrl);
+  }
+
+  cancelChallenge(): void {
+    this.challenge = null;
+    this.loginForm.get('password')?.reset('');
+  }
 }
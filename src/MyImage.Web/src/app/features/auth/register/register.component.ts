@@ -185,9 +185,10 @@ export class RegisterComponent implements OnInit {
           this.isLoading = false;
           if (response.success) {
             this.snackBar.open(
-              `Account created! Your User ID is: ${response.data.userId}`,
+              `Account created! Your User ID is: ${response.data.userId}. ` +
+                `We've sent a link to ${response.data.email} to confirm your email address.`,
               'Close',
-              { duration: 8000 }
+              { duration: 10000 }
             );
             this.router.navigate(['/photos']);
           }
@@ -0,0 +1,222 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from '../../../core/services/auth.service';
+import { CustomValidators } from '../../../shared/utils/form-validators';
+
+type ResetState = 'checking' | 'ready' | 'expired' | 'invalid';
+
+@Component({
+  selector: 'app-reset-password',
+  standalone: false,
+  template: `
+    <div class="auth-container">
+      <mat-card class="auth-card">
+        <mat-card-header>
+          <mat-card-title>Choose a New Password</mat-card-title>
+        </mat-card-header>
+
+        <mat-card-content *ngIf="state === 'checking'" class="result">
+          <mat-spinner diameter="40"></mat-spinner>
+          <p>Checking your reset link...</p>
+        </mat-card-content>
+
+        <mat-card-content *ngIf="state === 'ready'">
+          <form [formGroup]="resetForm" (ngSubmit)="onSubmit()">
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>New Password</mat-label>
+              <input matInput type="password" formControlName="newPassword" autocomplete="new-password">
+              <mat-icon matSuffix>lock_reset</mat-icon>
+              <mat-hint>At least 8 characters with uppercase, lowercase and a number</mat-hint>
+              <mat-error *ngIf="resetForm.get('newPassword')?.hasError('required')">
+                New password is required
+              </mat-error>
+              <mat-error *ngIf="resetForm.get('newPassword')?.hasError('passwordStrength')">
+                Use at least 8 characters with uppercase, lowercase and a number
+              </mat-error>
+            </mat-form-field>
+
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Confirm New Password</mat-label>
+              <input matInput type="password" formControlName="confirmNewPassword" autocomplete="new-password">
+              <mat-icon matSuffix>lock</mat-icon>
+              <mat-error *ngIf="resetForm.get('confirmNewPassword')?.hasError('required')">
+                Please confirm your new password
+              </mat-error>
+              <mat-error *ngIf="resetForm.get('confirmNewPassword')?.hasError('confirmPassword')">
+                Passwords do not match
+              </mat-error>
+            </mat-form-field>
+
+            <div class="form-actions">
+              <button mat-raised-button color="primary" type="submit"
+                      [disabled]="resetForm.invalid || isLoading" class="full-width">
+                <mat-spinner diameter="20" *ngIf="isLoading"></mat-spinner>
+                <span *ngIf="!isLoading">Reset Password</span>
+              </button>
+            </div>
+          </form>
+        </mat-card-content>
+
+        <mat-card-content *ngIf="state === 'expired'" class="result">
+          <mat-icon class="result-icon warning">timer_off</mat-icon>
+          <p>This reset link has expired. Request a new one to choose a password.</p>
+          <a mat-raised-button color="primary" routerLink="/auth/forgot-password">Send a New Link</a>
+        </mat-card-content>
+
+        <mat-card-content *ngIf="state === 'invalid'" class="result">
+          <mat-icon class="result-icon error">link_off</mat-icon>
+          <p>This reset link isn't valid. It may have been used already, or copied incompletely.</p>
+          <a mat-raised-button color="primary" routerLink="/auth/forgot-password">Send a New Link</a>
+        </mat-card-content>
+
+        <mat-card-actions>
+          <p class="login-link">
+            <a routerLink="/auth/login" mat-button color="primary">Back to sign in</a>
+          </p>
+        </mat-card-actions>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .auth-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: calc(100vh - 120px);
+      padding: 20px;
+    }
+
+    .auth-card {
+      width: 100%;
+      max-width: 400px;
+    }
+
+    .full-width {
+      width: 100%;
+      margin-bottom: 16px;
+    }
+
+    .form-actions {
+      margin-top: 16px;
+    }
+
+    .result {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      text-align: center;
+      padding-top: 16px;
+    }
+
+    .result-icon {
+      font-size: 48px;
+      width: 48px;
+      height: 48px;
+    }
+
+    .result-icon.warning {
+      color: #ff9800;
+    }
+
+    .result-icon.error {
+      color: #f44336;
+    }
+
+    .login-link {
+      text-align: center;
+      margin: 0;
+      padding: 16px;
+    }
+
+    mat-spinner {
+      margin-right: 8px;
+    }
+  `]
+})
+export class ResetPasswordComponent implements OnInit, OnDestroy {
+  resetForm: FormGroup;
+  state: ResetState = 'checking';
+  isLoading = false;
+
+  private token = '';
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private snackBar: MatSnackBar
+  ) {
+    this.resetForm = this.fb.group({
+      newPassword: ['', [Validators.required, CustomValidators.passwordStrength]],
+      confirmNewPassword: ['', [Validators.required, CustomValidators.confirmPassword('newPassword')]]
+    });
+  }
+
+  ngOnInit(): void {
+    this.token = this.route.snapshot.paramMap.get('token') ?? '';
+    if (!this.token) {
+      this.state = 'invalid';
+      return;
+    }
+
+    this.authService.validateResetToken(this.token).subscribe({
+      next: (response) => this.state = response.success ? 'ready' : 'invalid',
+      error: (error) => this.state = this.stateForError(error.status)
+    });
+
+    // Re-check the confirmation when the password is edited after it was typed
+    this.resetForm.get('newPassword')?.valueChanges.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(() => {
+      this.resetForm.get('confirmNewPassword')?.updateValueAndValidity({ emitEvent: false });
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onSubmit(): void {
+    if (this.resetForm.invalid) {
+      return;
+    }
+
+    this.isLoading = true;
+
+    this.authService.resetPassword({ token: this.token, ...this.resetForm.value }).subscribe({
+      next: (response) => {
+        this.isLoading = false;
+        if (response.success) {
+          this.snackBar.open('Password reset. Please sign in with your new password.', 'Close', { duration: 5000 });
+          this.router.navigate(['/auth/login']);
+        }
+      },
+      error: (error) => {
+        this.isLoading = false;
+
+        // The link can expire while the form is open
+        if (error.status === 410 || error.status === 404) {
+          this.state = this.stateForError(error.status);
+          return;
+        }
+
+        this.snackBar.open(
+          error.error?.errors?.[0] || error.error?.message || 'Failed to reset password',
+          'Close',
+          { duration: 5000 }
+        );
+      }
+    });
+  }
+
+  private stateForError(status: number): ResetState {
+    return status === 410 ? 'expired' : 'invalid';
+  }
+}
@@ -0,0 +1,147 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { AuthService } from '../../../core/services/auth.service';
+import { NotificationService } from '../../../core/services/notification.service';
+import { TwoFactorChallenge } from '../../../shared/models/auth.models';
+
+/**
+ * Second login step for accounts with two-factor authentication.
+ * Accepts a code from the authenticator app, or one of the recovery codes.
+ */
+@Component({
+  selector: 'app-two-factor-challenge',
+  standalone: false,
+  template: `
+    <form [formGroup]="codeForm" (ngSubmit)="onSubmit()">
+      <p class="instructions" *ngIf="!useRecoveryCode">
+        Enter the 6-digit code from your authenticator app.
+      </p>
+      <p class="instructions" *ngIf="useRecoveryCode">
+        Enter one of the recovery codes you saved when you turned on two-factor authentication.
+        Each code can only be used once.
+      </p>
+
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>{{ useRecoveryCode ? 'Recovery code' : 'Verification code' }}</mat-label>
+        <input matInput formControlName="code" autocomplete="one-time-code"
+               [attr.inputmode]="useRecoveryCode ? 'text' : 'numeric'"
+               [placeholder]="useRecoveryCode ? 'xxxxx-xxxxx' : '123456'">
+        <mat-icon matSuffix>{{ useRecoveryCode ? 'key' : 'phonelink_lock' }}</mat-icon>
+        <mat-error *ngIf="codeForm.get('code')?.hasError('required')">
+          Code is required
+        </mat-error>
+        <mat-error *ngIf="codeForm.get('code')?.hasError('pattern')">
+          {{ useRecoveryCode ? 'Recovery codes look like xxxxx-xxxxx' : 'Enter the 6 digits shown in the app' }}
+        </mat-error>
+      </mat-form-field>
+
+      <div class="form-actions">
+        <button mat-raised-button color="primary" type="submit"
+                [disabled]="codeForm.invalid || isVerifying" class="full-width">
+          <mat-spinner diameter="20" *ngIf="isVerifying"></mat-spinner>
+          <span *ngIf="!isVerifying">Verify</span>
+        </button>
+      </div>
+
+      <div class="secondary-actions">
+        <button mat-button type="button" color="primary" (click)="toggleRecoveryCode()">
+          {{ useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code' }}
+        </button>
+        <button mat-button type="button" (click)="cancelled.emit()">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  `,
+  styles: [`
+    .instructions {
+      color: #666;
+      margin: 8px 0 16px 0;
+    }
+
+    .full-width {
+      width: 100%;
+      margin-bottom: 16px;
+    }
+
+    .form-actions {
+      margin-top: 8px;
+    }
+
+    .secondary-actions {
+      display: flex;
+      justify-content: space-between;
+      flex-wrap: wrap;
+    }
+
+    mat-spinner {
+      margin-right: 8px;
+    }
+  `]
+})
+export class TwoFactorChallengeComponent {
+  @Input() challenge!: TwoFactorChallenge;
+  @Output() verified = new EventEmitter<void>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  codeForm: FormGroup;
+  useRecoveryCode = false;
+  isVerifying = false;
+
+  private readonly TOTP_PATTERN = /^\s*\d{3}\s?\d{3}\s*$/;
+  private readonly RECOVERY_CODE_PATTERN = /^\s*[0-9a-fA-F]{5}-[0-9a-fA-F]{5}\s*$/;
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private notificationService: NotificationService
+  ) {
+    this.codeForm = this.fb.group({
+      code: ['', [Validators.required, Validators.pattern(this.TOTP_PATTERN)]]
+    });
+  }
+
+  toggleRecoveryCode(): void {
+    this.useRecoveryCode = !this.useRecoveryCode;
+
+    const codeControl = this.codeForm.get('code');
+    codeControl?.setValidators([
+      Validators.required,
+      Validators.pattern(this.useRecoveryCode ? this.RECOVERY_CODE_PATTERN : this.TOTP_PATTERN)
+    ]);
+    codeControl?.reset('');
+  }
+
+  onSubmit(): void {
+    if (this.codeForm.invalid) {
+      return;
+    }
+
+    this.isVerifying = true;
+    const code = this.codeForm.value.code.trim();
+
+    this.authService.verifyTwoFactor(this.challenge, code, this.useRecoveryCode).subscribe({
+      next: (response) => {
+        this.isVerifying = false;
+        if (response.success) {
+          this.verified.emit();
+        } else {
+          this.notificationService.showError(response.message || 'Verification failed');
+        }
+      },
+      error: (error) => {
+        this.isVerifying = false;
+
+        // The half-finished login has expired, so start over from the password step
+        if (error.status === 410) {
+          this.notificationService.showWarning(error.error?.message || 'Your sign-in attempt has expired');
+          this.cancelled.emit();
+          return;
+        }
+
+        this.notificationService.showError(error.error?.message || 'Invalid verification code');
+        this.codeForm.get('code')?.reset('');
+      }
+    });
+  }
+}
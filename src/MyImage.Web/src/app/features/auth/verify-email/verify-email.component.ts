@@ -0,0 +1,143 @@
+import { Component, OnInit } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { AuthService } from '../../../core/services/auth.service';
+import { NotificationService } from '../../../core/services/notification.service';
+
+type VerifyState = 'verifying' | 'verified' | 'expired' | 'invalid';
+
+@Component({
+  selector: 'app-verify-email',
+  standalone: false,
+  template: `
+    <div class="auth-container">
+      <mat-card class="auth-card">
+        <mat-card-header>
+          <mat-card-title>Email Verification</mat-card-title>
+        </mat-card-header>
+
+        <mat-card-content class="result" [ngSwitch]="state">
+          <ng-container *ngSwitchCase="'verifying'">
+            <mat-spinner diameter="40"></mat-spinner>
+            <p>Verifying your email address...</p>
+          </ng-container>
+
+          <ng-container *ngSwitchCase="'verified'">
+            <mat-icon class="result-icon success">verified</mat-icon>
+            <p>Your email address is confirmed. Thanks!</p>
+            <a mat-raised-button color="primary" [routerLink]="isSignedIn ? '/photos' : '/auth/login'">
+              {{ isSignedIn ? 'Go to My Photos' : 'Sign In' }}
+            </a>
+          </ng-container>
+
+          <ng-container *ngSwitchCase="'expired'">
+            <mat-icon class="result-icon warning">timer_off</mat-icon>
+            <p>This verification link has expired.</p>
+            <ng-container *ngTemplateOutlet="resend"></ng-container>
+          </ng-container>
+
+          <ng-container *ngSwitchCase="'invalid'">
+            <mat-icon class="result-icon error">link_off</mat-icon>
+            <p>This verification link isn't valid. It may have been used already, or copied incompletely.</p>
+            <ng-container *ngTemplateOutlet="resend"></ng-container>
+          </ng-container>
+        </mat-card-content>
+      </mat-card>
+    </div>
+
+    <ng-template #resend>
+      <button *ngIf="isSignedIn" mat-raised-button color="primary"
+              (click)="resendEmail()" [disabled]="isResending">
+        Send a New Link
+      </button>
+      <p *ngIf="!isSignedIn" class="hint">
+        <a routerLink="/auth/login">Sign in</a> to have a new link sent to you.
+      </p>
+    </ng-template>
+  `,
+  styles: [`
+    .auth-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: calc(100vh - 120px);
+      padding: 20px;
+    }
+
+    .auth-card {
+      width: 100%;
+      max-width: 400px;
+    }
+
+    .result {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      text-align: center;
+      padding: 16px 0;
+    }
+
+    .result-icon {
+      font-size: 48px;
+      width: 48px;
+      height: 48px;
+    }
+
+    .result-icon.success {
+      color: #4caf50;
+    }
+
+    .result-icon.warning {
+      color: #ff9800;
+    }
+
+    .result-icon.error {
+      color: #f44336;
+    }
+
+    .hint {
+      color: #666;
+    }
+  `]
+})
+export class VerifyEmailComponent implements OnInit {
+  state: VerifyState = 'verifying';
+  isResending = false;
+
+  constructor(
+    private authService: AuthService,
+    private route: ActivatedRoute,
+    private notificationService: NotificationService
+  ) {}
+
+  get isSignedIn(): boolean {
+    return this.authService.isAuthenticated();
+  }
+
+  ngOnInit(): void {
+    const token = this.route.snapshot.paramMap.get('token');
+    if (!token) {
+      this.state = 'invalid';
+      return;
+    }
+
+    this.authService.verifyEmail(token).subscribe({
+      next: (response) => this.state = response.success ? 'verified' : 'invalid',
+      error: (error) => this.state = error.status === 410 ? 'expired' : 'invalid'
+    });
+  }
+
+  resendEmail(): void {
+    this.isResending = true;
+
+    this.authService.resendVerificationEmail().subscribe({
+      next: () => {
+        this.isResending = false;
+        this.notificationService.showSuccess('A new verification link is on its way');
+      },
+      error: (error) => {
+        this.isResending = false;
+        this.notificationService.showError(error.error?.message || 'Failed to send verification email');
+      }
+    });
+  }
+}
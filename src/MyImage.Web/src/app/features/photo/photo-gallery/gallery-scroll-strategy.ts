@@ -0,0 +1,100 @@
+// src/MyImage.Web/src/app/features/photo/photo-gallery/gallery-scroll-strategy.ts
+import { CdkVirtualScrollViewport, VirtualScrollStrategy } from '@angular/cdk/scrolling';
+import { Subject } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+
+/**
+ * Virtual scroll strategy for gallery rows of known but differing heights -
+ * folder headings are shorter than rows of photos. The CDK's fixed-size
+ * strategy can't mix the two.
+ */
+export class GalleryScrollStrategy implements VirtualScrollStrategy {
+  private readonly index$ = new Subject<number>();
+  readonly scrolledIndexChange = this.index$.pipe(distinctUntilChanged());
+
+  private viewport: CdkVirtualScrollViewport | null = null;
+
+  // offsets[i] is the top of row i; the last entry is the total height
+  private offsets: number[] = [0];
+
+  /**
+   * @param buffer Pixels rendered beyond each edge of the viewport, so fast scrolling doesn't show gaps
+   */
+  constructor(private buffer: number) {}
+
+  setRowHeights(heights: number[]): void {
+    this.offsets = [0];
+    heights.forEach(height => this.offsets.push(this.offsets[this.offsets.length - 1] + height));
+    this.update();
+  }
+
+  /**
+   * Index of the row at the given scroll offset.
+   */
+  rowAt(offset: number): number {
+    let low = 0;
+    let high = this.offsets.length - 2;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.offsets[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return Math.max(0, low);
+  }
+
+  attach(viewport: CdkVirtualScrollViewport): void {
+    this.viewport = viewport;
+    this.update();
+  }
+
+  detach(): void {
+    this.viewport = null;
+  }
+
+  onContentScrolled(): void {
+    this.updateRenderedRange();
+  }
+
+  onDataLengthChanged(): void {
+    this.update();
+  }
+
+  onContentRendered(): void {}
+
+  onRenderedOffsetChanged(): void {}
+
+  scrollToIndex(index: number, behavior: ScrollBehavior): void {
+    const row = Math.min(Math.max(index, 0), this.offsets.length - 1);
+    this.viewport?.scrollToOffset(this.offsets[row], behavior);
+  }
+
+  private update(): void {
+    if (!this.viewport) {
+      return;
+    }
+
+    this.viewport.setTotalContentSize(this.offsets[this.offsets.length - 1]);
+    this.updateRenderedRange();
+  }
+
+  private updateRenderedRange(): void {
+    if (!this.viewport) {
+      return;
+    }
+
+    const scrollOffset = this.viewport.measureScrollOffset();
+    const viewportSize = this.viewport.getViewportSize();
+    const rowCount = Math.min(this.viewport.getDataLength(), this.offsets.length - 1);
+
+    const start = Math.min(this.rowAt(scrollOffset - this.buffer), rowCount);
+    const end = Math.min(this.rowAt(scrollOffset + viewportSize + this.buffer) + 1, rowCount);
+
+    this.viewport.setRenderedRange({ start, end });
+    this.viewport.setRenderedContentOffset(this.offsets[start] ?? 0);
+    this.index$.next(this.rowAt(scrollOffset));
+  }
+}
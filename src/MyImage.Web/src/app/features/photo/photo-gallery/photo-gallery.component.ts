@@ -1,12 +1,40 @@
 // src/MyImage.Web/src/app/features/photo/photo-gallery/photo-gallery.component.ts
-import { Component, OnDestroy, OnInit } from '@angular/core';
-import { MatDialog } from '@angular/material/dialog';
-import { PageEvent } from '@angular/material/paginator';
+import { CdkVirtualScrollViewport, VIRTUAL_SCROLL_STRATEGY } from '@angular/cdk/scrolling';
+import { Location } from '@angular/common';
+import { Component, ElementRef, HostListener, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { FormControl } from '@angular/forms';
+import { MatDialog, MatDialogRef } from '@angular/material/dialog';
 import { MatSnackBar } from '@angular/material/snack-bar';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, Subscription } from 'rxjs';
+import { debounceTime, filter, map, takeUntil } from 'rxjs/operators';
+import { ImageOptimizerService } from '../../../core/services/image-optimizer.service';
+import { PhotoMetadataService } from '../../../core/services/photo-metadata.service';
 import { PhotoService } from '../../../core/services/photo.service';
-import { Photo } from '../../../shared/models/photo.models';
+import { Photo, PhotoQuery, PhotoSortField } from '../../../shared/models/photo.models';
+import { PrintSize } from '../../../shared/models/print-size.models';
+import { PhotoQueryUtil } from '../../../shared/utils/photo-query.util';
 import { PhotoPreviewComponent } from '../photo-preview/photo-preview.component';
-import { PrintSelectorComponent } from '../print-selector/print-selector.component';
+import { BulkPrintSelection, PrintSelectorComponent } from '../print-selector/print-selector.component';
+import { GalleryScrollStrategy } from './gallery-scroll-strategy';
+
+// A folder heading, or one row of photos across the grid
+interface GalleryRow {
+  folder?: string;
+  count?: number;
+  photos: Photo[];
+}
+
+const HEADING_HEIGHT = 52;
+const PHOTO_ROW_HEIGHT = 300;
+const MIN_CARD_WIDTH = 280;
+const CARD_GAP = 20;
+
+// Fetch the next page when the user is within this many rows of the end
+const ROWS_AHEAD = 8;
+
+// Photos fetched for a sort or filter the API can't apply before asking to go on
+const LOCAL_QUERY_BATCH = 960;
 
 @Component({
   selector: 'app-photo-gallery',
@@ -15,102 +43,227 @@ import { PrintSelectorComponent } from '../print-selector/print-selector.compone
     <div class="gallery-container">
       <div class="gallery-header">
         <h2>My Photos</h2>
-        <button mat-raised-button color="primary" routerLink="/photos/upload">
-          <mat-icon>add</mat-icon>
-          Upload Photos
-        </button>
+        <div class="header-actions">
+          <button mat-stroked-button (click)="selectionMode ? exitSelection() : startSelection()" *ngIf="photos.length > 0">
+            <mat-icon>{{ selectionMode ? 'close' : 'checklist' }}</mat-icon>
+            {{ selectionMode ? 'Cancel Selection' : 'Select' }}
+          </button>
+          <button mat-raised-button color="primary" routerLink="/photos/upload">
+            <mat-icon>add</mat-icon>
+            Upload Photos
+          </button>
+        </div>
+      </div>
+
+      <!-- Sort, filters and search, all kept in the URL -->
+      <div class="gallery-toolbar">
+        <mat-form-field appearance="outline" subscriptSizing="dynamic" class="search-field">
+          <mat-label>Search filenames</mat-label>
+          <mat-icon matPrefix>search</mat-icon>
+          <input matInput [formControl]="searchControl">
+          <button mat-icon-button matSuffix *ngIf="searchControl.value" (click)="searchControl.setValue('')" aria-label="Clear search">
+            <mat-icon>close</mat-icon>
+          </button>
+        </mat-form-field>
+
+        <div class="sort-control">
+          <mat-form-field appearance="outline" subscriptSizing="dynamic">
+            <mat-label>Sort by</mat-label>
+            <mat-select [value]="query.sortBy" (selectionChange)="setSort($event.value)">
+              <mat-option *ngFor="let option of sortOptions" [value]="option.value">{{ option.label }}</mat-option>
+            </mat-select>
+          </mat-form-field>
+          <button mat-icon-button (click)="toggleSortDirection()"
+                  [matTooltip]="query.sortDirection === 'asc' ? 'Ascending' : 'Descending'">
+            <mat-icon>{{ query.sortDirection === 'asc' ? 'arrow_upward' : 'arrow_downward' }}</mat-icon>
+          </button>
+        </div>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic">
+          <mat-label>Status</mat-label>
+          <mat-select [value]="query.isOrdered" (selectionChange)="updateQuery({ isOrdered: $event.value })">
+            <mat-option [value]="undefined">All photos</mat-option>
+            <mat-option [value]="false">Not ordered</mat-option>
+            <mat-option [value]="true">Ordered</mat-option>
+          </mat-select>
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic">
+          <mat-label>Orientation</mat-label>
+          <mat-select [value]="query.orientation" (selectionChange)="updateQuery({ orientation: $event.value })">
+            <mat-option [value]="undefined">Any</mat-option>
+            <mat-option value="landscape">Landscape</mat-option>
+            <mat-option value="portrait">Portrait</mat-option>
+            <mat-option value="square">Square</mat-option>
+          </mat-select>
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic" *ngIf="folderOptions.length > 0">
+          <mat-label>Folder</mat-label>
+          <mat-select [value]="query.sourceFolder" (selectionChange)="updateQuery({ sourceFolder: $event.value })">
+            <mat-option [value]="undefined">All folders</mat-option>
+            <mat-option *ngFor="let folder of folderOptions" [value]="folder">{{ folder }}</mat-option>
+          </mat-select>
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic" *ngIf="printSizes.length > 0">
+          <mat-label>Prints well at</mat-label>
+          <mat-select [value]="query.minPrintSize" (selectionChange)="updateQuery({ minPrintSize: $event.value })">
+            <mat-option [value]="undefined">Any size</mat-option>
+            <mat-option *ngFor="let size of printSizes" [value]="size.sizeCode">{{ size.displayName }} or larger</mat-option>
+          </mat-select>
+        </mat-form-field>
+
+        <button mat-button *ngIf="hasFilters" (click)="clearFilters()">Clear Filters</button>
       </div>
 
       <div class="gallery-stats" *ngIf="totalPhotos > 0">
         <mat-chip-listbox>
-          <mat-chip>{{ totalPhotos }} Photos</mat-chip>
+          <mat-chip>{{ photoCount }}{{ countIsPartial ? '+' : '' }} {{ hasFilters ? 'Matching ' : '' }}Photos</mat-chip>
           <mat-chip>{{ availablePhotos }} Available for Printing</mat-chip>
         </mat-chip-listbox>
       </div>
 
-      <!-- Photos Grid -->
-      <div class="photos-grid" *ngIf="photos.length > 0">
-        <mat-card class="photo-card" *ngFor="let photo of photos; trackBy: trackByPhotoId">
-          <div class="photo-container" (click)="openPhotoPreview(photo)">
-            <!-- FIXED: Use authenticated blob URL with loading states -->
-            <div *ngIf="!getPhotoImageUrl(photo.id)" class="photo-loading">
-              <mat-spinner diameter="30"></mat-spinner>
-            </div>
-
-            <img *ngIf="getPhotoImageUrl(photo.id)"
-                 [src]="getPhotoImageUrl(photo.id)"
-                 [alt]="photo.filename"
-                 class="photo-thumbnail"
-                 loading="lazy"
-                 (error)="onImageError(photo.id)">
-
-            <!-- Error state -->
-            <div *ngIf="imageErrors.has(photo.id)" class="photo-error">
-              <mat-icon>broken_image</mat-icon>
-              <span>Image unavailable</span>
-            </div>
-
-            <div class="photo-overlay" *ngIf="getPhotoImageUrl(photo.id) && !imageErrors.has(photo.id)">
-              <mat-icon class="zoom-icon">zoom_in</mat-icon>
-            </div>
-          </div>
-
-          <mat-card-content class="photo-info">
-            <div class="photo-details">
-              <span class="photo-name">{{ photo.filename }}</span>
-              <span class="photo-size">{{ photo.dimensions.width }} × {{ photo.dimensions.height }}</span>
-            </div>
-
-            <div class="photo-actions">
-              <button mat-icon-button (click)="selectForPrinting(photo)"
-                      [disabled]="photo.isOrdered"
-                      matTooltip="Add to Cart">
-                <mat-icon>shopping_cart</mat-icon>
-              </button>
-              <button mat-icon-button (click)="deletePhoto(photo)"
-                      [disabled]="photo.isOrdered"
-                      color="warn"
-                      matTooltip="Delete Photo">
-                <mat-icon>delete</mat-icon>
-              </button>
-            </div>
-          </mat-card-content>
-
-          <div class="ordered-badge" *ngIf="photo.isOrdered">
-            <mat-icon>check_circle</mat-icon>
-            Ordered
-          </div>
-        </mat-card>
+      <!-- Sorts and filters the API can't apply only cover the photos loaded so far -->
+      <div class="local-query-notice" *ngIf="sortedLocally && hasMore && totalPhotos > 0">
+        <mat-icon>hourglass_top</mat-icon>
+        <span>Loading library: {{ loadedCount }} of {{ totalPhotos }} photos sorted and filtered so far</span>
+        <button mat-button *ngIf="isCrawlPaused" (click)="loadMore()">Load More</button>
+      </div>
+
+      <!-- Photos Grid, streamed a page at a time and rendered only near the viewport -->
+      <div #gridArea>
+        <cdk-virtual-scroll-viewport class="gallery-viewport" *ngIf="rows.length > 0"
+                                     (scrolledIndexChange)="onScrolledIndexChange($event)">
+          <ng-container *cdkVirtualFor="let row of rows; trackBy: trackByRow; templateCacheSize: 0">
+            <h3 class="folder-heading" *ngIf="row.folder !== undefined; else photoRow">
+              <mat-icon>{{ row.folder ? 'folder' : 'photo_library' }}</mat-icon>
+              {{ row.folder || 'Other photos' }}
+              <span class="folder-count">{{ row.count }}</span>
+            </h3>
+
+            <ng-template #photoRow>
+              <div class="photos-row" [style.grid-template-columns]="'repeat(' + columns + ', minmax(0, 1fr))'">
+                <mat-card class="photo-card" *ngFor="let photo of row.photos; trackBy: trackByPhotoId"
+                          [class.selected]="selectedIds.has(photo.id)">
+                  <div class="photo-container" (click)="onPhotoClick(photo, $event)"
+                       [appLazyThumbnail]="photo.id"
+                       (thumbnailLoad)="onThumbnailLoad(photo, $event)"
+                       (thumbnailError)="onThumbnailError(photo.id, $event)">
+                    <div class="select-marker" *ngIf="selectionMode && !photo.isOrdered">
+                      <mat-icon>{{ selectedIds.has(photo.id) ? 'check_circle' : 'radio_button_unchecked' }}</mat-icon>
+                    </div>
+
+                    <!-- FIXED: Use authenticated blob URL with loading states -->
+                    <div *ngIf="!getPhotoImageUrl(photo.id)" class="photo-loading">
+                      <mat-spinner diameter="30"></mat-spinner>
+                    </div>
+
+                    <img *ngIf="getPhotoImageUrl(photo.id)"
+                         [src]="getPhotoImageUrl(photo.id)"
+                         [alt]="photo.filename"
+                         class="photo-thumbnail"
+                         [appExifOrientation]="photoOrientations.get(photo.id)"
+                         (error)="onImageError(photo.id)">
+
+                    <!-- Error state -->
+                    <div *ngIf="imageErrors.has(photo.id)" class="photo-error">
+                      <mat-icon>broken_image</mat-icon>
+                      <span>Image unavailable</span>
+                    </div>
+
+                    <div class="photo-overlay" *ngIf="getPhotoImageUrl(photo.id) && !imageErrors.has(photo.id) && !selectionMode">
+                      <mat-icon class="zoom-icon">zoom_in</mat-icon>
+                    </div>
+                  </div>
+
+                  <mat-card-content class="photo-info">
+                    <div class="photo-details">
+                      <span class="photo-name">{{ photo.filename }}</span>
+                      <span class="photo-size" *ngIf="getDisplayDimensions(photo) as size">{{ size.width }} × {{ size.height }}</span>
+                    </div>
+
+                    <div class="photo-actions">
+                      <button mat-icon-button (click)="selectForPrinting(photo)"
+                              [disabled]="photo.isOrdered"
+                              matTooltip="Add to Cart">
+                        <mat-icon>shopping_cart</mat-icon>
+                      </button>
+                      <button mat-icon-button (click)="deletePhoto(photo)"
+                              [disabled]="photo.isOrdered"
+                              color="warn"
+                              matTooltip="Delete Photo">
+                        <mat-icon>delete</mat-icon>
+                      </button>
+                    </div>
+                  </mat-card-content>
+
+                  <div class="ordered-badge" *ngIf="photo.isOrdered">
+                    <mat-icon>check_circle</mat-icon>
+                    Ordered
+                  </div>
+                </mat-card>
+              </div>
+            </ng-template>
+          </ng-container>
+        </cdk-virtual-scroll-viewport>
+      </div>
+
+      <!-- Actions for the selected photos -->
+      <div class="selection-bar" *ngIf="selectionMode">
+        <span class="selection-count">{{ selectedIds.size }} selected</span>
+        <button mat-button (click)="selectLoaded()" *ngIf="hasMore">Select Loaded ({{ selectableCount }})</button>
+        <button mat-button (click)="selectAll()" [disabled]="isSelectingAll">
+          Select All <ng-container *ngIf="!countIsPartial">({{ hasMore ? totalPhotos : selectableCount }})</ng-container>
+        </button>
+        <button mat-button (click)="clearSelection()" *ngIf="selectedIds.size > 0">Clear</button>
+        <button mat-raised-button color="primary"
+                [disabled]="selectedIds.size === 0 || isBulkWorking"
+                (click)="addSelectedToCart()">
+          <mat-icon>shopping_cart</mat-icon>
+          Add to Cart
+        </button>
+        <button mat-raised-button color="warn"
+                [disabled]="selectedIds.size === 0 || isBulkWorking"
+                (click)="deleteSelected()">
+          <mat-icon>delete</mat-icon>
+          Delete
+        </button>
+        <mat-spinner diameter="24" *ngIf="isBulkWorking || isSelectingAll"></mat-spinner>
       </div>
 
       <!-- Empty State -->
       <div class="empty-state" *ngIf="photos.length === 0 && !isLoading">
-        <mat-icon class="empty-icon">photo_library</mat-icon>
-        <h3>No Photos Yet</h3>
-        <p>Upload your first photos to start printing</p>
-        <button mat-raised-button color="primary" routerLink="/photos/upload">
-          <mat-icon>add</mat-icon>
-          Upload Photos
-        </button>
+        <ng-container *ngIf="hasFilters; else noPhotos">
+          <mat-icon class="empty-icon">search_off</mat-icon>
+          <h3>No Matching Photos</h3>
+          <p>Try a different search or fewer filters</p>
+          <button mat-raised-button (click)="clearFilters()">Clear Filters</button>
+        </ng-container>
+
+        <ng-template #noPhotos>
+          <mat-icon class="empty-icon">photo_library</mat-icon>
+          <h3>No Photos Yet</h3>
+          <p>Upload your first photos to start printing</p>
+          <button mat-raised-button color="primary" routerLink="/photos/upload">
+            <mat-icon>add</mat-icon>
+            Upload Photos
+          </button>
+        </ng-template>
       </div>
 
       <!-- Loading -->
-      <div class="loading-container" *ngIf="isLoading">
+      <div class="loading-container" *ngIf="isLoading && photos.length === 0">
         <mat-spinner></mat-spinner>
         <p>Loading photos...</p>
       </div>
-
-      <!-- Pagination -->
-      <mat-paginator
-        *ngIf="totalPhotos > pageSize"
-        [length]="totalPhotos"
-        [pageSize]="pageSize"
-        [pageSizeOptions]="[12, 24, 48]"
-        (page)="onPageChange($event)"
-        showFirstLastButtons>
-      </mat-paginator>
+      <mat-progress-bar mode="indeterminate" *ngIf="isLoading && photos.length > 0"></mat-progress-bar>
     </div>
   `,
+  providers: [
+    { provide: GalleryScrollStrategy, useFactory: () => new GalleryScrollStrategy(2 * PHOTO_ROW_HEIGHT) },
+    { provide: VIRTUAL_SCROLL_STRATEGY, useExisting: GalleryScrollStrategy }
+  ],
   styles: [`
     .gallery-container {
       max-width: 1200px;
@@ -125,15 +278,69 @@ import { PrintSelectorComponent } from '../print-selector/print-selector.compone
       margin-bottom: 20px;
     }
 
+    .header-actions {
+      display: flex;
+      gap: 8px;
+    }
+
+    .gallery-toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 16px;
+    }
+
+    .search-field {
+      flex: 1;
+      min-width: 220px;
+    }
+
+    .sort-control {
+      display: flex;
+      align-items: center;
+    }
+
     .gallery-stats {
       margin-bottom: 20px;
     }
 
-    .photos-grid {
+    .local-query-notice {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 16px;
+      color: #666;
+    }
+
+    .gallery-viewport {
+      height: calc(100vh - 220px);
+      min-height: 400px;
+    }
+
+    .folder-heading {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      height: 52px;
+      margin: 0;
+      box-sizing: border-box;
+      color: #444;
+      font-weight: 500;
+    }
+
+    .folder-count {
+      color: #999;
+      font-size: 0.85em;
+      font-weight: normal;
+    }
+
+    .photos-row {
       display: grid;
-      grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
       gap: 20px;
-      margin-bottom: 20px;
+      height: 300px;
+      padding-bottom: 20px;
+      box-sizing: border-box;
     }
 
     .photo-card {
@@ -147,6 +354,7 @@ import { PrintSelectorComponent } from '../print-selector/print-selector.compone
       height: 200px;
       cursor: pointer;
       overflow: hidden;
+      user-select: none;
       background: #f5f5f5;
       display: flex;
       align-items: center;
@@ -160,6 +368,49 @@ import { PrintSelectorComponent } from '../print-selector/print-selector.compone
       transition: transform 0.3s ease;
     }
 
+    .photo-card.selected {
+      outline: 3px solid #3f51b5;
+      outline-offset: -3px;
+    }
+
+    .select-marker {
+      position: absolute;
+      top: 8px;
+      left: 8px;
+      z-index: 1;
+      display: flex;
+      border-radius: 50%;
+      color: white;
+      background: rgba(0, 0, 0, 0.35);
+    }
+
+    .photo-card.selected .select-marker {
+      color: #3f51b5;
+      background: white;
+    }
+
+    .selection-bar {
+      position: fixed;
+      bottom: 24px;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 100;
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      max-width: calc(100vw - 32px);
+      padding: 8px 16px;
+      background: white;
+      border-radius: 28px;
+      box-shadow: 0 4px 16px rgba(0, 0, 0, 0.25);
+    }
+
+    .selection-count {
+      font-weight: 500;
+      margin-right: 8px;
+    }
+
     .photo-container:hover .photo-thumbnail {
       transform: scale(1.05);
     }
@@ -227,11 +478,15 @@ import { PrintSelectorComponent } from '../print-selector/print-selector.compone
       display: flex;
       flex-direction: column;
       flex: 1;
+      min-width: 0;
     }
 
     .photo-name {
       font-weight: 500;
       margin-bottom: 4px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
     }
 
     .photo-size {
@@ -278,11 +533,6 @@ import { PrintSelectorComponent } from '../print-selector/print-selector.compone
     }
 
     @media (max-width: 768px) {
-      .photos-grid {
-        grid-template-columns: repeat(auto-fill, minmax(250px, 1fr));
-        gap: 16px;
-      }
-
       .gallery-header {
         flex-direction: column;
         gap: 16px;
@@ -292,58 +542,204 @@ import { PrintSelectorComponent } from '../print-selector/print-selector.compone
   `]
 })
 export class PhotoGalleryComponent implements OnInit, OnDestroy {
-  photos: Photo[] = [];
+  @ViewChild('gridArea', { static: true }) gridArea!: ElementRef<HTMLElement>;
+  @ViewChild(CdkVirtualScrollViewport) viewport?: CdkVirtualScrollViewport;
+
+  photos: Photo[] = []; // Loaded photos that match the query, in its order
+  rows: GalleryRow[] = [];
+  private loaded: Photo[] = []; // Every photo fetched so far, in the API's order
+  columns = 1;
   totalPhotos = 0;
   availablePhotos = 0;
-  pageSize = 12;
-  currentPage = 1;
+  pageSize = 48;
   isLoading = false;
+  hasMore = true;
+  private nextPage = 1;
+  private crawlLimit = LOCAL_QUERY_BATCH;
+  private firstVisibleRow = 0;
+  private loadSubscription: Subscription | null = null;
+
+  // Sort, filters and search. The URL holds them; this is the last one read from it.
+  query: PhotoQuery = { ...PhotoQueryUtil.DEFAULT };
+  private hasQuery = false;
+  private apiQuery?: Partial<PhotoQuery>; // What the API applied to the loaded pages
+  private apiTakesQueries = false;
+  searchControl = new FormControl('', { nonNullable: true });
+  folders: string[] = [];
+  private apiFolders?: string[]; // Every folder, when the API lists them
+  printSizes: PrintSize[] = [];
+  readonly sortOptions: { value: PhotoSortField; label: string }[] = [
+    { value: 'uploadedAt', label: 'Upload date' },
+    { value: 'capturedAt', label: 'Date taken' },
+    { value: 'filename', label: 'Filename' },
+    { value: 'fileSize', label: 'File size' },
+    { value: 'resolution', label: 'Resolution' }
+  ];
+
+  // Multi-select: plain clicks toggle while selecting, Shift selects a range, Ctrl/Cmd toggles any time
+  selectionMode = false;
+  selectedIds = new Set<string>();
+  isBulkWorking = false;
+  isSelectingAll = false;
+  private selectionAnchor: string | null = null;
+
+  // Photo named in the URL that hasn't been loaded yet
+  private pendingPhotoId: string | null = null;
+  private previewRef: MatDialogRef<PhotoPreviewComponent> | null = null;
+  private destroy$ = new Subject<void>();
 
   // FIXED: Track image URLs and errors
   photoImageUrls = new Map<string, string>();
   imageErrors = new Set<string>();
+  photoOrientations = new Map<string, number>();
 
   constructor(
     private photoService: PhotoService,
+    private photoMetadataService: PhotoMetadataService,
+    private imageOptimizer: ImageOptimizerService,
+    private scrollStrategy: GalleryScrollStrategy,
     private dialog: MatDialog,
-    private snackBar: MatSnackBar
+    private snackBar: MatSnackBar,
+    private route: ActivatedRoute,
+    private router: Router,
+    private location: Location
   ) {}
 
   ngOnInit(): void {
-    this.loadPhotos();
+    this.columns = this.measureColumns();
+
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const query = PhotoQueryUtil.fromParams(params);
+        if (!this.hasQuery || !PhotoQueryUtil.equals(query, this.query)) {
+          this.hasQuery = true;
+          this.query = query;
+          if (this.searchControl.value.trim() !== (query.search ?? '')) {
+            this.searchControl.setValue(query.search ?? '', { emitEvent: false });
+          }
+          if (this.loaded.length === 0) {
+            this.reload();
+          } else {
+            this.onQueryChanged();
+          }
+        }
+
+        // ?photo=<id> opens that photo's preview, so previews can be linked to and closed with Back
+        const photoId = params.get('photo');
+        if (photoId) {
+          this.pendingPhotoId = photoId;
+          this.showPendingPhoto();
+        } else {
+          this.pendingPhotoId = null;
+          this.previewRef?.close();
+        }
+      });
+
+    this.searchControl.valueChanges
+      .pipe(
+        debounceTime(300),
+        map(search => search.trim()),
+        // Compared with the URL rather than the last value typed, which Back may have changed
+        filter(search => search !== (this.query.search ?? '')),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(search => this.updateQuery({ search: search || undefined }));
+
+    // A thumbnail dropped from the cache shows the spinner until its tile loads it again
+    this.photoService.cacheInvalidated$
+      .pipe(
+        filter((cacheKey): cacheKey is string => !!cacheKey?.endsWith('-thumbnail')),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(cacheKey => this.photoImageUrls.delete(cacheKey.slice(0, -'-thumbnail'.length)));
+
+    this.imageOptimizer.getPrintSizes()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(sizes => {
+        this.printSizes = sizes;
+        if (this.query.minPrintSize) {
+          this.applyQuery();
+        }
+      });
   }
 
   ngOnDestroy(): void {
-    // FIXED: Clean up blob URLs to prevent memory leaks
-    this.photoService.clearImageCache();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  @HostListener('document:keydown.escape')
+  onEscape(): void {
+    // Escape in a dialog closes the dialog, not the selection
+    if (this.selectionMode && this.dialog.openDialogs.length === 0) {
+      this.exitSelection();
+    }
+  }
+
+  @HostListener('window:resize')
+  onResize(): void {
+    this.updateColumns();
+  }
+
+  onScrolledIndexChange(index: number): void {
+    this.firstVisibleRow = index;
+    this.loadMoreIfNeeded();
   }
 
   trackByPhotoId(index: number, photo: Photo): string {
     return photo.id;
   }
 
-  loadPhotos(): void {
+  trackByRow(index: number, row: GalleryRow): string {
+    return row.folder !== undefined ? `folder:${index}` : row.photos[0].id;
+  }
+
+  /**
+   * Fetch the next page. Uploads since the last page shift photos already
+   * shown onto it; that overlap is dropped, and paging carries on from the
+   * server's page number even when a whole page was overlap.
+   */
+  private loadNextPage(): void {
+    if (this.isLoading || !this.hasMore) {
+      return;
+    }
+
     this.isLoading = true;
+    const page = this.nextPage;
 
-    this.photoService.getPhotos(this.currentPage, this.pageSize).subscribe({
+    this.loadSubscription = this.photoService.getPhotos(page, this.pageSize, this.query).subscribe({
       next: (response) => {
         this.isLoading = false;
         console.log('Gallery - Photos loaded:', response);
 
         if (response.success && response.data) {
-          this.photos = response.data.items;
+          const loaded = new Set(this.loaded.map(photo => photo.id));
+          const added = response.data.items.filter(photo => !loaded.has(photo.id));
+
+          this.loaded = [...this.loaded, ...added];
           this.totalPhotos = response.data.totalCount;
-          this.availablePhotos = this.photos.filter(p => !p.isOrdered).length;
+          this.nextPage = (response.data.page || page) + 1;
+          this.hasMore = response.data.hasNextPage;
+          this.apiQuery = response.data.query;
+          this.apiTakesQueries = !!response.data.query;
+          this.apiFolders = response.data.sourceFolders ?? this.apiFolders;
+          this.applyQuery();
 
-          // FIXED: Load authenticated image URLs for each photo
-          this.loadPhotoImages();
+          this.showPendingPhoto();
+          this.loadMoreIfNeeded();
+          if (this.isSelectingAll) {
+            this.selectAll();
+          }
         } else {
+          this.isSelectingAll = false;
           console.error('Gallery - API returned success=false:', response);
           this.snackBar.open('Failed to load photos: ' + response.message, 'Close', { duration: 5000 });
         }
       },
       error: (error) => {
         this.isLoading = false;
+        this.isSelectingAll = false;
         console.error('Gallery - Error loading photos:', error);
 
         let errorMessage = 'Failed to load photos';
@@ -359,21 +755,265 @@ export class PhotoGalleryComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * FIXED: Load authenticated image URLs for all photos.
+   * Start the list from the first page.
+   */
+  private reload(): void {
+    this.loadSubscription?.unsubscribe();
+    this.isLoading = false;
+    this.isSelectingAll = false;
+    this.loaded = [];
+    this.totalPhotos = 0;
+    this.hasMore = true;
+    this.nextPage = 1;
+    this.crawlLimit = LOCAL_QUERY_BATCH;
+    this.apiQuery = undefined;
+    this.firstVisibleRow = 0;
+    this.clearSelection();
+    this.applyQuery();
+    this.loadNextPage();
+  }
+
+  /**
+   * Show the photos for a new sort or filter, from the top. An API that takes
+   * queries lists them afresh; otherwise the photos already loaded are reused
+   * and more pages follow as needed.
    */
-  private loadPhotoImages(): void {
+  private onQueryChanged(): void {
+    if (this.apiTakesQueries) {
+      this.viewport?.scrollToOffset(0);
+      this.reload();
+      return;
+    }
+
+    this.isSelectingAll = false;
+    this.firstVisibleRow = 0;
+    this.clearSelection();
+    this.applyQuery();
+    this.viewport?.scrollToOffset(0);
+    this.loadMoreIfNeeded();
+  }
+
+  /**
+   * Show the loaded photos in the query's order. What the API couldn't apply
+   * is applied here, to the photos loaded so far, which reorders as pages arrive.
+   */
+  private applyQuery(): void {
+    this.photos = this.sortedLocally ? PhotoQueryUtil.apply(this.loaded, this.query, this.printSizes) : this.loaded;
+
+    if (this.apiFolders) {
+      this.folders = this.apiFolders;
+    } else {
+      const folders = new Set(this.loaded.map(photo => photo.sourceFolder).filter(folder => folder && folder !== 'Unknown'));
+      this.folders = Array.from(folders).sort((a, b) => a.localeCompare(b));
+    }
+
+    this.updateStats();
+    this.buildRows();
+  }
+
+  get photoCount(): number {
+    return this.hasFilters && this.sortedLocally ? this.photos.length : this.totalPhotos;
+  }
+
+  /**
+   * Whether the count only covers the photos loaded so far.
+   */
+  get countIsPartial(): boolean {
+    return this.hasFilters && this.sortedLocally && this.hasMore;
+  }
+
+  /**
+   * Whether some of the query is left for the gallery to apply.
+   */
+  get sortedLocally(): boolean {
+    return !PhotoQueryUtil.isApplied(this.query, this.apiQuery);
+  }
+
+  get loadedCount(): number {
+    return this.loaded.length;
+  }
+
+  /**
+   * Whether fetching for a local sort or filter has stopped to ask before going on.
+   */
+  get isCrawlPaused(): boolean {
+    return this.sortedLocally && this.hasMore && this.loaded.length >= this.crawlLimit;
+  }
+
+  loadMore(): void {
+    this.crawlLimit = this.loaded.length + LOCAL_QUERY_BATCH;
+    this.loadMoreIfNeeded();
+  }
+
+  /**
+   * Change sort or filters by updating the URL; the list follows the URL.
+   * Typing a search replaces the history entry rather than adding one per word.
+   */
+  updateQuery(changes: Partial<PhotoQuery>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: PhotoQueryUtil.toParams({ ...this.query, ...changes }),
+      queryParamsHandling: 'merge',
+      replaceUrl: 'search' in changes
+    });
+  }
+
+  setSort(sortBy: PhotoSortField): void {
+    this.updateQuery({ sortBy, sortDirection: PhotoQueryUtil.defaultDirection(sortBy) });
+  }
+
+  toggleSortDirection(): void {
+    this.updateQuery({ sortDirection: this.query.sortDirection === 'asc' ? 'desc' : 'asc' });
+  }
+
+  clearFilters(): void {
+    this.searchControl.setValue('', { emitEvent: false });
+    this.updateQuery({
+      search: undefined,
+      isOrdered: undefined,
+      orientation: undefined,
+      sourceFolder: undefined,
+      minPrintSize: undefined
+    });
+  }
+
+  get hasFilters(): boolean {
+    return PhotoQueryUtil.hasFilters(this.query);
+  }
+
+  /**
+   * Folders to filter by, including one from a shared link that isn't in the list.
+   */
+  get folderOptions(): string[] {
+    const folder = this.query.sourceFolder;
+    return folder && !this.folders.includes(folder) ? [folder, ...this.folders] : this.folders;
+  }
+
+  /**
+   * Photos in the API's order load as the user nears the end. A local sort
+   * or filter keeps fetching in the background, a batch at a time, because
+   * any page may hold photos that belong at the top.
+   */
+  private loadMoreIfNeeded(): void {
+    const wanted = this.sortedLocally
+      ? this.loaded.length < this.crawlLimit
+      : this.firstVisibleRow + ROWS_AHEAD >= this.rows.length;
+    if (wanted) {
+      this.loadNextPage();
+    }
+  }
+
+  /**
+   * Thumbnails load as their tiles near the viewport - see LazyThumbnailDirective.
+   */
+  onThumbnailLoad(photo: Photo, blobUrl: string): void {
+    this.photoImageUrls.set(photo.id, blobUrl);
+    this.imageErrors.delete(photo.id);
+
+    // Thumbnails are stored unrotated; show them the way the camera was held
+    if (!this.photoOrientations.has(photo.id)) {
+      this.photoMetadataService.getOrientation(photo, blobUrl).subscribe(orientation => {
+        this.photoOrientations.set(photo.id, orientation);
+      });
+    }
+  }
+
+  onThumbnailError(photoId: string, error: unknown): void {
+    console.error(`Gallery - Failed to load image for ${photoId}:`, error);
+    this.imageErrors.add(photoId);
+  }
+
+  /**
+   * Fit as many cards across as the viewport allows, keeping the photo at
+   * the top of the view in place when the count changes.
+   */
+  private updateColumns(): void {
+    const columns = this.measureColumns();
+    if (columns === this.columns) {
+      return;
+    }
+
+    const topPhoto = this.rows[this.firstVisibleRow]?.photos[0];
+    this.columns = columns;
+    this.buildRows();
+
+    if (topPhoto) {
+      this.scrollToPhoto(topPhoto.id);
+    }
+  }
+
+  private measureColumns(): number {
+    const width = this.gridArea.nativeElement.clientWidth;
+    return Math.max(1, Math.floor((width + CARD_GAP) / (MIN_CARD_WIDTH + CARD_GAP)));
+  }
+
+  /**
+   * Lay photos out in rows, with a heading wherever the source folder
+   * changes. Consecutive runs are grouped rather than whole folders, so
+   * later pages only ever add rows at the end and the view never jumps.
+   * Only upload order keeps a folder's photos together, so other sorts
+   * show no headings.
+   */
+  private buildRows(): void {
+    const grouped = this.query.sortBy === 'uploadedAt';
+    const rows: GalleryRow[] = [];
+    let heading: GalleryRow | null = null;
+    let current: GalleryRow | null = null;
+    let currentFolder: string | null = null;
+
     this.photos.forEach(photo => {
-      this.photoService.getThumbnailUrl(photo.id).subscribe({
-        next: (blobUrl) => {
-          this.photoImageUrls.set(photo.id, blobUrl);
-          console.log(`Gallery - Loaded image for ${photo.id}`);
-        },
-        error: (error) => {
-          console.error(`Gallery - Failed to load image for ${photo.id}:`, error);
-          this.imageErrors.add(photo.id);
+      const folder = grouped && photo.sourceFolder && photo.sourceFolder !== 'Unknown' ? photo.sourceFolder : '';
+
+      if (folder !== currentFolder) {
+        // Ungrouped photos only need a heading to set them apart from a folder above
+        heading = folder || currentFolder ? { folder, count: 0, photos: [] } : null;
+        if (heading) {
+          rows.push(heading);
         }
-      });
+        currentFolder = folder;
+        current = null;
+      }
+
+      if (!current || current.photos.length === this.columns) {
+        current = { photos: [] };
+        rows.push(current);
+      }
+      current.photos.push(photo);
+      if (heading) {
+        heading.count!++;
+      }
     });
+
+    this.rows = rows;
+    this.scrollStrategy.setRowHeights(rows.map(row => row.folder !== undefined ? HEADING_HEIGHT : PHOTO_ROW_HEIGHT));
+  }
+
+  /**
+   * Bring a photo's row to the top, unless it's already in view.
+   */
+  private scrollToPhoto(photoId: string, onlyIfHidden = false): void {
+    const index = this.rows.findIndex(row => row.photos.some(photo => photo.id === photoId));
+    if (index < 0) {
+      return;
+    }
+
+    // Wait for the viewport to take the new content height before scrolling
+    setTimeout(() => {
+      if (!this.viewport) {
+        return;
+      }
+
+      const top = this.viewport.measureScrollOffset();
+      const firstVisible = this.scrollStrategy.rowAt(top);
+      const lastVisible = this.scrollStrategy.rowAt(top + this.viewport.getViewportSize() - PHOTO_ROW_HEIGHT);
+      if (!onlyIfHidden || index < firstVisible || index > lastVisible) {
+        this.viewport.scrollToIndex(index);
+      }
+    });
+  }
+
+  private updateStats(): void {
+    this.availablePhotos = this.photos.filter(p => !p.isOrdered).length;
   }
 
   /**
@@ -383,6 +1023,10 @@ export class PhotoGalleryComponent implements OnInit, OnDestroy {
     return this.photoImageUrls.get(photoId) || null;
   }
 
+  getDisplayDimensions(photo: Photo): { width: number; height: number } {
+    return this.photoMetadataService.getOrientedDimensions(photo, this.photoOrientations.get(photo.id));
+  }
+
   /**
    * FIXED: Handle image loading errors.
    */
@@ -391,31 +1035,69 @@ export class PhotoGalleryComponent implements OnInit, OnDestroy {
     this.imageErrors.add(photoId);
   }
 
-  onPageChange(event: PageEvent): void {
-    this.currentPage = event.pageIndex + 1;
-    this.pageSize = event.pageSize;
+  openPhotoPreview(photo: Photo): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { photo: photo.id },
+      queryParamsHandling: 'merge'
+    });
+  }
 
-    // Clear current images
-    this.photoImageUrls.clear();
-    this.imageErrors.clear();
+  /**
+   * Open the preview for the photo in the URL, paging through the library
+   * until it turns up.
+   */
+  private showPendingPhoto(): void {
+    const photoId = this.pendingPhotoId;
+    if (!photoId || this.previewRef) {
+      return;
+    }
 
-    this.loadPhotos();
+    // Loaded is enough - a linked photo opens even if the filters hide it
+    const photo = this.loaded.find(p => p.id === photoId);
+    if (photo) {
+      this.pendingPhotoId = null;
+      this.scrollToPhoto(photo.id, true);
+      this.showPreview(photo);
+    } else if (this.hasMore) {
+      this.loadNextPage();
+    } else if (!this.isLoading) {
+      this.pendingPhotoId = null;
+      this.snackBar.open('That photo could not be found', 'Close', { duration: 5000 });
+      this.clearPhotoParam();
+    }
   }
 
-  openPhotoPreview(photo: Photo): void {
-    const dialogRef = this.dialog.open(PhotoPreviewComponent, {
+  private showPreview(photo: Photo): void {
+    this.previewRef = this.dialog.open(PhotoPreviewComponent, {
       data: photo,
       maxWidth: '90vw',
       maxHeight: '90vh'
     });
 
-    dialogRef.afterClosed().subscribe(result => {
+    this.previewRef.afterClosed().subscribe(result => {
+      this.previewRef = null;
+
+      // Closed from the dialog rather than with Back - take the photo out of the URL
+      if (this.router.parseUrl(this.location.path()).queryParamMap.get('photo') === photo.id) {
+        this.clearPhotoParam();
+      }
+
       if (result?.action === 'addToCart') {
         this.selectForPrinting(result.photo);
       }
     });
   }
 
+  private clearPhotoParam(): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { photo: null },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
   selectForPrinting(photo: Photo): void {
     console.log('Gallery - Selecting photo for printing:', photo);
 
@@ -429,7 +1111,6 @@ export class PhotoGalleryComponent implements OnInit, OnDestroy {
     dialogRef.afterClosed().subscribe(result => {
       if (result?.action === 'added') {
         this.snackBar.open('Photo added to cart successfully!', 'Close', { duration: 3000 });
-        this.loadPhotos();
       }
     });
   }
@@ -440,7 +1121,7 @@ export class PhotoGalleryComponent implements OnInit, OnDestroy {
         next: (response) => {
           if (response.success) {
             this.snackBar.open('Photo deleted successfully', 'Close', { duration: 3000 });
-            this.loadPhotos();
+            this.removePhotos([photo.id]);
           } else {
             this.snackBar.open('Failed to delete photo: ' + response.message, 'Close', { duration: 5000 });
           }
@@ -452,4 +1133,177 @@ export class PhotoGalleryComponent implements OnInit, OnDestroy {
       });
     }
   }
+
+  /**
+   * Drop deleted photos in place rather than reloading, so the scroll position holds.
+   */
+  private removePhotos(photoIds: string[]): void {
+    const removed = new Set(photoIds);
+
+    this.loaded = this.loaded.filter(p => !removed.has(p.id));
+    this.totalPhotos -= removed.size;
+
+    // Later photos move up into the gap; step back so none are skipped
+    this.nextPage = Math.min(this.nextPage, Math.floor(this.loaded.length / this.pageSize) + 1);
+    removed.forEach(id => {
+      this.photoImageUrls.delete(id);
+      this.imageErrors.delete(id);
+      this.selectedIds.delete(id);
+    });
+    this.applyQuery();
+    this.loadMoreIfNeeded();
+  }
+
+  get selectableCount(): number {
+    return this.photos.filter(photo => !photo.isOrdered).length;
+  }
+
+  startSelection(): void {
+    this.selectionMode = true;
+  }
+
+  exitSelection(): void {
+    this.selectionMode = false;
+    this.isSelectingAll = false;
+    this.clearSelection();
+  }
+
+  clearSelection(): void {
+    this.selectedIds.clear();
+    this.selectionAnchor = null;
+  }
+
+  /**
+   * Outside selection mode a click opens the preview; Ctrl/Cmd or Shift
+   * starts selecting instead. Ordered photos can't be changed, so they
+   * can't be selected.
+   */
+  onPhotoClick(photo: Photo, event: MouseEvent): void {
+    const toggle = event.ctrlKey || event.metaKey;
+    if (!this.selectionMode && !toggle && !event.shiftKey) {
+      this.openPhotoPreview(photo);
+      return;
+    }
+
+    this.selectionMode = true;
+    if (photo.isOrdered) {
+      return;
+    }
+
+    if (event.shiftKey && this.selectionAnchor) {
+      this.selectRange(this.selectionAnchor, photo.id);
+      return;
+    }
+
+    if (this.selectedIds.has(photo.id)) {
+      this.selectedIds.delete(photo.id);
+    } else {
+      this.selectedIds.add(photo.id);
+    }
+    this.selectionAnchor = photo.id;
+  }
+
+  /**
+   * Add every photo between the two, inclusive, in gallery order.
+   */
+  private selectRange(fromId: string, toId: string): void {
+    const from = this.photos.findIndex(photo => photo.id === fromId);
+    const to = this.photos.findIndex(photo => photo.id === toId);
+    if (from < 0 || to < 0) {
+      return;
+    }
+
+    this.photos
+      .slice(Math.min(from, to), Math.max(from, to) + 1)
+      .filter(photo => !photo.isOrdered)
+      .forEach(photo => this.selectedIds.add(photo.id));
+  }
+
+  selectLoaded(): void {
+    this.photos
+      .filter(photo => !photo.isOrdered)
+      .forEach(photo => this.selectedIds.add(photo.id));
+  }
+
+  /**
+   * Select the whole library, loading the pages not yet seen first.
+   */
+  selectAll(): void {
+    if (this.hasMore) {
+      this.isSelectingAll = true;
+      this.loadNextPage();
+      return;
+    }
+
+    this.isSelectingAll = false;
+    this.selectLoaded();
+  }
+
+  /**
+   * One print configuration for every selected photo.
+   */
+  addSelectedToCart(): void {
+    const photos = this.photos.filter(photo => this.selectedIds.has(photo.id));
+    const data: BulkPrintSelection = { photos };
+
+    const dialogRef = this.dialog.open(PrintSelectorComponent, {
+      data,
+      width: '600px',
+      maxHeight: '80vh'
+    });
+
+    dialogRef.afterClosed().subscribe(result => {
+      if (result?.action !== 'added') {
+        return;
+      }
+
+      // A single photo goes through the dialog's usual path, with no summary
+      const succeeded: string[] = result.result?.succeeded ?? photos.map(photo => photo.id);
+      const failed: { id: string; message: string }[] = result.result?.failed ?? [];
+
+      succeeded.forEach(id => this.selectedIds.delete(id));
+      if (failed.length === 0) {
+        this.snackBar.open(`Added ${this.countPhotos(succeeded.length)} to cart`, 'Close', { duration: 3000 });
+        this.exitSelection();
+      } else {
+        this.snackBar.open(
+          `Added ${this.countPhotos(succeeded.length)} to cart. ${this.countPhotos(failed.length)} could not be added: ${failed[0].message}`,
+          'Close',
+          { duration: 8000 }
+        );
+      }
+    });
+  }
+
+  /**
+   * Delete every selected photo after one confirmation. Photos that fail
+   * stay selected so they can be tried again.
+   */
+  deleteSelected(): void {
+    const photoIds = Array.from(this.selectedIds);
+    if (!confirm(`Are you sure you want to delete ${this.countPhotos(photoIds.length)}?`)) {
+      return;
+    }
+
+    this.isBulkWorking = true;
+    this.photoService.deletePhotos(photoIds).subscribe(result => {
+      this.isBulkWorking = false;
+      this.removePhotos(result.succeeded);
+
+      if (result.failed.length === 0) {
+        this.snackBar.open(`Deleted ${this.countPhotos(result.succeeded.length)}`, 'Close', { duration: 3000 });
+        this.exitSelection();
+      } else {
+        this.snackBar.open(
+          `Deleted ${this.countPhotos(result.succeeded.length)}. ${this.countPhotos(result.failed.length)} could not be deleted: ${result.failed[0].message}`,
+          'Close',
+          { duration: 8000 }
+        );
+      }
+    });
+  }
+
+  private countPhotos(count: number): string {
+    return `${count} photo${count === 1 ? '' : 's'}`;
+  }
 }
@@ -2,8 +2,10 @@
 import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
 import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
 import { Subject, takeUntil } from 'rxjs';
+import { PhotoMetadataService } from '../../../core/services/photo-metadata.service';
 import { PhotoService } from '../../../core/services/photo.service';
-import { Photo } from '../../../shared/models/photo.models';
+import { Photo, PhotoMetadata } from '../../../shared/models/photo.models';
+import { ExifUtil } from '../../../shared/utils/exif.util';
 
 @Component({
   selector: 'app-photo-preview',
@@ -45,7 +47,7 @@ import { Photo } from '../../../shared/models/photo.models';
       <div class="preview-info">
         <div class="info-row">
           <span class="label">Dimensions:</span>
-          <span>{{ photo.dimensions.width }} × {{ photo.dimensions.height }} pixels</span>
+          <span>{{ displayDimensions.width }} × {{ displayDimensions.height }} pixels</span>
         </div>
         <div class="info-row">
           <span class="label">File Size:</span>
@@ -61,6 +63,44 @@ import { Photo } from '../../../shared/models/photo.models';
         </div>
       </div>
 
+      <!-- Camera details from EXIF -->
+      <div class="preview-info metadata-panel" *ngIf="metadataLoaded">
+        <h4 class="metadata-title">
+          <mat-icon>photo_camera</mat-icon>
+          Camera Details
+        </h4>
+
+        <p *ngIf="!hasCameraDetails" class="metadata-empty">This photo doesn't include camera details.</p>
+
+        <ng-container *ngIf="metadata && hasCameraDetails">
+          <div class="info-row" *ngIf="metadata.capturedAt">
+            <span class="label">Taken:</span>
+            <span>{{ formatDate(metadata.capturedAt) }}</span>
+          </div>
+          <div class="info-row" *ngIf="cameraName">
+            <span class="label">Camera:</span>
+            <span>{{ cameraName }}</span>
+          </div>
+          <div class="info-row" *ngIf="metadata.lensModel">
+            <span class="label">Lens:</span>
+            <span>{{ metadata.lensModel }}</span>
+          </div>
+          <div class="info-row" *ngIf="exposureSummary">
+            <span class="label">Exposure:</span>
+            <span>{{ exposureSummary }}</span>
+          </div>
+          <div class="info-row" *ngIf="metadata.gps as gps">
+            <span class="label">Location:</span>
+            <span>
+              {{ gps.latitude | number:'1.4-4' }}, {{ gps.longitude | number:'1.4-4' }}
+              <a [href]="getMapUrl(gps.latitude, gps.longitude)" target="_blank" rel="noopener noreferrer">
+                View map
+              </a>
+            </span>
+          </div>
+        </ng-container>
+      </div>
+
       <div class="preview-actions">
         <button mat-button (click)="close()">Close</button>
         <button mat-raised-button color="primary"
@@ -150,6 +190,26 @@ import { Photo } from '../../../shared/models/photo.models';
       color: #666;
     }
 
+    .metadata-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 0 0 12px 0;
+      font-weight: 500;
+      color: #333;
+    }
+
+    .metadata-title mat-icon {
+      font-size: 20px;
+      width: 20px;
+      height: 20px;
+    }
+
+    .metadata-empty {
+      margin: 0;
+      color: #999;
+    }
+
     .preview-actions {
       display: flex;
       justify-content: flex-end;
@@ -186,13 +246,16 @@ export class PhotoPreviewComponent implements OnInit, OnDestroy {
   imageLoading = true;
   imageError = false;
   imageUrl: string | null = null;
+  metadata: PhotoMetadata | null = null;
+  metadataLoaded = false;
   private loadAttempts = 0;
   private readonly maxLoadAttempts = 3;
 
   constructor(
     @Inject(MAT_DIALOG_DATA) public photo: Photo,
     private dialogRef: MatDialogRef<PhotoPreviewComponent>,
-    private photoService: PhotoService
+    private photoService: PhotoService,
+    private photoMetadataService: PhotoMetadataService
   ) {}
 
   ngOnInit(): void {
@@ -204,11 +267,6 @@ export class PhotoPreviewComponent implements OnInit, OnDestroy {
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
-
-    // Clean up blob URL
-    if (this.imageUrl) {
-      URL.revokeObjectURL(this.imageUrl);
-    }
   }
 
   /**
@@ -250,6 +308,7 @@ export class PhotoPreviewComponent implements OnInit, OnDestroy {
           this.imageUrl = url;
           this.imageLoading = false;
           console.log('PhotoPreview - Image loaded successfully:', url);
+          this.loadMetadata();
         },
         error: (error) => {
           console.error('PhotoPreview - Failed to load image:', error);
@@ -265,6 +324,59 @@ export class PhotoPreviewComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Read camera details once the original is available; it's already downloaded for display.
+   */
+  private loadMetadata(): void {
+    if (this.metadataLoaded) {
+      return;
+    }
+
+    this.photoMetadataService.getMetadata(this.photo)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(metadata => {
+        this.metadata = metadata;
+        this.metadataLoaded = true;
+      });
+  }
+
+  get displayDimensions(): { width: number; height: number } {
+    return this.photoMetadataService.getOrientedDimensions(this.photo, this.metadata?.orientation);
+  }
+
+  get hasCameraDetails(): boolean {
+    const m = this.metadata;
+    return !!m && !!(m.capturedAt || m.cameraMake || m.cameraModel || m.lensModel || this.exposureSummary || m.gps);
+  }
+
+  /**
+   * Make and model without repeating the brand, e.g. "Canon EOS R6" rather than "Canon Canon EOS R6".
+   */
+  get cameraName(): string {
+    const make = this.metadata?.cameraMake ?? '';
+    const model = this.metadata?.cameraModel ?? '';
+    if (model.toLowerCase().startsWith(make.toLowerCase())) {
+      return model;
+    }
+    return `${make} ${model}`.trim();
+  }
+
+  get exposureSummary(): string {
+    const m = this.metadata;
+    if (!m) return '';
+
+    const parts: string[] = [];
+    if (m.exposureTime) parts.push(ExifUtil.formatExposureTime(m.exposureTime));
+    if (m.fNumber) parts.push(`f/${parseFloat(m.fNumber.toFixed(1))}`);
+    if (m.iso) parts.push(`ISO ${m.iso}`);
+    if (m.focalLength) parts.push(`${parseFloat(m.focalLength.toFixed(1))} mm`);
+    return parts.join(' · ');
+  }
+
+  getMapUrl(latitude: number, longitude: number): string {
+    return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=15/${latitude}/${longitude}`;
+  }
+
   /**
    * Manual retry for image loading
    */
@@ -309,7 +421,8 @@ export class PhotoPreviewComponent implements OnInit, OnDestroy {
       thumbnailUrl: this.photo.thumbnailUrl,
       downloadUrl: this.photo.downloadUrl,
       isOrdered: this.photo.isOrdered,
-      sourceFolder: this.photo.sourceFolder
+      sourceFolder: this.photo.sourceFolder,
+      metadata: this.photo.metadata ?? this.metadata ?? undefined
     };
 
     console.log('PhotoPreview - Passing photo data to cart:', photoData);
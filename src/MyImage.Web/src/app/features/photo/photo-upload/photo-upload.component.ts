@@ -1,7 +1,31 @@
-import { Component, OnDestroy } from '@angular/core';
+import { CdkDragDrop } from '@angular/cdk/drag-drop';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { ChunkedUploadService, UploadSession } from '../../../core/services/chunked-upload.service';
+import { DuplicateDetectionService, DuplicateMatch } from '../../../core/services/duplicate-detection.service';
+import { UploadProgress } from '../../../core/services/file-upload.service';
+import { ConversionFailure, ImageConverterService } from '../../../core/services/image-converter.service';
+import { ImageOptimizerService, OptimizationPlan } from '../../../core/services/image-optimizer.service';
+import { NotificationService } from '../../../core/services/notification.service';
 import { PhotoService } from '../../../core/services/photo.service';
+import { PrintQualityService } from '../../../core/services/print-quality.service';
+import { UploadQueueItem, UploadQueueService, UploadQueueSummary } from '../../../core/services/upload-queue.service';
+import { ExistingPhotoMatch, FailedUpload, PhotoUploadResult } from '../../../shared/models/photo.models';
+import { ImageAnalysis } from '../../../shared/models/print-quality.models';
+import { PrintSize } from '../../../shared/models/print-size.models';
+import { FolderScanResult, FolderScanUtil, ScannedFile } from '../../../shared/utils/folder-scan.util';
+import { PrintQualityUtil } from '../../../shared/utils/print-quality.util';
+import { UploadReportUtil } from '../../../shared/utils/upload-report.util';
+
+// A print-quality finding shown on a thumbnail
+interface QualityBadge {
+  icon: string;
+  tooltip: string;
+  level: 'ok' | 'warn' | 'bad';
+}
 
 /**
  * Fixed PhotoUploadComponent with proper blob URL lifecycle management.
@@ -11,6 +35,7 @@ import { PhotoService } from '../../../core/services/photo.service';
  * - Don't cleanup blob URLs immediately after upload success
  * - Only cleanup when user explicitly clears or component is destroyed
  * - Better error handling and user feedback
+ * - Uploads run in UploadQueueService, so leaving this page doesn't stop them
  */
 @Component({
   selector: 'app-photo-upload',
@@ -20,12 +45,50 @@ import { PhotoService } from '../../../core/services/photo.service';
       <mat-card class="upload-card">
         <mat-card-header>
           <mat-card-title>Upload Photos</mat-card-title>
-          <mat-card-subtitle>Select JPEG files from your computer</mat-card-subtitle>
+          <mat-card-subtitle>Select photos from your computer</mat-card-subtitle>
         </mat-card-header>
 
         <mat-card-content>
+          <!-- Uploads interrupted earlier, e.g. by a closed tab -->
+          <div class="interrupted-uploads" *ngIf="interruptedUploads.length > 0 && queueItems.length === 0">
+            <h5><mat-icon>history</mat-icon> Unfinished uploads</h5>
+            <p>Select the same files again to continue where they stopped.</p>
+            <div class="interrupted-item" *ngFor="let session of interruptedUploads">
+              <span class="file-name">{{ session.filename }}</span>
+              <span class="file-size">
+                {{ formatFileSize(session.receivedBytes) }} of {{ formatFileSize(session.fileSize) }}
+              </span>
+              <button mat-icon-button (click)="discardInterrupted(session)" matTooltip="Discard">
+                <mat-icon>delete_outline</mat-icon>
+              </button>
+            </div>
+          </div>
+
+          <!-- Files that couldn't be turned into JPEGs -->
+          <div class="conversion-failures" *ngIf="conversionFailures.length > 0">
+            <div class="conversion-failures-header">
+              <h5>
+                <mat-icon>warning</mat-icon>
+                {{ conversionFailures.length }} {{ conversionFailures.length === 1 ? 'file' : 'files' }}
+                could not be converted to JPEG
+              </h5>
+              <button mat-icon-button (click)="conversionFailures = []" matTooltip="Dismiss">
+                <mat-icon>close</mat-icon>
+              </button>
+            </div>
+            <ul>
+              <li *ngFor="let failure of conversionFailures">{{ failure.filename }}: {{ failure.reason }}</li>
+            </ul>
+          </div>
+
+          <!-- Conversion of PNG, WebP and TIFF files -->
+          <div class="converting" *ngIf="isConverting">
+            <p>Converting {{ convertedCount }} of {{ conversionTotal }} files to JPEG...</p>
+            <mat-progress-bar [value]="100 * convertedCount / conversionTotal" mode="determinate"></mat-progress-bar>
+          </div>
+
           <!-- Folder Selection -->
-          <div class="folder-section" *ngIf="!isUploading && selectedFiles.length === 0 && !uploadComplete">
+          <div class="folder-section" *ngIf="selectedFiles.length === 0 && !uploadComplete && !isConverting">
             <div class="drop-zone"
                  (click)="fileInput.click()"
                  (dragover)="onDragOver($event)"
@@ -34,29 +97,73 @@ import { PhotoService } from '../../../core/services/photo.service';
                  [class.drag-over]="isDragOver">
               <mat-icon class="upload-icon">cloud_upload</mat-icon>
               <h3>Choose Photos to Upload</h3>
-              <p>Click here to browse for photos or drag and drop JPEG files</p>
-              <p class="file-info">Maximum 50MB per file • JPEG format only</p>
+              <p>Click here to browse for photos or drag and drop photos or whole folders</p>
+              <p class="file-info">Maximum 50MB per file • JPEG, PNG, WebP or TIFF (converted to JPEG)</p>
+              <button mat-stroked-button type="button" (click)="$event.stopPropagation(); folderInput.click()">
+                <mat-icon>folder_open</mat-icon>
+                Choose a Folder
+              </button>
 
               <input #fileInput
                      type="file"
                      multiple
-                     accept=".jpg,.jpeg"
+                     accept=".jpg,.jpeg,.png,.webp,.tif,.tiff"
+                     (change)="onFileSelect($event)"
+                     style="display: none">
+              <!-- Sub-folders come along; each photo keeps the folder it was in -->
+              <input #folderInput
+                     type="file"
+                     webkitdirectory
+                     multiple
                      (change)="onFileSelect($event)"
                      style="display: none">
             </div>
           </div>
 
           <!-- File Selection Display -->
-          <div class="file-selection" *ngIf="selectedFiles.length > 0 && !isUploading && !uploadComplete">
-            <h4>Selected Files ({{ selectedFiles.length }} files)</h4>
+          <div class="file-selection" *ngIf="selectedFiles.length > 0">
+            <h4>
+              Selected Files ({{ selectedFiles.length }} files<ng-container *ngIf="folderCount > 0">
+              from {{ folderCount }} {{ folderCount === 1 ? 'folder' : 'folders' }}</ng-container>)
+            </h4>
             <div class="file-list">
               <div class="file-item"
                    *ngFor="let fileData of fileDataArray; let i = index; trackBy: trackByIndex">
                 <!-- Use cached preview URL -->
-                <img [src]="fileData.previewUrl" class="file-preview" alt="Preview">
+                <div class="preview-wrapper">
+                  <img [src]="fileData.previewUrl" class="file-preview" alt="Preview">
+                  <div class="quality-badges" *ngIf="qualityBadges.get(fileData.file) as badges">
+                    <span *ngFor="let badge of badges" class="quality-badge" [ngClass]="badge.level"
+                          [matTooltip]="badge.tooltip">
+                      <mat-icon>{{ badge.icon }}</mat-icon>
+                    </span>
+                  </div>
+                </div>
                 <div class="file-info">
                   <span class="file-name">{{ fileData.file.name }}</span>
-                  <span class="file-size">{{ formatFileSize(fileData.file.size) }}</span>
+                  <span class="quality-summary" *ngIf="qualitySummaries.get(fileData.file) as summary">{{ summary }}</span>
+                  <span class="folder-tag" *ngIf="getFolder(fileData.file) as folder">
+                    <mat-icon>folder</mat-icon>{{ folder }}
+                  </span>
+                  <span class="file-size">
+                    {{ formatFileSize(fileData.file.size) }}
+                    <span *ngIf="optimizeForPrint && getPlan(fileData.file)?.worthwhile" class="optimize-tag">
+                      → ~{{ formatFileSize(getPlan(fileData.file)!.estimatedBytes) }}
+                    </span>
+                    <span *ngIf="convertedFrom.get(fileData.file) as format" class="convert-tag">
+                      • converted from {{ format }}
+                    </span>
+                    <span *ngIf="canResume(fileData.file)" class="resume-tag">• will resume</span>
+                  </span>
+                  <span class="duplicate-flag" *ngIf="getDuplicate(fileData.file) as duplicate">
+                    <mat-icon>content_copy</mat-icon>
+                    {{ duplicate.source === 'existing' ? 'Already uploaded as' : 'Same photo as' }}
+                    {{ duplicate.duplicateOf }}
+                    <button mat-button color="primary" class="duplicate-toggle"
+                            (click)="toggleUploadAnyway(fileData.file)">
+                      {{ uploadAnyway.has(fileData.file) ? 'Skip' : 'Upload anyway' }}
+                    </button>
+                  </span>
                 </div>
                 <button mat-icon-button (click)="removeFile(i)" color="warn">
                   <mat-icon>close</mat-icon>
@@ -64,38 +171,168 @@ import { PhotoService } from '../../../core/services/photo.service';
               </div>
             </div>
 
+            <!-- Optional shrinking to print resolution -->
+            <div class="optimize-panel" *ngIf="printSizes.length > 0">
+              <mat-checkbox [(ngModel)]="optimizeForPrint" [disabled]="isOptimizing">
+                Shrink photos to the size our largest print needs
+              </mat-checkbox>
+              <p class="optimize-detail" *ngIf="isPlanning">Checking photo sizes...</p>
+              <ng-container *ngIf="!isPlanning">
+                <p class="optimize-detail" *ngIf="savings.count > 0">
+                  {{ savings.count }} of {{ selectedFiles.length }} photos are larger than any print needs.
+                  Estimated upload: {{ formatFileSize(savings.optimizedBytes) }}
+                  instead of {{ formatFileSize(savings.originalBytes) }} (about {{ savings.percent }}% less).
+                </p>
+                <p class="optimize-detail" *ngIf="savings.count === 0">
+                  These photos are already at print size - there's nothing to shrink.
+                </p>
+              </ng-container>
+              <p class="optimize-note">
+                Every print size keeps full quality. Shrunk copies keep the capture date, camera details and location
+                from the original; the files on your computer aren't changed.
+              </p>
+            </div>
+
+            <p class="duplicate-summary" *ngIf="isCheckingDuplicates">
+              Checking for photos you've already uploaded ({{ hashedCount }} of {{ selectedFiles.length }})...
+            </p>
+            <p class="duplicate-summary" *ngIf="!isCheckingDuplicates && skippedCount > 0">
+              <mat-icon>content_copy</mat-icon>
+              {{ skippedCount }} duplicate {{ skippedCount === 1 ? 'photo' : 'photos' }} will be skipped.
+            </p>
+
             <div class="upload-actions">
-              <button mat-button (click)="clearSelection()">Clear All</button>
-              <button mat-raised-button color="primary" (click)="startUpload()">
-                Upload {{ selectedFiles.length }} Files
+              <button mat-button (click)="clearSelection()" [disabled]="isOptimizing">Clear All</button>
+              <button mat-raised-button color="primary" (click)="startUpload()"
+                      [disabled]="isOptimizing || isCheckingDuplicates">
+                <ng-container *ngIf="!isOptimizing">
+                  {{ isUploading ? 'Add' : 'Upload' }} {{ selectedFiles.length - skippedCount }} Files
+                </ng-container>
+                <ng-container *ngIf="isOptimizing">
+                  Shrinking {{ optimizedCount }} of {{ selectedFiles.length - skippedCount }}...
+                </ng-container>
               </button>
             </div>
           </div>
 
           <!-- Upload Progress -->
-          <div class="upload-progress" *ngIf="isUploading">
-            <h4>Uploading Photos...</h4>
-            <mat-progress-bar [value]="uploadProgress" mode="determinate"></mat-progress-bar>
-            <p class="progress-text">{{ uploadProgress }}% Complete</p>
+          <div class="upload-progress" *ngIf="isUploading && summary">
+            <div class="progress-header">
+              <h4>
+                {{ summary.offline ? 'Waiting for Connection' : summary.paused ? 'Uploads Paused' : 'Uploading Photos...' }}
+              </h4>
+              <button mat-stroked-button (click)="togglePause()">
+                <mat-icon>{{ summary.paused ? 'play_arrow' : 'pause' }}</mat-icon>
+                {{ summary.paused ? 'Resume' : 'Pause' }}
+              </button>
+            </div>
+            <mat-progress-bar [value]="summary.progress" mode="determinate"></mat-progress-bar>
+            <p class="progress-text">
+              {{ summary.completed }} of {{ summary.total }} files • {{ summary.progress }}% Complete
+            </p>
+            <p class="progress-hint" *ngIf="!summary.offline">
+              You can keep browsing - uploads continue in the background.
+            </p>
+            <p class="progress-hint" *ngIf="summary.offline">
+              You're offline. Uploads continue by themselves when the connection returns, even after a reload.
+            </p>
           </div>
 
+          <!-- Per-file status -->
+          <div class="upload-status-list" *ngIf="queueItems.length > 0">
+            <ng-container *ngFor="let item of queueItems; trackBy: trackById">
+              <ng-container *ngIf="item.upload.status !== 'pending'">
+                <ng-container *ngTemplateOutlet="statusRow; context: { $implicit: item }"></ng-container>
+              </ng-container>
+            </ng-container>
+
+            <!-- Waiting files can be dragged into a different order -->
+            <div *ngIf="pendingItems.length > 0" class="pending-section">
+              <h5>Waiting ({{ pendingItems.length }}) <span class="hint">• drag to reorder</span></h5>
+              <div cdkDropList (cdkDropListDropped)="onPendingDrop($event)">
+                <div *ngFor="let item of pendingItems; trackBy: trackById" cdkDrag class="pending-row">
+                  <mat-icon cdkDragHandle class="drag-handle">drag_indicator</mat-icon>
+                  <ng-container *ngTemplateOutlet="statusRow; context: { $implicit: item }"></ng-container>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <ng-template #statusRow let-item>
+            <div class="status-item" [class.failed]="item.upload.status === 'failed'">
+              <mat-icon class="status-icon" [ngClass]="item.upload.status">{{ getStatusIcon(item.upload) }}</mat-icon>
+              <div class="status-details">
+                <div class="status-header">
+                  <span class="file-name">{{ item.upload.file.name }}</span>
+                  <span class="folder-tag" *ngIf="item.folderPath">
+                    <mat-icon>folder</mat-icon>{{ item.folderPath }}
+                  </span>
+                  <span class="resume-tag" *ngIf="item.upload.resumed">resumed</span>
+                  <span class="file-size">
+                    {{ formatFileSize(item.upload.bytesUploaded) }} / {{ formatFileSize(item.upload.file.size) }}
+                  </span>
+                </div>
+                <mat-progress-bar *ngIf="item.upload.status === 'uploading' || item.upload.status === 'pending'"
+                                  [value]="item.upload.progress" mode="determinate"></mat-progress-bar>
+                <span class="status-error" *ngIf="item.upload.error">{{ item.upload.error }}</span>
+              </div>
+              <button *ngIf="item.upload.status === 'uploading' || item.upload.status === 'pending'"
+                      mat-icon-button (click)="cancelUpload(item)" matTooltip="Cancel">
+                <mat-icon>close</mat-icon>
+              </button>
+              <button *ngIf="item.upload.status === 'failed' || item.upload.status === 'cancelled'"
+                      mat-icon-button (click)="retryUpload(item)" matTooltip="Retry">
+                <mat-icon>refresh</mat-icon>
+              </button>
+              <button *ngIf="item.upload.status === 'skipped'"
+                      mat-button (click)="retryUpload(item)">
+                Upload anyway
+              </button>
+            </div>
+          </ng-template>
+
           <!-- Upload Results -->
           <div class="upload-results" *ngIf="uploadComplete">
             <mat-icon color="primary" class="success-icon">check_circle</mat-icon>
             <h4>Upload Complete!</h4>
             <p>{{ uploadResult?.totalUploaded || 0 }} photos uploaded successfully</p>
 
-            <!-- Show failed uploads if any -->
-            <div class="failed-uploads" *ngIf="uploadResult?.failedUploads?.length > 0">
-              <h5>Failed Uploads:</h5>
+            <!-- Show failed uploads if any, with the reason for each -->
+            <div class="failed-uploads" *ngIf="uploadResult && uploadResult.failedUploads.length > 0">
+              <div class="failed-header">
+                <h5>
+                  {{ uploadResult.failedUploads.length }}
+                  {{ uploadResult.failedUploads.length === 1 ? 'file' : 'files' }} failed to upload
+                </h5>
+                <button mat-button (click)="downloadFailureReport()">
+                  <mat-icon>download</mat-icon>
+                  Download Report (CSV)
+                </button>
+              </div>
+              <div class="failed-row" *ngFor="let failed of uploadResult.failedUploads">
+                <span class="failed-name">{{ failed.filename }}</span>
+                <span class="failure-reason" [class.permanent]="!isRetryable(failed)">{{ getFailureReason(failed) }}</span>
+                <span class="failed-message">{{ failed.errorMessage }}</span>
+              </div>
+              <p class="failed-hint" *ngIf="retryableFailureCount < uploadResult.failedUploads.length">
+                Files marked in red won't upload as they are - they need to be replaced or fixed first.
+              </p>
+            </div>
+
+            <!-- Duplicates left out -->
+            <div class="skipped-uploads" *ngIf="uploadResult?.skippedDuplicates?.length">
+              <h5>Skipped Duplicates:</h5>
               <ul>
-                <li *ngFor="let failed of uploadResult.failedUploads">
-                  {{ failed.filename }}: {{ failed.errorMessage }}
+                <li *ngFor="let skipped of uploadResult?.skippedDuplicates">
+                  {{ skipped.filename }}: same photo as {{ skipped.duplicateOf }}
                 </li>
               </ul>
             </div>
 
             <div class="result-actions">
+              <button *ngIf="retryableFailureCount > 0" mat-button (click)="retryFailed()">
+                Retry Failed ({{ retryableFailureCount }})
+              </button>
               <button mat-button (click)="uploadMore()">Upload More</button>
               <button mat-raised-button color="primary" (click)="viewGallery()">
                 View Gallery
@@ -161,6 +398,11 @@ import { PhotoService } from '../../../core/services/photo.service';
       gap: 12px;
     }
 
+    .preview-wrapper {
+      position: relative;
+      flex-shrink: 0;
+    }
+
     .file-preview {
       width: 50px;
       height: 50px;
@@ -168,6 +410,48 @@ import { PhotoService } from '../../../core/services/photo.service';
       border-radius: 4px;
     }
 
+    .quality-badges {
+      position: absolute;
+      right: -6px;
+      bottom: -6px;
+      display: flex;
+      gap: 2px;
+    }
+
+    .quality-badge {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 18px;
+      height: 18px;
+      border-radius: 50%;
+      color: white;
+      border: 1px solid white;
+    }
+
+    .quality-badge mat-icon {
+      font-size: 12px;
+      width: 12px;
+      height: 12px;
+    }
+
+    .quality-badge.ok {
+      background: #4caf50;
+    }
+
+    .quality-badge.warn {
+      background: #ff9800;
+    }
+
+    .quality-badge.bad {
+      background: #f44336;
+    }
+
+    .quality-summary {
+      color: #666;
+      font-size: 0.85em;
+    }
+
     .file-info {
       flex: 1;
       display: flex;
@@ -183,6 +467,129 @@ import { PhotoService } from '../../../core/services/photo.service';
       font-size: 0.9em;
     }
 
+    .optimize-panel {
+      background: #f5f5f5;
+      border-radius: 4px;
+      padding: 12px 16px;
+    }
+
+    .optimize-detail {
+      margin: 4px 0 0 0;
+      font-size: 0.9em;
+    }
+
+    .optimize-note {
+      margin: 4px 0 0 0;
+      color: #999;
+      font-size: 0.85em;
+    }
+
+    .optimize-tag {
+      color: #2e7d32;
+    }
+
+    .convert-tag {
+      color: #1565c0;
+    }
+
+    .converting {
+      padding: 24px 0;
+      text-align: center;
+      color: #666;
+    }
+
+    .conversion-failures {
+      background: #fff3e0;
+      border: 1px solid #ffcc80;
+      border-radius: 4px;
+      padding: 12px 16px;
+      margin-bottom: 16px;
+    }
+
+    .conversion-failures-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+    }
+
+    .conversion-failures h5 {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 0;
+      color: #e65100;
+    }
+
+    .conversion-failures ul {
+      margin: 8px 0 0 0;
+      padding-left: 20px;
+      color: #555;
+    }
+
+    .folder-tag {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      color: #666;
+      font-size: 0.85em;
+    }
+
+    .folder-tag mat-icon {
+      font-size: 16px;
+      width: 16px;
+      height: 16px;
+    }
+
+    .duplicate-flag {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      color: #e65100;
+      font-size: 0.85em;
+    }
+
+    .duplicate-flag mat-icon {
+      font-size: 16px;
+      width: 16px;
+      height: 16px;
+    }
+
+    .duplicate-toggle {
+      margin-left: auto;
+    }
+
+    .duplicate-summary {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #666;
+      font-size: 0.9em;
+    }
+
+    .skipped-uploads {
+      background: #f5f5f5;
+      border: 1px solid #e0e0e0;
+      border-radius: 4px;
+      padding: 16px;
+      margin: 16px 0;
+      text-align: left;
+    }
+
+    .skipped-uploads h5 {
+      margin: 0 0 8px 0;
+      color: #555;
+    }
+
+    .skipped-uploads ul {
+      margin: 0;
+      padding-left: 20px;
+    }
+
+    .skipped-uploads li {
+      color: #555;
+      margin-bottom: 4px;
+    }
+
     .upload-actions, .result-actions {
       display: flex;
       justify-content: flex-end;
@@ -192,7 +599,18 @@ import { PhotoService } from '../../../core/services/photo.service';
 
     .upload-progress {
       text-align: center;
-      padding: 40px;
+      padding: 24px 0;
+    }
+
+    .progress-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      margin-bottom: 12px;
+    }
+
+    .progress-header h4 {
+      margin: 0;
     }
 
     .progress-text {
@@ -200,6 +618,12 @@ import { PhotoService } from '../../../core/services/photo.service';
       color: #666;
     }
 
+    .progress-hint {
+      color: #999;
+      font-size: 0.85em;
+      margin: 0;
+    }
+
     .upload-results {
       text-align: center;
       padding: 40px;
@@ -221,46 +645,281 @@ import { PhotoService } from '../../../core/services/photo.service';
       text-align: left;
     }
 
+    .failed-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      margin-bottom: 8px;
+    }
+
     .failed-uploads h5 {
-      margin: 0 0 8px 0;
+      margin: 0;
       color: #856404;
     }
 
-    .failed-uploads ul {
-      margin: 0;
-      padding-left: 20px;
+    .failed-row {
+      display: grid;
+      grid-template-columns: minmax(0, 2fr) auto minmax(0, 3fr);
+      align-items: center;
+      gap: 12px;
+      padding: 4px 0;
+      color: #856404;
+      font-size: 0.9em;
+    }
+
+    .failed-name {
+      font-weight: 500;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .failure-reason {
+      padding: 2px 8px;
+      border-radius: 12px;
+      background: #ffe082;
+      font-size: 0.85em;
+      white-space: nowrap;
+    }
+
+    .failure-reason.permanent {
+      background: #ffcdd2;
+      color: #b71c1c;
     }
 
-    .failed-uploads li {
+    .failed-hint {
+      margin: 8px 0 0 0;
       color: #856404;
+      font-size: 0.85em;
+    }
+
+    .interrupted-uploads {
+      background: #e3f2fd;
+      border: 1px solid #90caf9;
+      border-radius: 4px;
+      padding: 12px 16px;
+      margin-bottom: 16px;
+    }
+
+    .interrupted-uploads h5 {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 0 0 4px 0;
+      color: #1565c0;
+    }
+
+    .interrupted-uploads p {
+      margin: 0 0 8px 0;
+      color: #555;
+      font-size: 0.9em;
+    }
+
+    .interrupted-item {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+
+    .interrupted-item .file-name {
+      flex: 1;
+    }
+
+    .resume-tag {
+      color: #1565c0;
+      font-size: 0.85em;
+    }
+
+    .upload-status-list {
+      max-height: 360px;
+      overflow-y: auto;
+      margin-top: 16px;
+    }
+
+    .status-item {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 8px;
+      border-bottom: 1px solid #eee;
+    }
+
+    .status-details {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .status-header {
+      display: flex;
+      align-items: baseline;
+      gap: 8px;
       margin-bottom: 4px;
     }
+
+    .status-header .file-name {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .status-icon.pending {
+      color: #9e9e9e;
+    }
+
+    .status-icon.uploading {
+      color: #3f51b5;
+    }
+
+    .status-icon.completed {
+      color: #4caf50;
+    }
+
+    .status-icon.failed {
+      color: #f44336;
+    }
+
+    .status-icon.cancelled, .status-icon.skipped {
+      color: #bdbdbd;
+    }
+
+    .pending-section h5 {
+      margin: 16px 0 4px 0;
+      color: #666;
+    }
+
+    .pending-section .hint {
+      font-weight: normal;
+      color: #999;
+    }
+
+    .pending-row {
+      display: flex;
+      align-items: center;
+      background: white;
+    }
+
+    .pending-row .status-item {
+      flex: 1;
+    }
+
+    .drag-handle {
+      cursor: move;
+      color: #bdbdbd;
+    }
+
+    .status-error {
+      color: #f44336;
+      font-size: 0.85em;
+    }
   `]
 })
-export class PhotoUploadComponent implements OnDestroy {
+export class PhotoUploadComponent implements OnInit, OnDestroy {
   selectedFiles: File[] = [];
-  isUploading = false;
-  uploadProgress = 0;
-  uploadComplete = false;
-  uploadResult: any = null;
   isDragOver = false;
 
+  // One entry per queued file, updated as its chunks go up
+  queueItems: UploadQueueItem[] = [];
+  pendingItems: UploadQueueItem[] = [];
+  summary: UploadQueueSummary | null = null;
+  uploadResult: PhotoUploadResult | null = null;
+  interruptedUploads: UploadSession[] = [];
+
+  // Pre-upload shrinking to print resolution
+  printSizes: PrintSize[] = [];
+  optimizeForPrint = false;
+  isPlanning = false;
+  isOptimizing = false;
+  optimizedCount = 0;
+  savings = { count: 0, originalBytes: 0, optimizedBytes: 0, percent: 0 };
+  private plans = new Map<File, OptimizationPlan>();
+
+  // Duplicate detection by content hash; duplicates are skipped unless the user says otherwise
+  isCheckingDuplicates = false;
+  hashedCount = 0;
+  uploadAnyway = new Set<File>();
+  private duplicateCheckRun = 0; // Only the latest check reports back
+  private contentHashes = new Map<File, string>();
+  private existingMatches: ExistingPhotoMatch[] = [];
+  private duplicates = new Map<File, DuplicateMatch>();
+
+  // Print-quality analysis, run in a worker as files are selected
+  qualityBadges = new Map<File, QualityBadge[]>();
+  qualitySummaries = new Map<File, string>();
+  private analyses = new Map<File, ImageAnalysis>();
+
+  // Folder each selected file came from, relative to the folder the user picked
+  private folderPaths = new Map<File, string>();
+
+  // PNG, WebP and TIFF files are swapped for JPEG copies as they're selected
+  isConverting = false;
+  convertedCount = 0;
+  conversionTotal = 0;
+  conversionFailures: ConversionFailure[] = [];
+  convertedFrom = new Map<File, string>();
+  private originals = new Map<File, File>();
+
   // Cache for file data with preview URLs
   fileDataArray: Array<{ file: File; previewUrl: string }> = [];
 
+  private destroy$ = new Subject<void>();
+
   constructor(
     private photoService: PhotoService,
+    private chunkedUploadService: ChunkedUploadService,
+    private uploadQueue: UploadQueueService,
+    private imageOptimizer: ImageOptimizerService,
+    private duplicateDetection: DuplicateDetectionService,
+    private imageConverter: ImageConverterService,
+    private printQuality: PrintQualityService,
+    private notificationService: NotificationService,
     private router: Router,
     private snackBar: MatSnackBar
   ) {}
 
+  ngOnInit(): void {
+    this.interruptedUploads = this.chunkedUploadService.getInterruptedUploads();
+
+    this.uploadQueue.items$.pipe(takeUntil(this.destroy$)).subscribe(items => {
+      this.queueItems = items;
+      this.pendingItems = items.filter(item => item.upload.status === 'pending');
+      this.uploadResult = this.uploadComplete ? this.uploadQueue.getResult() : null;
+
+      // The unfinished-uploads notice only shows on an empty queue
+      if (items.length === 0) {
+        this.interruptedUploads = this.chunkedUploadService.getInterruptedUploads();
+      }
+    });
+
+    this.uploadQueue.summary$.pipe(takeUntil(this.destroy$)).subscribe(summary => {
+      this.summary = summary;
+    });
+
+    this.imageOptimizer.getPrintSizes().pipe(takeUntil(this.destroy$)).subscribe(sizes => {
+      this.printSizes = sizes;
+      this.planOptimization();
+      this.updateQuality();
+    });
+  }
+
   /**
    * Cleanup blob URLs when component is destroyed to prevent memory leaks.
+   * The upload queue itself keeps running.
    */
   ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
     this.cleanupPreviewUrls();
   }
 
+  get isUploading(): boolean {
+    return this.uploadQueue.isActive;
+  }
+
+  get uploadComplete(): boolean {
+    return this.queueItems.length > 0 && !this.uploadQueue.isActive;
+  }
+
   /**
    * TrackBy function for ngFor to improve performance.
    */
@@ -268,10 +927,14 @@ export class PhotoUploadComponent implements OnDestroy {
     return index;
   }
 
+  trackById(index: number, item: UploadQueueItem): number {
+    return item.id;
+  }
+
   onFileSelect(event: Event): void {
     const files = (event.target as HTMLInputElement).files;
     if (files) {
-      this.processFiles(files);
+      this.processFiles(FolderScanUtil.fromFileList(files));
     }
     // Reset input value to allow selecting the same files again
     (event.target as HTMLInputElement).value = '';
@@ -287,37 +950,64 @@ export class PhotoUploadComponent implements OnDestroy {
     this.isDragOver = false;
   }
 
-  onFileDrop(event: DragEvent): void {
+  async onFileDrop(event: DragEvent): Promise<void> {
     event.preventDefault();
     this.isDragOver = false;
 
-    const files = event.dataTransfer?.files;
-    if (files) {
-      this.processFiles(files);
+    if (!event.dataTransfer) {
+      return;
+    }
+
+    let scan: FolderScanResult;
+    try {
+      scan = await FolderScanUtil.fromDataTransfer(event.dataTransfer);
+    } catch {
+      this.notificationService.showError('The dropped files could not be read. Try choosing the folder instead.');
+      return;
     }
+
+    if (scan.unreadableFolders.length > 0) {
+      const folders = scan.unreadableFolders.map(folder => `"${folder}"`).join(', ');
+      const message = scan.unreadableFolders.length === 1
+        ? `The folder ${folders} could not be read`
+        : `These folders could not be read: ${folders}`;
+      this.notificationService.showWarning(`${message}. Try choosing ${scan.unreadableFolders.length === 1 ? 'it' : 'them'} instead.`, 8000);
+      if (scan.files.length === 0) {
+        return;
+      }
+    }
+    this.processFiles(scan.files);
   }
 
   /**
-   * Process selected files and create preview URLs.
+   * Process selected files, converting any that aren't JPEG, and create preview URLs.
    */
-  private processFiles(fileList: FileList): void {
-    const validFiles = this.photoService.filterJpegFiles(fileList);
+  private async processFiles(scanned: ScannedFile[]): Promise<void> {
+    if (this.isConverting) return;
 
-    if (validFiles.length === 0) {
-      this.snackBar.open('No valid JPEG files found', 'Close', { duration: 3000 });
+    const supportedFiles = this.photoService.filterSupportedFiles(scanned.map(entry => entry.file));
+
+    if (supportedFiles.length === 0) {
+      this.snackBar.open('No supported photos found', 'Close', { duration: 3000 });
       return;
     }
 
     // Check for invalid files and show warnings
-    const invalidCount = fileList.length - validFiles.length;
+    const invalidCount = scanned.length - supportedFiles.length;
     if (invalidCount > 0) {
       this.snackBar.open(
-        `${invalidCount} files skipped (not JPEG or too large)`,
+        `${invalidCount} files skipped (not a supported format or too large)`,
         'Close',
         { duration: 5000 }
       );
     }
 
+    const converted = await this.convertFiles(scanned.filter(entry => supportedFiles.includes(entry.file)));
+    if (converted.length === 0) {
+      return; // Every file failed to convert; the failures are listed
+    }
+    const validFiles = converted.map(entry => entry.file);
+
     // Clean up existing preview URLs before setting new ones
     this.cleanupPreviewUrls();
 
@@ -328,6 +1018,11 @@ export class PhotoUploadComponent implements OnDestroy {
     }));
 
     this.selectedFiles = validFiles;
+    this.folderPaths = new Map(converted.map(entry => [entry.file, entry.folderPath]));
+    this.forgetUnselectedFiles();
+    this.planOptimization();
+    this.checkDuplicates();
+    this.analyzeQuality();
   }
 
   /**
@@ -341,6 +1036,10 @@ export class PhotoUploadComponent implements OnDestroy {
       // Remove from both arrays
       this.fileDataArray.splice(index, 1);
       this.selectedFiles.splice(index, 1);
+      this.forgetUnselectedFiles();
+      this.updateSavings();
+      this.updateDuplicates();
+      this.updateQuality();
     }
   }
 
@@ -351,35 +1050,183 @@ export class PhotoUploadComponent implements OnDestroy {
     this.cleanupPreviewUrls();
     this.selectedFiles = [];
     this.fileDataArray = [];
+    this.forgetUnselectedFiles();
+    this.updateSavings();
+    this.updateDuplicates();
+    this.updateQuality();
   }
 
   /**
-   * Start the upload process with progress tracking.
+   * Drop what was worked out for files that are no longer selected. Files
+   * are converted before the selection changes, so stale entries are pruned
+   * rather than everything cleared.
    */
-  startUpload(): void {
-    if (this.selectedFiles.length === 0) return;
-
-    this.isUploading = true;
-    this.uploadProgress = 0;
-
-    this.photoService.uploadPhotos(this.selectedFiles).subscribe({
-      next: (event) => {
-        this.uploadProgress = event.progress;
-        if (event.result) {
-          this.uploadResult = event.result;
-          this.uploadComplete = true;
-          this.isUploading = false;
-
-          // DON'T cleanup preview URLs here - let them persist until user navigates away
-          // This prevents the blob URL error you were seeing
+  private forgetUnselectedFiles(): void {
+    const selected = new Set(this.selectedFiles);
+    const perFile: (Map<File, unknown> | Set<File>)[] = [
+      this.plans, this.contentHashes, this.uploadAnyway, this.analyses, this.convertedFrom, this.originals, this.folderPaths
+    ];
+
+    perFile.forEach(entries => Array.from(entries.keys())
+      .filter(file => !selected.has(file))
+      .forEach(file => entries.delete(file)));
+  }
+
+  /**
+   * Hand the selected files to the upload queue, shrinking them first if asked.
+   * Files can be added while others are still uploading. Each folder goes up
+   * as its own group so the photos keep their source folder.
+   */
+  async startUpload(): Promise<void> {
+    if (this.selectedFiles.length === 0 || this.isOptimizing || this.isCheckingDuplicates) return;
+
+    const toUpload = this.selectedFiles.filter(file => !this.isSkipped(file));
+    let files: ScannedFile[] = toUpload.map(file => ({ file, folderPath: this.getFolder(file) }));
+
+    // Hashes are of the files as selected, so a later re-selection of the same originals is still caught
+    const hashes = new Map<File, string>();
+    toUpload.forEach(file => this.contentHashes.has(file) && hashes.set(file, this.contentHashes.get(file)!));
+
+    if (this.optimizeForPrint && this.savings.count > 0) {
+      this.isOptimizing = true;
+      this.optimizedCount = 0;
+      files = [];
+
+      // One at a time - each full-size photo takes a lot of memory to decode
+      for (const file of toUpload) {
+        const plan = this.plans.get(file);
+        let upload = file;
+        try {
+          upload = plan ? await this.imageOptimizer.optimize(file, plan) : file;
+        } catch (error) {
+          console.warn('Could not shrink photo, uploading the original:', file.name, error);
         }
-      },
-      error: (error) => {
-        this.isUploading = false;
-        this.snackBar.open('Upload failed. Please try again.', 'Close', { duration: 5000 });
-        console.error('Upload error:', error);
+        if (upload !== file && hashes.has(file)) {
+          hashes.set(upload, hashes.get(file)!);
+        }
+        files.push({ file: upload, folderPath: this.getFolder(file) });
+        this.optimizedCount++;
       }
-    });
+
+      this.isOptimizing = false;
+    }
+
+    this.selectedFiles
+      .filter(file => this.isSkipped(file))
+      .forEach(file => this.uploadQueue.addSkipped(
+        file,
+        this.duplicates.get(file)!.duplicateOf,
+        this.getFolder(file) || undefined,
+        this.contentHashes.get(file)
+      ));
+
+    FolderScanUtil.groupByFolder(files).forEach((group, folderPath) =>
+      this.uploadQueue.add(group, folderPath || undefined, hashes)
+    );
+    this.clearSelection();
+  }
+
+  getFolder(file: File): string {
+    return this.folderPaths.get(file) ?? '';
+  }
+
+  get folderCount(): number {
+    return new Set(this.selectedFiles.map(file => this.getFolder(file)).filter(folder => !!folder)).size;
+  }
+
+  getDuplicate(file: File): DuplicateMatch | undefined {
+    return this.duplicates.get(file);
+  }
+
+  toggleUploadAnyway(file: File): void {
+    if (this.uploadAnyway.has(file)) {
+      this.uploadAnyway.delete(file);
+    } else {
+      this.uploadAnyway.add(file);
+    }
+  }
+
+  get skippedCount(): number {
+    return this.selectedFiles.filter(file => this.isSkipped(file)).length;
+  }
+
+  getPlan(file: File): OptimizationPlan | undefined {
+    return this.plans.get(file);
+  }
+
+  togglePause(): void {
+    if (this.uploadQueue.isPaused) {
+      this.uploadQueue.resume();
+    } else {
+      this.uploadQueue.pause();
+    }
+  }
+
+  cancelUpload(item: UploadQueueItem): void {
+    this.uploadQueue.cancel(item.id);
+  }
+
+  retryUpload(item: UploadQueueItem): void {
+    this.uploadQueue.retry(item.id);
+  }
+
+  /**
+   * Queue the failed files again - the ones a retry can fix - without selecting them again.
+   */
+  retryFailed(): void {
+    this.uploadQueue.retryFailed();
+  }
+
+  get retryableFailureCount(): number {
+    return this.uploadResult?.failedUploads.filter(failed => this.isRetryable(failed)).length ?? 0;
+  }
+
+  isRetryable(failed: FailedUpload): boolean {
+    return UploadReportUtil.isRetryable(failed.errorCode);
+  }
+
+  getFailureReason(failed: FailedUpload): string {
+    return UploadReportUtil.reason(failed.errorCode);
+  }
+
+  downloadFailureReport(): void {
+    if (!this.uploadResult) return;
+
+    // Byte order mark so Excel reads accented filenames correctly
+    const csv = '\uFEFF' + UploadReportUtil.toCsv(this.uploadResult.failedUploads);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `myimage-failed-uploads-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  onPendingDrop(event: CdkDragDrop<UploadQueueItem[]>): void {
+    this.uploadQueue.movePending(event.previousIndex, event.currentIndex);
+  }
+
+  /**
+   * Whether part of this file reached the server in an earlier, interrupted upload.
+   */
+  canResume(file: File): boolean {
+    return this.chunkedUploadService.hasInterruptedUpload(file, this.getFolder(file) || undefined);
+  }
+
+  discardInterrupted(session: UploadSession): void {
+    this.chunkedUploadService.discard(session).subscribe();
+    this.interruptedUploads = this.interruptedUploads.filter(s => s.uploadId !== session.uploadId);
+  }
+
+  getStatusIcon(upload: UploadProgress): string {
+    switch (upload.status) {
+      case 'completed': return 'check_circle';
+      case 'failed': return 'error';
+      case 'uploading': return 'cloud_upload';
+      case 'cancelled': return 'block';
+      case 'skipped': return 'content_copy';
+      default: return 'schedule';
+    }
   }
 
   /**
@@ -391,9 +1238,11 @@ export class PhotoUploadComponent implements OnDestroy {
 
     this.selectedFiles = [];
     this.fileDataArray = [];
-    this.uploadComplete = false;
-    this.uploadResult = null;
-    this.uploadProgress = 0;
+    this.forgetUnselectedFiles();
+    this.updateSavings();
+    this.updateDuplicates();
+    this.updateQuality();
+    this.uploadQueue.clearFinished();
   }
 
   /**
@@ -411,11 +1260,214 @@ export class PhotoUploadComponent implements OnDestroy {
   formatFileSize(bytes: number): string {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB'];
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
     const i = Math.floor(Math.log(bytes) / Math.log(k));
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
   }
 
+  /**
+   * Work out how much each selected photo could shrink. Runs one photo at a time.
+   */
+  private async planOptimization(): Promise<void> {
+    if (this.printSizes.length === 0 || this.selectedFiles.length === 0) {
+      return;
+    }
+
+    const files = this.selectedFiles.filter(file => !this.plans.has(file));
+    this.isPlanning = true;
+
+    for (const file of files) {
+      try {
+        const plan = await this.imageOptimizer.plan(file, this.printSizes);
+        // The selection may have changed while this photo was being read
+        if (this.selectedFiles.includes(file)) {
+          this.plans.set(file, plan);
+        }
+      } catch {
+        // Unreadable photos are uploaded as they are
+      }
+    }
+
+    this.isPlanning = false;
+    this.updateSavings();
+  }
+
+  /**
+   * Swap PNG, WebP and TIFF files for JPEG copies, one at a time as each
+   * decoded photo takes a lot of memory. Files that fail are left out and listed.
+   */
+  private async convertFiles(scanned: ScannedFile[]): Promise<ScannedFile[]> {
+    this.conversionFailures = [];
+    this.conversionTotal = scanned.filter(entry => this.imageConverter.needsConversion(entry.file)).length;
+    if (this.conversionTotal === 0) {
+      return scanned;
+    }
+
+    this.isConverting = true;
+    this.convertedCount = 0;
+    const converted: ScannedFile[] = [];
+
+    for (const entry of scanned) {
+      const format = this.imageConverter.getSourceFormat(entry.file);
+      if (!format) {
+        converted.push(entry);
+        continue;
+      }
+
+      try {
+        const jpeg = await this.imageConverter.convert(entry.file);
+        this.convertedFrom.set(jpeg, format);
+        this.originals.set(jpeg, entry.file);
+        converted.push({ file: jpeg, folderPath: entry.folderPath });
+      } catch (error) {
+        this.conversionFailures.push({
+          filename: entry.file.name,
+          reason: error instanceof Error ? error.message : 'Conversion failed'
+        });
+      }
+      this.convertedCount++;
+    }
+
+    this.isConverting = false;
+    return converted;
+  }
+
+  /**
+   * Hash newly selected files one at a time, then look for matches among
+   * uploaded photos and within the selection. A newer selection takes over
+   * from a check still running, hashing whatever that one hadn't reached.
+   */
+  private async checkDuplicates(): Promise<void> {
+    const files = this.selectedFiles.filter(file => !this.contentHashes.has(file));
+    if (files.length === 0) {
+      this.updateDuplicates();
+      return;
+    }
+
+    const run = ++this.duplicateCheckRun;
+    this.isCheckingDuplicates = true;
+    this.hashedCount = this.selectedFiles.length - files.length;
+
+    for (const file of files) {
+      if (run !== this.duplicateCheckRun) {
+        return;
+      }
+
+      try {
+        // Converted files are hashed as selected, so choosing the same PNG again is still caught
+        const hash = await this.duplicateDetection.hashFile(this.originals.get(file) ?? file);
+        if (this.selectedFiles.includes(file)) {
+          this.contentHashes.set(file, hash);
+        }
+      } catch (error) {
+        console.warn('Could not hash file, duplicate check skipped for it:', file.name, error);
+      }
+      this.hashedCount++;
+    }
+
+    const hashes = Array.from(new Set(this.selectedFiles
+      .map(file => this.contentHashes.get(file))
+      .filter((hash): hash is string => !!hash)));
+
+    this.duplicateDetection.findExisting(hashes).subscribe(matches => {
+      if (run !== this.duplicateCheckRun) {
+        return;
+      }
+
+      this.existingMatches = matches;
+      this.isCheckingDuplicates = false;
+      this.updateDuplicates();
+    });
+  }
+
+  private updateDuplicates(): void {
+    const hashed = this.selectedFiles
+      .filter(file => this.contentHashes.has(file))
+      .map(file => ({ file, hash: this.contentHashes.get(file)! }));
+
+    this.duplicates = this.duplicateDetection.findDuplicates(hashed, this.existingMatches);
+  }
+
+  private isSkipped(file: File): boolean {
+    return this.duplicates.has(file) && !this.uploadAnyway.has(file);
+  }
+
+  /**
+   * Start analysis of newly selected files. The worker takes them one at a
+   * time; badges appear as each result comes back.
+   */
+  private analyzeQuality(): void {
+    this.selectedFiles
+      .filter(file => !this.analyses.has(file))
+      .forEach(file => this.printQuality.analyze(file)
+        .then(analysis => {
+          if (!this.selectedFiles.includes(file)) {
+            return; // Removed, or replaced by a new selection, while it was analyzed
+          }
+          this.analyses.set(file, analysis);
+          this.updateQuality();
+        })
+        .catch(error => console.warn('Could not analyze photo quality:', file.name, error)));
+  }
+
+  /**
+   * Turn analyses into badges and summaries. Rerun when print sizes load, as
+   * the resolution check depends on them.
+   */
+  private updateQuality(): void {
+    this.qualityBadges.clear();
+    this.qualitySummaries.clear();
+
+    this.analyses.forEach((analysis, file) => {
+      const badges: QualityBadge[] = [];
+      const fit = PrintQualityUtil.printFit(analysis.width, analysis.height, this.printSizes);
+
+      if (this.printSizes.length > 0) {
+        if (fit.largestGood) {
+          this.qualitySummaries.set(file, `Prints well up to ${fit.largestGood.displayName} (${fit.dpi} DPI)`);
+        } else if (fit.largestAcceptable) {
+          this.qualitySummaries.set(file, `Low resolution - best kept to ${fit.largestAcceptable.displayName} or smaller`);
+          badges.push({ icon: 'photo_size_select_small', level: 'warn', tooltip: 'Low resolution - larger prints may look pixelated' });
+        } else {
+          this.qualitySummaries.set(file, 'Too small for good prints at any size we offer');
+          badges.push({ icon: 'photo_size_select_small', level: 'bad', tooltip: `Only ${analysis.width} × ${analysis.height} pixels - prints will look pixelated` });
+        }
+      }
+
+      if (analysis.isBlurry) {
+        badges.push({ icon: 'blur_on', level: 'warn', tooltip: 'Looks blurry - check focus before printing' });
+      }
+      if (analysis.exposure === 'under') {
+        badges.push({ icon: 'brightness_low', level: 'warn', tooltip: 'Looks too dark - shadows may print as solid black' });
+      } else if (analysis.exposure === 'over') {
+        badges.push({ icon: 'brightness_high', level: 'warn', tooltip: 'Looks too bright - highlights may print as blank paper' });
+      }
+
+      if (badges.length === 0) {
+        badges.push({ icon: 'check', level: 'ok', tooltip: 'Should print well' });
+      }
+      this.qualityBadges.set(file, badges);
+    });
+  }
+
+  private updateSavings(): void {
+    const plans = this.selectedFiles
+      .map(file => this.plans.get(file))
+      .filter((plan): plan is OptimizationPlan => !!plan && plan.worthwhile);
+    const originalBytes = this.selectedFiles.reduce((sum, file) => sum + file.size, 0);
+    const savedBytes = this.selectedFiles.reduce((sum, file) => {
+      const plan = this.plans.get(file);
+      return sum + (plan?.worthwhile ? file.size - plan.estimatedBytes : 0);
+    }, 0);
+
+    this.savings = {
+      count: plans.length,
+      originalBytes,
+      optimizedBytes: originalBytes - savedBytes,
+      percent: originalBytes > 0 ? Math.round(100 * savedBytes / originalBytes) : 0
+    };
+  }
+
   /**
    * Clean up all blob URLs to prevent memory leaks.
    */
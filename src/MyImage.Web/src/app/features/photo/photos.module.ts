@@ -1,4 +1,6 @@
 // src/MyImage.Web/src/app/features/photo/photos.module.ts
+import { DragDropModule } from '@angular/cdk/drag-drop';
+import { ScrollingModule } from '@angular/cdk/scrolling';
 import { CommonModule } from '@angular/common';
 import { NgModule } from '@angular/core';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
@@ -14,13 +16,13 @@ import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatGridListModule } from '@angular/material/grid-list';
 import { MatIconModule } from '@angular/material/icon';
 import { MatInputModule } from '@angular/material/input'; // FIXED: Missing input module
-import { MatPaginatorModule } from '@angular/material/paginator';
 import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSelectModule } from '@angular/material/select';
 import { MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatTooltipModule } from '@angular/material/tooltip'; // FIXED: Missing tooltip module
 
+import { SharedModule } from '../../shared/shared.module';
 import { PhotoGalleryComponent } from './photo-gallery/photo-gallery.component';
 import { PhotoPreviewComponent } from './photo-preview/photo-preview.component';
 import { PhotoUploadComponent } from './photo-upload/photo-upload.component';
@@ -43,6 +45,9 @@ const routes: Routes = [
     FormsModule, // FIXED: Added FormsModule for template-driven forms
     ReactiveFormsModule,
     RouterModule.forChild(routes),
+    DragDropModule,
+    ScrollingModule,
+    SharedModule,
 
     // Angular Material Modules - FIXED: Complete list
     MatCardModule,
@@ -52,7 +57,6 @@ const routes: Routes = [
     MatDialogModule,
     MatProgressBarModule,
     MatSnackBarModule,
-    MatPaginatorModule,
     MatChipsModule,
     MatFormFieldModule,
     MatInputModule, // REQUIRED for matInput directive
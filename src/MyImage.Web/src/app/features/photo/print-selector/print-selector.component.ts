@@ -1,29 +1,45 @@
 // src/MyImage.Web/src/app/features/photo/print-selector/print-selector.component.ts
-import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
+import { Component, Inject, OnInit } from '@angular/core';
 import { FormArray, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
 import { MatSnackBar } from '@angular/material/snack-bar';
 
 import { CartService } from '../../../core/services/cart.service';
+import { PhotoMetadataService } from '../../../core/services/photo-metadata.service';
 import { PhotoService } from '../../../core/services/photo.service';
 import { PrintSizeService } from '../../../core/services/print-size.service';
 import { PrintSelection } from '../../../shared/models/cart.models';
 import { Photo } from '../../../shared/models/photo.models';
 import { PrintSize } from '../../../shared/models/print-size.models';
 
+/**
+ * Dialog data for choosing one set of prints for several photos.
+ */
+export interface BulkPrintSelection {
+  photos: Photo[];
+}
+
 @Component({
   selector: 'app-print-selector',
   standalone: false,
   template: `
     <div class="selector-container">
       <div class="selector-header">
-        <h3>Select Print Sizes</h3>
+        <h3>{{ isBulk ? 'Print Sizes for ' + photos.length + ' Photos' : 'Select Print Sizes' }}</h3>
         <button mat-icon-button (click)="close()">
           <mat-icon>close</mat-icon>
         </button>
       </div>
 
-      <div class="photo-preview">
+      <div class="photo-preview bulk-summary" *ngIf="isBulk">
+        <mat-icon class="bulk-icon">photo_library</mat-icon>
+        <div class="photo-info">
+          <h4>{{ photos.length }} photos selected</h4>
+          <p>The prints you choose are added for each photo.</p>
+        </div>
+      </div>
+
+      <div class="photo-preview" *ngIf="!isBulk">
         <!-- FIXED: Photo with authenticated image loading -->
         <div class="photo-container">
           <!-- Loading state -->
@@ -37,6 +53,7 @@ import { PrintSize } from '../../../shared/models/print-size.models';
                [src]="photoImageUrl"
                [alt]="photo.filename"
                class="preview-thumb"
+               [appExifOrientation]="orientation"
                (load)="onImageLoad()"
                (error)="onImageError()">
 
@@ -49,7 +66,7 @@ import { PrintSize } from '../../../shared/models/print-size.models';
 
         <div class="photo-info">
           <h4>{{ photo.filename }}</h4>
-          <p>{{ photo.dimensions.width }} × {{ photo.dimensions.height }} pixels</p>
+          <p>{{ displayDimensions.width }} × {{ displayDimensions.height }} pixels</p>
         </div>
       </div>
 
@@ -115,7 +132,7 @@ import { PrintSize } from '../../../shared/models/print-size.models';
 
         <div class="total-section" *ngIf="getTotalCost() > 0">
           <div class="total-row">
-            <span class="total-label">Total Cost:</span>
+            <span class="total-label">Total Cost<ng-container *ngIf="isBulk"> ({{ photos.length }} photos)</ng-container>:</span>
             <span class="total-amount">{{ getTotalCost() | currency:'USD':'symbol':'1.2-2' }}</span>
           </div>
         </div>
@@ -220,6 +237,13 @@ import { PrintSize } from '../../../shared/models/print-size.models';
       margin-bottom: 4px;
     }
 
+    .bulk-icon {
+      font-size: 40px;
+      width: 40px;
+      height: 40px;
+      color: #666;
+    }
+
     .photo-info h4 {
       margin: 0 0 4px 0;
       font-weight: 500;
@@ -365,7 +389,10 @@ import { PrintSize } from '../../../shared/models/print-size.models';
     }
   `]
 })
-export class PrintSelectorComponent implements OnInit, OnDestroy {
+export class PrintSelectorComponent implements OnInit {
+  photo: Photo;
+  photos: Photo[];
+
   printForm: FormGroup;
   printSizes: PrintSize[] = [];
   isAdding = false;
@@ -378,37 +405,48 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
   // Loading states
   loadingPrintSizes = true;
   errorLoadingPrintSizes = false;
+  orientation?: number;
 
   constructor(
-    @Inject(MAT_DIALOG_DATA) public photo: Photo,
+    @Inject(MAT_DIALOG_DATA) data: Photo | BulkPrintSelection,
     private dialogRef: MatDialogRef<PrintSelectorComponent>,
     private fb: FormBuilder,
     private printSizeService: PrintSizeService,
     private cartService: CartService,
     private photoService: PhotoService,
+    private photoMetadataService: PhotoMetadataService,
     private snackBar: MatSnackBar
   ) {
+    this.photos = 'photos' in data ? data.photos : [data];
+    this.photo = this.photos[0];
+
     // FIXED: Initialize form properly
     this.printForm = this.fb.group({
       selections: this.fb.array([])
     });
   }
 
+  /**
+   * Dimensions the right way up - a portrait phone photo is stored landscape with a rotation tag.
+   */
+  get displayDimensions(): { width: number; height: number } {
+    return this.photoMetadataService.getOrientedDimensions(this.photo, this.orientation);
+  }
+
+  get isBulk(): boolean {
+    return this.photos.length > 1;
+  }
+
   get selectionsArray(): FormArray {
     return this.printForm.get('selections') as FormArray;
   }
 
   ngOnInit(): void {
-    console.log('PrintSelector - Photo data received:', this.photo);
-    this.loadPhotoImage();
-    this.loadPrintSizes();
-  }
-
-  ngOnDestroy(): void {
-    // FIXED: Clean up blob URL when component is destroyed
-    if (this.photoImageUrl) {
-      URL.revokeObjectURL(this.photoImageUrl);
+    console.log('PrintSelector - Photo data received:', this.photos);
+    if (!this.isBulk) {
+      this.loadPhotoImage();
     }
+    this.loadPrintSizes();
   }
 
   /**
@@ -426,6 +464,10 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
         this.photoImageUrl = blobUrl;
         this.imageLoading = false;
         console.log('PrintSelector - Image loaded successfully');
+
+        this.photoMetadataService.getOrientation(this.photo, blobUrl).subscribe(orientation => {
+          this.orientation = orientation;
+        });
       },
       error: (error) => {
         console.error('PrintSelector - Failed to load image:', error);
@@ -532,7 +574,7 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
     const quantity = selection.get('quantity')?.value || 0;
     const unitPrice = selection.get('unitPrice')?.value || printSize.price;
 
-    return selected ? quantity * unitPrice : 0;
+    return selected ? quantity * unitPrice * this.photos.length : 0;
   }
 
   getTotalCost(): number {
@@ -570,8 +612,12 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
     const printSize = this.printSizes[index];
     if (!printSize) return 'fair';
 
-    const photoWidth = this.photo.dimensions.width;
-    const photoHeight = this.photo.dimensions.height;
+    if (this.isBulk) {
+      const { good, fair } = this.getBulkQuality(printSize);
+      return fair > 0 ? 'fair' : good > 0 ? 'good' : 'excellent';
+    }
+
+    const { width: photoWidth, height: photoHeight } = this.displayDimensions;
 
     if (photoWidth >= printSize.recommendedWidth && photoHeight >= printSize.recommendedHeight) {
       return 'excellent';
@@ -593,6 +639,15 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
 
   getQualityText(index: number): string {
     const quality = this.getQualityClass(index);
+    if (this.isBulk) {
+      const { fair } = this.getBulkQuality(this.printSizes[index]);
+      switch (quality) {
+        case 'excellent': return 'Excellent quality for every photo';
+        case 'good': return 'Good quality for every photo';
+        default: return `${fair} of ${this.photos.length} photos may appear pixelated`;
+      }
+    }
+
     switch (quality) {
       case 'excellent': return 'Excellent quality';
       case 'good': return 'Good quality';
@@ -600,6 +655,27 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * How many of the photos print at each quality. Rotation isn't known for
+   * photos not yet viewed, so each is judged the way round it fits best.
+   */
+  private getBulkQuality(printSize: PrintSize): { excellent: number; good: number; fair: number } {
+    const fits = (photo: Photo, width: number, height: number) =>
+      Math.max(photo.dimensions.width, photo.dimensions.height) >= Math.max(width, height) &&
+      Math.min(photo.dimensions.width, photo.dimensions.height) >= Math.min(width, height);
+
+    return this.photos.reduce((counts, photo) => {
+      if (fits(photo, printSize.recommendedWidth, printSize.recommendedHeight)) {
+        counts.excellent++;
+      } else if (fits(photo, printSize.minWidth, printSize.minHeight)) {
+        counts.good++;
+      } else {
+        counts.fair++;
+      }
+      return counts;
+    }, { excellent: 0, good: 0, fair: 0 });
+  }
+
   addToCart(): void {
     if (!this.hasValidSelections()) {
       this.snackBar.open('Please select at least one print size', 'Close', { duration: 3000 });
@@ -634,11 +710,16 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
     }
 
     console.log('PrintSelector - Adding to cart:', {
-      photoId: this.photo.id,
+      photoIds: this.photos.map(photo => photo.id),
       printSelections,
       totalCost: this.getTotalCost()
     });
 
+    if (this.isBulk) {
+      this.addAllToCart(printSelections);
+      return;
+    }
+
     this.cartService.addToCart(this.photo.id, printSelections).subscribe({
       next: (response) => {
         this.isAdding = false;
@@ -675,6 +756,22 @@ export class PrintSelectorComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Add every photo with the same prints. Photos that couldn't be added are
+   * reported back to the gallery rather than keeping the dialog open.
+   */
+  private addAllToCart(printSelections: PrintSelection[]): void {
+    this.cartService.addPhotosToCart(this.photos.map(photo => photo.id), printSelections).subscribe(result => {
+      this.isAdding = false;
+
+      if (result.succeeded.length === 0) {
+        this.snackBar.open(`Failed to add photos to cart: ${result.failed[0]?.message}`, 'Close', { duration: 5000 });
+        return;
+      }
+      this.dialogRef.close({ action: 'added', selections: printSelections, result });
+    });
+  }
+
   close(): void {
     this.dialogRef.close();
   }
@@ -3,6 +3,7 @@ import { MatDialog } from '@angular/material/dialog';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { Router } from '@angular/router';
 
+import { AuthService } from '../../../core/services/auth.service';
 import { CartService } from '../../../core/services/cart.service';
 import { Cart, CartItem } from '../../../shared/models/cart.models';
 import { PrintSelectorComponent } from '../../photo/print-selector/print-selector.component';
@@ -20,7 +21,7 @@ import { PrintSelectorComponent } from '../../photo/print-selector/print-selecto
  * - Remove individual items or clear entire cart
  * - Real-time total calculations
  * - Responsive design for mobile devices
- * - Checkout navigation with validation
+ * - Checkout navigation with validation (disabled while an admin is viewing as the customer)
  */
 @Component({
   selector: 'app-cart',
@@ -115,13 +116,17 @@ import { PrintSelectorComponent } from '../../photo/print-selector/print-selecto
               <span>Total:</span>
               <span>{{ cart.summary.total | currency:'USD':'symbol':'1.2-2' }}</span>
             </div>
+            <p class="impersonation-note" *ngIf="isImpersonating">
+              <mat-icon>block</mat-icon>
+              Checkout is disabled while viewing as a customer
+            </p>
           </mat-card-content>
 
           <mat-card-actions>
             <button mat-button routerLink="/photos">Continue Shopping</button>
             <button mat-raised-button color="primary"
                     (click)="proceedToCheckout()"
-                    [disabled]="cart.items.length === 0 || isLoading">
+                    [disabled]="cart.items.length === 0 || isLoading || isImpersonating">
               Checkout
             </button>
           </mat-card-actions>
@@ -290,6 +295,15 @@ import { PrintSelectorComponent } from '../../photo/print-selector/print-selecto
       color: #333;
     }
 
+    .impersonation-note {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 12px 0 0 0;
+      color: #e65100;
+      font-size: 0.9em;
+    }
+
     .summary-row {
       display: flex;
       justify-content: space-between;
@@ -412,6 +426,7 @@ export class CartComponent implements OnInit {
 
   constructor(
     private cartService: CartService, // Service for cart operations
+    private authService: AuthService, // To block checkout during impersonation
     private router: Router, // For navigation to checkout
     private snackBar: MatSnackBar, // For user feedback messages
     private dialog: MatDialog // For opening edit dialog
@@ -541,6 +556,10 @@ export class CartComponent implements OnInit {
     });
   }
 
+  get isImpersonating(): boolean {
+    return this.authService.isImpersonating();
+  }
+
   /**
    * Navigates to the checkout page.
    * Validates that cart has items before proceeding.
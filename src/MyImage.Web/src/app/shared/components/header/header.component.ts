@@ -4,6 +4,8 @@ import { Subject } from 'rxjs';
 import { map, takeUntil } from 'rxjs/operators';
 import { AuthService } from '../../../core/services/auth.service';
 import { CartService } from '../../../core/services/cart.service';
+import { ImpersonationService } from '../../../core/services/impersonation.service';
+import { UploadQueueService, UploadQueueSummary } from '../../../core/services/upload-queue.service';
 
 /**
  * Fixed HeaderComponent with proper cart count handling and cleanup.
@@ -14,6 +16,8 @@ import { CartService } from '../../../core/services/cart.service';
  * - Null-safe cart count handling
  * - Responsive design improvements
  * - Better user experience with loading states
+ * - Banner while an admin is viewing the site as a customer
+ * - Progress of background uploads
  */
 @Component({
   selector: 'app-header',
@@ -32,6 +36,17 @@ import { CartService } from '../../../core/services/cart.service';
 
         <!-- Authenticated User Menu -->
         <div *ngIf="currentUser$ | async as user" class="user-menu">
+          <!-- Background Upload Progress -->
+          <button *ngIf="uploadSummary$ | async as upload"
+                  mat-icon-button
+                  routerLink="/photos/upload"
+                  class="upload-indicator"
+                  [matTooltip]="getUploadTooltip(upload)">
+            <mat-progress-spinner mode="determinate" [value]="upload.progress" diameter="32" strokeWidth="3">
+            </mat-progress-spinner>
+            <mat-icon>{{ upload.offline ? 'cloud_off' : upload.paused ? 'pause' : 'arrow_upward' }}</mat-icon>
+          </button>
+
           <!-- Cart Icon with Count -->
           <button mat-icon-button routerLink="/cart" class="cart-button" matTooltip="Shopping Cart">
             <mat-icon
@@ -44,7 +59,7 @@ import { CartService } from '../../../core/services/cart.service';
           </button>
 
           <!-- Admin Menu -->
-          <button *ngIf="isAdmin"
+          <button *appHasPermission="'admin.access'"
                   mat-button
                   routerLink="/admin"
                   class="admin-button"
@@ -86,11 +101,21 @@ import { CartService } from '../../../core/services/cart.service';
               <mat-icon>shopping_cart</mat-icon>
               <span>Shopping Cart</span>
             </button>
+            <button mat-menu-item routerLink="/account">
+              <mat-icon>manage_accounts</mat-icon>
+              <span>Account Settings</span>
+            </button>
             <mat-divider></mat-divider>
-            <button mat-menu-item (click)="logout()" class="logout-button">
-              <mat-icon>logout</mat-icon>
-              <span>Logout</span>
+            <button *ngIf="impersonation$ | async; else logoutItem" mat-menu-item (click)="exitImpersonation()">
+              <mat-icon>exit_to_app</mat-icon>
+              <span>Exit Customer View</span>
             </button>
+            <ng-template #logoutItem>
+              <button mat-menu-item (click)="logout()" class="logout-button">
+                <mat-icon>logout</mat-icon>
+                <span>Logout</span>
+              </button>
+            </ng-template>
           </mat-menu>
         </div>
 
@@ -107,6 +132,18 @@ import { CartService } from '../../../core/services/cart.service';
         </div>
       </div>
     </mat-toolbar>
+
+    <!-- Impersonation Banner - fixed so it stays visible on every page and scroll position -->
+    <div *ngIf="impersonation$ | async as impersonation" class="impersonation-banner" role="status">
+      <mat-icon>visibility</mat-icon>
+      <span class="impersonation-text">
+        Viewing as <strong>{{ impersonation.customer.firstName }} {{ impersonation.customer.lastName }}</strong>
+        ({{ impersonation.customer.email }}). Checkout and payments are disabled.
+      </span>
+      <button mat-stroked-button (click)="exitImpersonation()">
+        Exit Customer View
+      </button>
+    </div>
   `,
   styles: [`
     .header-toolbar {
@@ -158,6 +195,24 @@ import { CartService } from '../../../core/services/cart.service';
       font-size: 24px;
     }
 
+    .upload-indicator {
+      position: relative;
+    }
+
+    .upload-indicator mat-progress-spinner {
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      --mdc-circular-progress-active-indicator-color: white;
+    }
+
+    .upload-indicator .mat-icon {
+      font-size: 18px;
+      width: 18px;
+      height: 18px;
+    }
+
     .admin-button {
       display: flex;
       align-items: center;
@@ -232,6 +287,27 @@ import { CartService } from '../../../core/services/cart.service';
       gap: 4px;
     }
 
+    .impersonation-banner {
+      position: fixed;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      z-index: 1100;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 12px;
+      padding: 8px 16px;
+      background: #e65100;
+      color: white;
+      box-shadow: 0 -2px 4px rgba(0,0,0,0.2);
+    }
+
+    .impersonation-banner button {
+      color: white;
+      border-color: rgba(255, 255, 255, 0.7);
+    }
+
     /* Responsive Design */
     @media (max-width: 768px) {
       .toolbar-content {
@@ -279,6 +355,11 @@ import { CartService } from '../../../core/services/cart.service';
 })
 export class HeaderComponent implements OnInit, OnDestroy {
   currentUser$ = this.authService.currentUser$;
+  impersonation$ = this.impersonationService.impersonation$;
+  // Only while something is still uploading
+  uploadSummary$ = this.uploadQueue.summary$.pipe(
+    map(summary => summary && summary.remaining > 0 ? summary : null)
+  );
   cartItemCount = 0;
 
   // Subject for component cleanup
@@ -287,6 +368,8 @@ export class HeaderComponent implements OnInit, OnDestroy {
   constructor(
     private authService: AuthService,
     private cartService: CartService,
+    private impersonationService: ImpersonationService,
+    private uploadQueue: UploadQueueService,
     private router: Router
   ) {}
 
@@ -323,8 +406,17 @@ export class HeaderComponent implements OnInit, OnDestroy {
     return this.authService.isAuthenticated();
   }
 
-  get isAdmin(): boolean {
-    return this.authService.isAdmin();
+  getUploadTooltip(upload: UploadQueueSummary): string {
+    if (upload.offline) {
+      return `Offline - ${upload.remaining} photos will upload when you're back online`;
+    }
+    return upload.paused
+      ? `Uploads paused - ${upload.remaining} photos left`
+      : `Uploading photos: ${upload.completed} of ${upload.total} done`;
+  }
+
+  exitImpersonation(): void {
+    this.impersonationService.stop();
   }
 
   logout(): void {
@@ -0,0 +1,71 @@
+import { Component } from '@angular/core';
+import { IdleService } from '../../../core/services/idle.service';
+
+/**
+ * Full-screen overlay shown when the user is about to be signed out for inactivity.
+ * Covers the page so the next customer at a shared computer can't see the
+ * previous one's photos while the countdown runs.
+ */
+@Component({
+  selector: 'app-idle-warning',
+  standalone: false,
+  template: `
+    <div class="idle-overlay" *ngIf="idleService.warning$ | async as secondsLeft" role="alertdialog"
+         aria-labelledby="idle-warning-title" aria-live="assertive">
+      <div class="idle-panel">
+        <mat-icon class="idle-icon">hourglass_bottom</mat-icon>
+        <h2 id="idle-warning-title">Are you still there?</h2>
+        <p>You'll be signed out due to inactivity in</p>
+        <div class="countdown">{{ secondsLeft }}s</div>
+        <button mat-raised-button color="primary" (click)="idleService.stayActive()" cdkFocusInitial>
+          I'm Still Here
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .idle-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 2000;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(33, 33, 33, 0.92);
+    }
+
+    .idle-panel {
+      background: white;
+      border-radius: 8px;
+      padding: 32px 40px;
+      text-align: center;
+      max-width: 360px;
+    }
+
+    .idle-icon {
+      font-size: 48px;
+      width: 48px;
+      height: 48px;
+      color: #ff9800;
+    }
+
+    h2 {
+      margin: 12px 0 8px;
+    }
+
+    p {
+      color: #666;
+    }
+
+    .countdown {
+      font-size: 2.5em;
+      font-weight: 500;
+      color: #3f51b5;
+      margin: 16px 0 24px;
+      font-variant-numeric: tabular-nums;
+    }
+  `]
+})
+export class IdleWarningComponent {
+  constructor(public idleService: IdleService) {}
+}
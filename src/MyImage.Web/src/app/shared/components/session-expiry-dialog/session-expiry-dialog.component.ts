@@ -0,0 +1,118 @@
+import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { Subject, interval } from 'rxjs';
+import { startWith, takeUntil } from 'rxjs/operators';
+
+export interface SessionExpiryDialogData {
+  expiresAt: Date;
+  canExtend: boolean; // False without a refresh token or a refresh endpoint
+}
+
+export type SessionExpiryDialogResult = 'extend' | 'signout';
+
+/**
+ * Warning dialog shown shortly before the session token expires.
+ * Counts down to expiry and lets the user extend the session, when it can
+ * be extended, or sign out.
+ * SessionService closes it on its own when the session actually expires.
+ */
+@Component({
+  selector: 'app-session-expiry-dialog',
+  standalone: false,
+  template: `
+    <div class="dialog-container">
+      <h2 mat-dialog-title>
+        <mat-icon class="title-icon">timer</mat-icon>
+        Your session is about to expire
+      </h2>
+
+      <mat-dialog-content>
+        <p>For your security you will be signed out in</p>
+        <div class="countdown">{{ formatRemaining() }}</div>
+        <p class="hint">Any unsaved changes on this page will be lost when you are signed out.</p>
+        <p class="hint" *ngIf="!data.canExtend">This session can't be extended. Save your work and sign in again to continue.</p>
+      </mat-dialog-content>
+
+      <mat-dialog-actions align="end">
+        <button mat-button (click)="signOut()">Sign Out</button>
+        <button mat-raised-button color="primary" *ngIf="data.canExtend" (click)="staySignedIn()" cdkFocusInitial>
+          Stay Signed In
+        </button>
+        <button mat-raised-button color="primary" *ngIf="!data.canExtend" (click)="dismiss()" cdkFocusInitial>
+          OK
+        </button>
+      </mat-dialog-actions>
+    </div>
+  `,
+  styles: [`
+    .dialog-container {
+      min-width: 360px;
+    }
+
+    h2 {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .title-icon {
+      color: #ff9800;
+    }
+
+    .countdown {
+      font-size: 2.5em;
+      font-weight: 500;
+      text-align: center;
+      color: #3f51b5;
+      margin: 16px 0;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .hint {
+      color: #666;
+      font-size: 0.9em;
+    }
+  `]
+})
+export class SessionExpiryDialogComponent implements OnInit, OnDestroy {
+  remainingSeconds = 0;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    @Inject(MAT_DIALOG_DATA) public data: SessionExpiryDialogData,
+    private dialogRef: MatDialogRef<SessionExpiryDialogComponent, SessionExpiryDialogResult>
+  ) {}
+
+  ngOnInit(): void {
+    interval(1000).pipe(
+      startWith(0),
+      takeUntil(this.destroy$)
+    ).subscribe(() => {
+      this.remainingSeconds = Math.max(0, Math.ceil((this.data.expiresAt.getTime() - Date.now()) / 1000));
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  staySignedIn(): void {
+    this.dialogRef.close('extend');
+  }
+
+  signOut(): void {
+    this.dialogRef.close('signout');
+  }
+
+  dismiss(): void {
+    this.dialogRef.close();
+  }
+
+  formatRemaining(): string {
+    const minutes = Math.floor(this.remainingSeconds / 60);
+    const seconds = this.remainingSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,51 @@
+import { Component } from '@angular/core';
+import { map } from 'rxjs';
+import { UploadQueueService } from '../../../core/services/upload-queue.service';
+
+/**
+ * Strip under the header that tells the customer, on any page, how many
+ * photos haven't uploaded yet and why they're waiting.
+ */
+@Component({
+  selector: 'app-upload-banner',
+  standalone: false,
+  template: `
+    <div class="upload-banner" *ngIf="waiting$ | async as upload" [class.offline]="upload.offline" role="status">
+      <mat-icon>{{ upload.offline ? 'cloud_off' : upload.paused ? 'pause_circle' : 'cloud_upload' }}</mat-icon>
+      <span class="message">
+        {{ upload.remaining }} {{ upload.remaining === 1 ? 'photo' : 'photos' }} waiting to upload
+        <ng-container *ngIf="upload.offline"> - they'll continue when you're back online</ng-container>
+        <ng-container *ngIf="!upload.offline && upload.paused"> - uploads are paused</ng-container>
+      </span>
+      <button mat-button routerLink="/photos/upload">View</button>
+    </div>
+  `,
+  styles: [`
+    .upload-banner {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 4px 16px;
+      background: #e8eaf6;
+      color: #283593;
+      font-size: 0.9em;
+    }
+
+    .upload-banner.offline {
+      background: #fff3e0;
+      color: #e65100;
+    }
+
+    .message {
+      flex: 1;
+    }
+  `]
+})
+export class UploadBannerComponent {
+  // Only while something is still waiting or uploading
+  waiting$ = this.uploadQueue.summary$.pipe(
+    map(summary => summary && summary.remaining > 0 ? summary : null)
+  );
+
+  constructor(private uploadQueue: UploadQueueService) {}
+}
@@ -0,0 +1,84 @@
+import { Directive, ElementRef, Input, OnChanges, OnDestroy, Renderer2 } from '@angular/core';
+import { ExifUtil } from '../utils/exif.util';
+
+/**
+ * Displays an image upright according to an EXIF orientation value.
+ *
+ * Thumbnails are resized from the original without rotating the pixels, so
+ * the orientation has to be applied when showing them. The browser's own
+ * handling is turned off so a tag left in the file can't rotate it twice.
+ *
+ * For quarter turns the image is sized to the swapped box of its parent
+ * (which must be positioned), so `object-fit: cover` still fills it.
+ *
+ * Usage:
+ *   <img [src]="url" [appExifOrientation]="orientation">
+ */
+@Directive({
+  selector: 'img[appExifOrientation]',
+  standalone: false
+})
+export class ExifOrientationDirective implements OnChanges, OnDestroy {
+  @Input() appExifOrientation: number | null | undefined = 1;
+
+  private resizeObserver: ResizeObserver | null = null;
+
+  constructor(
+    private el: ElementRef<HTMLImageElement>,
+    private renderer: Renderer2
+  ) {}
+
+  ngOnChanges(): void {
+    this.apply();
+  }
+
+  ngOnDestroy(): void {
+    this.resizeObserver?.disconnect();
+  }
+
+  private apply(): void {
+    const img = this.el.nativeElement;
+    const transform = ExifUtil.cssTransform(this.appExifOrientation);
+
+    this.renderer.setStyle(img, 'image-orientation', 'none');
+
+    if (!ExifUtil.swapsDimensions(this.appExifOrientation)) {
+      this.resizeObserver?.disconnect();
+      this.resizeObserver = null;
+      ['position', 'top', 'left', 'width', 'height'].forEach(style => this.renderer.removeStyle(img, style));
+      this.setTransform(transform);
+      return;
+    }
+
+    const parent = img.parentElement;
+    if (!parent) {
+      this.setTransform(transform);
+      return;
+    }
+
+    this.renderer.setStyle(img, 'position', 'absolute');
+    this.renderer.setStyle(img, 'top', '50%');
+    this.renderer.setStyle(img, 'left', '50%');
+    this.setTransform(`translate(-50%, -50%) ${transform}`);
+    this.fitToParent(parent);
+
+    if (!this.resizeObserver && typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.fitToParent(parent));
+      this.resizeObserver.observe(parent);
+    }
+  }
+
+  private fitToParent(parent: HTMLElement): void {
+    // Rotated a quarter turn, the image's width runs along the parent's height
+    this.renderer.setStyle(this.el.nativeElement, 'width', `${parent.clientHeight}px`);
+    this.renderer.setStyle(this.el.nativeElement, 'height', `${parent.clientWidth}px`);
+  }
+
+  private setTransform(transform: string): void {
+    if (transform) {
+      this.renderer.setStyle(this.el.nativeElement, 'transform', transform);
+    } else {
+      this.renderer.removeStyle(this.el.nativeElement, 'transform');
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { Directive, Input, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from '../../core/services/auth.service';
+import { Permission } from '../models/permission.models';
+
+/**
+ * Structural directive that renders its content only when the current user
+ * holds the given permission(s). Re-evaluates whenever the user changes.
+ *
+ * Usage:
+ *   <button *appHasPermission="'orders.manage'">...</button>
+ *   <div *appHasPermission="['pricing.view', 'pricing.edit']; else readOnly">...</div>
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: false
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  private required: Permission[] = [];
+  private elseTemplate: TemplateRef<unknown> | null = null;
+  private rendered: 'then' | 'else' | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  @Input()
+  set appHasPermission(permission: Permission | Permission[]) {
+    this.required = Array.isArray(permission) ? permission : [permission];
+    this.updateView();
+  }
+
+  @Input()
+  set appHasPermissionElse(template: TemplateRef<unknown> | null) {
+    this.elseTemplate = template;
+    this.rendered = null; // Force a re-render with the new else template
+    this.updateView();
+  }
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    this.authService.currentUser$.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(() => this.updateView());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private updateView(): void {
+    const allowed = this.authService.hasPermission(this.required);
+    const next = allowed ? 'then' : 'else';
+
+    if (next === this.rendered) {
+      return;
+    }
+
+    this.viewContainer.clear();
+    if (allowed) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+    } else if (this.elseTemplate) {
+      this.viewContainer.createEmbeddedView(this.elseTemplate);
+    }
+    this.rendered = next;
+  }
+}
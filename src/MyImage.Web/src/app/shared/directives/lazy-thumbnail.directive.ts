@@ -0,0 +1,97 @@
+import { CdkScrollable } from '@angular/cdk/scrolling';
+import { Directive, ElementRef, EventEmitter, Input, NgZone, OnDestroy, OnInit, Optional, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ThumbnailLoaderService } from '../../core/services/thumbnail-loader.service';
+
+/**
+ * Loads a photo's thumbnail once its tile comes near the viewport.
+ *
+ * Tiles are watched against the nearest CDK scroll container, or the page
+ * when there is none. A tile that scrolls away before its turn gives up its
+ * place in the queue; one that's already loaded is left alone.
+ *
+ * Usage:
+ *   <div [appLazyThumbnail]="photo.id" (thumbnailLoad)="show($event)" (thumbnailError)="fail()">
+ */
+@Directive({
+  selector: '[appLazyThumbnail]',
+  standalone: false
+})
+export class LazyThumbnailDirective implements OnInit, OnDestroy {
+  @Input() appLazyThumbnail = '';
+
+  @Output() thumbnailLoad = new EventEmitter<string>();
+  @Output() thumbnailError = new EventEmitter<unknown>();
+
+  // How far outside the viewport a tile starts loading, in pixels
+  private readonly PRELOAD_MARGIN = 400;
+
+  private observer: IntersectionObserver | null = null;
+  private request: Subscription | null = null;
+
+  constructor(
+    private el: ElementRef<HTMLElement>,
+    private loader: ThumbnailLoaderService,
+    private ngZone: NgZone,
+    @Optional() private scrollable: CdkScrollable | null
+  ) {}
+
+  ngOnInit(): void {
+    if (typeof IntersectionObserver === 'undefined') {
+      this.start(0);
+      return;
+    }
+
+    this.observer = new IntersectionObserver(
+      entries => entries.forEach(entry => this.onIntersection(entry)),
+      {
+        root: this.scrollable?.getElementRef().nativeElement ?? null,
+        rootMargin: `${this.PRELOAD_MARGIN}px`
+      }
+    );
+    this.observer.observe(this.el.nativeElement);
+  }
+
+  ngOnDestroy(): void {
+    this.observer?.disconnect();
+    this.request?.unsubscribe();
+  }
+
+  private onIntersection(entry: IntersectionObserverEntry): void {
+    if (!entry.isIntersecting) {
+      this.ngZone.run(() => this.cancel());
+      return;
+    }
+
+    // Tiles on screen have priority 0; the rest queue by how far off screen they are.
+    // rootBounds includes the preload margin, so measure against the root itself.
+    const root = this.scrollable?.getElementRef().nativeElement.getBoundingClientRect()
+      ?? { top: 0, bottom: window.innerHeight };
+    const tile = entry.boundingClientRect;
+    const distance = Math.max(0, tile.top - root.bottom, root.top - tile.bottom);
+
+    if (this.request) {
+      this.loader.reprioritize(this.appLazyThumbnail, distance);
+    } else {
+      this.ngZone.run(() => this.start(distance));
+    }
+  }
+
+  private start(priority: number): void {
+    this.request = this.loader.load(this.appLazyThumbnail, priority).subscribe({
+      next: url => {
+        this.observer?.disconnect();
+        this.thumbnailLoad.emit(url);
+      },
+      error: error => {
+        this.observer?.disconnect();
+        this.thumbnailError.emit(error);
+      }
+    });
+  }
+
+  private cancel(): void {
+    this.request?.unsubscribe();
+    this.request = null;
+  }
+}
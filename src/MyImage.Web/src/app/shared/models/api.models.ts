@@ -15,3 +15,11 @@ export interface PagedResult<T> {
   hasNextPage: boolean;
   hasPreviousPage: boolean;
 }
+
+/**
+ * Outcome of applying one action to many items, each succeeding or failing on its own.
+ */
+export interface BulkResult {
+  succeeded: string[];
+  failed: { id: string; message: string }[];
+}
@@ -1,6 +1,9 @@
+import { Permission } from './permission.models';
+
 export interface LoginRequest {
   identifier: string; // Can be email or userId
   password: string;
+  rememberMe?: boolean; // Keep the session after the browser is closed
 }
 
 export interface RegisterRequest {
@@ -10,6 +13,27 @@ export interface RegisterRequest {
   lastName: string;
 }
 
+export interface UpdateProfileRequest {
+  firstName: string;
+  lastName: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  confirmNewPassword: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string; // From the link in the reset email
+  newPassword: string;
+  confirmNewPassword: string;
+}
+
 export interface AuthResponse {
   userId: string;
   email: string;
@@ -19,4 +43,48 @@ export interface AuthResponse {
   token: string;
   expiresIn: number;
   tokenType: string;
+  refreshToken?: string; // Long-lived token used to obtain a new access token
+  permissions?: Permission[]; // Granted on top of the role's default permissions
+  emailVerified?: boolean; // False until the link in the verification email is opened
+}
+
+export interface ImpersonationRequest {
+  customerEmail: string;
+}
+
+// An admin viewing the site as a customer. Kept per tab so other tabs stay signed in as the admin
+export interface ImpersonationSession {
+  customer: AuthResponse; // Short-lived session issued by the API for the customer
+  admin: AuthResponse; // Restored when the admin exits
+  startedAt: string;
+}
+
+// Returned by /auth/login instead of an AuthResponse when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string; // Identifies the half-finished login, expires quickly
+  expiresIn: number;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
+export interface TwoFactorVerifyRequest {
+  challengeToken: string;
+  code: string; // Authenticator code or recovery code
+  isRecoveryCode: boolean;
+  rememberMe?: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string; // Base32, shown for manual entry
+  otpauthUri: string; // Encoded into the QR code
+}
+
+export interface TwoFactorRecoveryCodes {
+  recoveryCodes: string[];
 }
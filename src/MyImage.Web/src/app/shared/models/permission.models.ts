@@ -0,0 +1,32 @@
+export type Permission =
+  | 'photos.manage'
+  | 'cart.manage'
+  | 'orders.place'
+  | 'admin.access'
+  | 'orders.view'
+  | 'orders.manage'
+  | 'pricing.view'
+  | 'pricing.edit'
+  | 'kiosk.configure'
+  | 'customers.impersonate';
+
+const CUSTOMER_PERMISSIONS: Permission[] = [
+  'photos.manage',
+  'cart.manage',
+  'orders.place'
+];
+
+// Permissions granted by each role. The API can grant extra ones through AuthResponse.permissions
+export const ROLE_PERMISSIONS: { [role: string]: Permission[] } = {
+  customer: CUSTOMER_PERMISSIONS,
+  admin: [
+    ...CUSTOMER_PERMISSIONS,
+    'admin.access',
+    'orders.view',
+    'orders.manage',
+    'pricing.view',
+    'pricing.edit',
+    'kiosk.configure',
+    'customers.impersonate'
+  ]
+};
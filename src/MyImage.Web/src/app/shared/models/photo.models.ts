@@ -1,3 +1,5 @@
+import { PagedResult } from './api.models';
+
 export interface Photo {
   id: string;
   filename: string;
@@ -12,11 +14,96 @@ export interface Photo {
   };
   isOrdered: boolean;
   sourceFolder: string;
+  metadata?: PhotoMetadata; // Camera details read from EXIF, when the photo had any
+  contentHash?: string; // SHA-256 of the file as the user selected it
+}
+
+export type PhotoSortField = 'uploadedAt' | 'capturedAt' | 'filename' | 'fileSize' | 'resolution';
+
+export type PhotoOrientation = 'landscape' | 'portrait' | 'square';
+
+/**
+ * Sort, filters and search for listing photos. Anything left out means no
+ * filter; the default order is newest upload first.
+ */
+export interface PhotoQuery {
+  sortBy: PhotoSortField;
+  sortDirection: 'asc' | 'desc';
+  search?: string; // Part of the filename
+  isOrdered?: boolean;
+  orientation?: PhotoOrientation;
+  sourceFolder?: string;
+  minPrintSize?: string; // PrintSize.sizeCode the photo must print well at
+}
+
+/**
+ * A page of the gallery. `query` is what the API applied; older APIs leave it out.
+ */
+export interface PhotoGalleryPage extends PagedResult<Photo> {
+  query?: Partial<PhotoQuery>;
+  sourceFolders?: string[]; // Every folder uploaded from; first page only
+}
+
+export interface PhotoMetadata {
+  orientation: number; // EXIF orientation 1-8; 1 = stored upright
+  capturedAt?: string; // Camera's local time, no time zone
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  exposureTime?: number; // Seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // Millimetres
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number; // Metres above sea level
+  };
 }
 
 export interface PhotoUploadResult {
   uploadedPhotos: Photo[];
-  failedUploads: any[];
+  failedUploads: FailedUpload[];
   totalUploaded: number;
   sourceFolder: string;
+  skippedDuplicates?: SkippedDuplicate[];
+}
+
+/**
+ * Why a file didn't upload. The first five come from the API; the last two
+ * are set in the browser when the API couldn't say.
+ */
+export type UploadErrorCode =
+  | 'FILE_TOO_LARGE'
+  | 'EMPTY_FILE'
+  | 'INVALID_FORMAT'
+  | 'VALIDATION_FAILED' // Not a readable image, e.g. a corrupt file
+  | 'PROCESSING_ERROR'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR';
+
+/**
+ * Mirrors the backend FailedUploadDto.
+ */
+export interface FailedUpload {
+  filename: string;
+  errorMessage: string;
+  errorCode: UploadErrorCode;
+}
+
+/**
+ * A file left out of an upload because the user already has the same photo.
+ */
+export interface SkippedDuplicate {
+  filename: string;
+  duplicateOf: string;
+}
+
+/**
+ * An uploaded photo whose content hash matched one being checked.
+ */
+export interface ExistingPhotoMatch {
+  contentHash: string;
+  photoId: string;
+  filename: string;
 }
@@ -0,0 +1,37 @@
+import { PrintSize } from './print-size.models';
+
+export type ExposureLevel = 'under' | 'ok' | 'over';
+
+/**
+ * What the pixels of a photo say about how it will print, measured before upload.
+ */
+export interface ImageAnalysis {
+  width: number; // As displayed, after EXIF orientation
+  height: number;
+  sharpness: number; // Variance of the Laplacian; low means little fine detail
+  isBlurry: boolean;
+  exposure: ExposureLevel;
+  meanBrightness: number; // 0-255
+  shadowClipping: number; // Share of pixels that are pure black, 0-1
+  highlightClipping: number; // Share of pixels that are pure white, 0-1
+}
+
+/**
+ * How big a photo can be printed from the active print sizes.
+ */
+export interface PrintFit {
+  largestGood?: PrintSize; // Largest size printed at the recommended resolution
+  largestAcceptable?: PrintSize; // Largest size that meets the minimum resolution
+  dpi?: number; // Resolution of the largest good print, in dots per inch
+}
+
+export interface PrintQualityRequest {
+  id: number;
+  file: File;
+}
+
+export interface PrintQualityResponse {
+  id: number;
+  analysis?: ImageAnalysis;
+  error?: string;
+}
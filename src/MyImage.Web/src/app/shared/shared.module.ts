@@ -0,0 +1,26 @@
+import { CommonModule } from '@angular/common';
+import { NgModule } from '@angular/core';
+
+import { ExifOrientationDirective } from './directives/exif-orientation.directive';
+import { HasPermissionDirective } from './directives/has-permission.directive';
+import { LazyThumbnailDirective } from './directives/lazy-thumbnail.directive';
+
+/**
+ * Declarations shared between the root module and lazy-loaded feature modules.
+ */
+@NgModule({
+  declarations: [
+    HasPermissionDirective,
+    ExifOrientationDirective,
+    LazyThumbnailDirective
+  ],
+  imports: [
+    CommonModule
+  ],
+  exports: [
+    HasPermissionDirective,
+    ExifOrientationDirective,
+    LazyThumbnailDirective
+  ]
+})
+export class SharedModule { }
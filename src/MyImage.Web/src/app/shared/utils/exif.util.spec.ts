@@ -0,0 +1,227 @@
+import { ExifUtil } from './exif.util';
+
+interface Entry {
+  tag: number;
+  type: number;
+  count: number;
+  write: (view: DataView, offset: number, little: boolean) => void;
+}
+
+const TYPE_SIZES: { [type: number]: number } = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8 };
+
+const ascii = (tag: number, text: string): Entry => ({
+  tag, type: 2, count: text.length + 1,
+  write: (view, offset) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)))
+});
+
+const byte = (tag: number, value: number): Entry => ({
+  tag, type: 1, count: 1,
+  write: (view, offset) => view.setUint8(offset, value)
+});
+
+const short = (tag: number, value: number): Entry => ({
+  tag, type: 3, count: 1,
+  write: (view, offset, little) => view.setUint16(offset, value, little)
+});
+
+const long = (tag: number, value: number): Entry => ({
+  tag, type: 4, count: 1,
+  write: (view, offset, little) => view.setUint32(offset, value, little)
+});
+
+const rational = (tag: number, ...values: [number, number][]): Entry => ({
+  tag, type: 5, count: values.length,
+  write: (view, offset, little) => values.forEach(([numerator, denominator], i) => {
+    view.setUint32(offset + i * 8, numerator, little);
+    view.setUint32(offset + i * 8 + 4, denominator, little);
+  })
+});
+
+// TIFF block with IFD0 and optional EXIF and GPS directories, laid out one after another
+function tiff(ifd0: Entry[], exif: Entry[] = [], gps: Entry[] = [], little = true): Uint8Array {
+  const ifdSize = (entries: Entry[]) => entries.length ? 2 + entries.length * 12 + 4 : 0;
+  const pointers = (exif.length ? 1 : 0) + (gps.length ? 1 : 0);
+  const exifOffset = 8 + 2 + (ifd0.length + pointers) * 12 + 4;
+  const gpsOffset = exifOffset + ifdSize(exif);
+  const dataStart = gpsOffset + ifdSize(gps);
+
+  const first = [
+    ...ifd0,
+    ...(exif.length ? [long(0x8769, exifOffset)] : []),
+    ...(gps.length ? [long(0x8825, gpsOffset)] : [])
+  ];
+  const ifds = [first, exif, gps].filter(entries => entries.length);
+  const byteLength = (entry: Entry) => TYPE_SIZES[entry.type] * entry.count;
+  const dataSize = ifds.flat().reduce((sum, entry) => sum + (byteLength(entry) > 4 ? byteLength(entry) : 0), 0);
+
+  const bytes = new Uint8Array(dataStart + dataSize);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, little ? 0x4949 : 0x4D4D);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+
+  let offset = 8;
+  let data = dataStart;
+  for (const entries of ifds) {
+    view.setUint16(offset, entries.length, little);
+    entries.forEach((entry, i) => {
+      const at = offset + 2 + i * 12;
+      view.setUint16(at, entry.tag, little);
+      view.setUint16(at + 2, entry.type, little);
+      view.setUint32(at + 4, entry.count, little);
+      if (byteLength(entry) <= 4) {
+        entry.write(view, at + 8, little);
+      } else {
+        view.setUint32(at + 8, data, little);
+        entry.write(view, data, little);
+        data += byteLength(entry);
+      }
+    });
+    offset += ifdSize(entries);
+  }
+
+  return bytes;
+}
+
+// JPEG with a JFIF segment, then the EXIF segment when given, then the start of image data
+function jpeg(exif?: Uint8Array): ArrayBuffer {
+  const app1 = exif
+    ? [0xFF, 0xE1, (exif.length + 8) >> 8, (exif.length + 8) & 0xFF, 0x45, 0x78, 0x69, 0x66, 0, 0, ...exif]
+    : [];
+  return new Uint8Array([
+    0xFF, 0xD8,
+    0xFF, 0xE0, 0x00, 0x04, 0x00, 0x00,
+    ...app1,
+    0xFF, 0xDA, 0x00, 0x02
+  ]).buffer;
+}
+
+const camera = (little: boolean) => jpeg(tiff(
+  [ascii(0x010F, 'Canon'), ascii(0x0110, 'EOS R6'), short(0x0112, 6)],
+  [
+    rational(0x829A, [1, 250]),
+    rational(0x829D, [28, 10]),
+    short(0x8827, 400),
+    ascii(0x9003, '2024:06:01 14:30:00'),
+    rational(0x920A, [50, 1]),
+    ascii(0xA434, 'RF50mm F1.8 STM')
+  ],
+  [],
+  little
+));
+
+describe('ExifUtil', () => {
+  describe('parse', () => {
+    it('should read camera, settings and date in Intel byte order', () => {
+      expect(ExifUtil.parse(camera(true))).toEqual(jasmine.objectContaining({
+        orientation: 6,
+        capturedAt: '2024-06-01T14:30:00',
+        cameraMake: 'Canon',
+        cameraModel: 'EOS R6',
+        lensModel: 'RF50mm F1.8 STM',
+        exposureTime: 0.004,
+        fNumber: 2.8,
+        iso: 400,
+        focalLength: 50
+      }));
+    });
+
+    it('should read the same tags in Motorola byte order', () => {
+      expect(ExifUtil.parse(camera(false))).toEqual(ExifUtil.parse(camera(true)));
+    });
+
+    it('should read GPS positions south and west of zero as negative', () => {
+      const metadata = ExifUtil.parse(jpeg(tiff([], [], [
+        ascii(0x0001, 'S'),
+        rational(0x0002, [33, 1], [51, 1], [54, 1]),
+        ascii(0x0003, 'W'),
+        rational(0x0004, [70, 1], [30, 1], [0, 1]),
+        byte(0x0005, 1),
+        rational(0x0006, [125, 2])
+      ])));
+
+      expect(metadata?.gps?.latitude).toBeCloseTo(-33.865, 3);
+      expect(metadata?.gps?.longitude).toBe(-70.5);
+      expect(metadata?.gps?.altitude).toBe(-62.5);
+    });
+
+    it('should leave GPS out without both coordinates', () => {
+      const metadata = ExifUtil.parse(jpeg(tiff([], [], [ascii(0x0001, 'N'), rational(0x0002, [10, 1], [0, 1], [0, 1])])));
+
+      expect(metadata?.gps).toBeUndefined();
+    });
+
+    it('should fall back to the modification date and skip blank dates', () => {
+      expect(ExifUtil.parse(jpeg(tiff([ascii(0x0132, '2023:12:24 09:05:00')])))?.capturedAt).toBe('2023-12-24T09:05:00');
+      expect(ExifUtil.parse(jpeg(tiff([ascii(0x0132, '0000:00:00 00:00:00')])))?.capturedAt).toBeUndefined();
+    });
+
+    it('should treat missing or invalid orientation as upright', () => {
+      expect(ExifUtil.parse(jpeg(tiff([ascii(0x010F, 'Canon')])))?.orientation).toBe(1);
+      expect(ExifUtil.parse(jpeg(tiff([short(0x0112, 9)])))?.orientation).toBe(1);
+    });
+
+    it('should return null for files without EXIF', () => {
+      expect(ExifUtil.parse(jpeg())).toBeNull();
+      expect(ExifUtil.parse(new Uint8Array([0x89, 0x50, 0x4E, 0x47]).buffer)).toBeNull();
+      expect(ExifUtil.parse(new ArrayBuffer(0))).toBeNull();
+    });
+
+    it('should return null rather than throw for truncated data', () => {
+      expect(ExifUtil.parse(camera(true).slice(0, 21))).toBeNull();
+    });
+  });
+
+  describe('fromBlob', () => {
+    it('should read metadata from a file', async () => {
+      const metadata = await ExifUtil.fromBlob(new Blob([camera(true)], { type: 'image/jpeg' }));
+
+      expect(metadata?.cameraModel).toBe('EOS R6');
+    });
+  });
+
+  describe('copyExif', () => {
+    const read = async (blob: Blob) => ExifUtil.parse(await blob.arrayBuffer());
+
+    it('should carry the camera details over to a re-encoded copy, upright', async () => {
+      const copy = await ExifUtil.copyExif(new Blob([camera(false)]), new Blob([jpeg()], { type: 'image/jpeg' }));
+
+      expect(await read(copy)).toEqual({ ...ExifUtil.parse(camera(false))!, orientation: 1 });
+      expect(copy.type).toBe('image/jpeg');
+    });
+
+    it('should leave the copy alone when there is nothing to carry over', async () => {
+      const copy = new Blob([jpeg()]);
+      const png = new Blob([new Uint8Array([0x89, 0x50, 0x4E, 0x47])]);
+
+      expect(await ExifUtil.copyExif(new Blob([jpeg()]), copy)).toBe(copy);
+      expect(await ExifUtil.copyExif(new Blob([camera(true)]), png)).toBe(png);
+    });
+  });
+
+  describe('orientation', () => {
+    it('should swap width and height for orientations 5 to 8 only', () => {
+      expect([1, 2, 3, 4, 5, 6, 7, 8].map(o => ExifUtil.swapsDimensions(o))).toEqual([false, false, false, false, true, true, true, true]);
+      expect(ExifUtil.swapsDimensions(null)).toBeFalse();
+      expect(ExifUtil.orientedDimensions({ width: 6000, height: 4000 }, 6)).toEqual({ width: 4000, height: 6000 });
+      expect(ExifUtil.orientedDimensions({ width: 6000, height: 4000 }, 3)).toEqual({ width: 6000, height: 4000 });
+    });
+
+    it('should rotate the picture upright with CSS', () => {
+      expect(ExifUtil.cssTransform(1)).toBe('');
+      expect(ExifUtil.cssTransform(undefined)).toBe('');
+      expect(ExifUtil.cssTransform(3)).toBe('rotate(180deg)');
+      expect(ExifUtil.cssTransform(6)).toBe('rotate(90deg)');
+      expect(ExifUtil.cssTransform(8)).toBe('rotate(-90deg)');
+    });
+  });
+
+  describe('formatExposureTime', () => {
+    it('should write short exposures as fractions and long ones in seconds', () => {
+      expect(ExifUtil.formatExposureTime(0.004)).toBe('1/250 s');
+      expect(ExifUtil.formatExposureTime(1 / 3)).toBe('1/3 s');
+      expect(ExifUtil.formatExposureTime(2.5)).toBe('2.5 s');
+      expect(ExifUtil.formatExposureTime(30)).toBe('30 s');
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import { PhotoMetadata } from '../models/photo.models';
+
+type TagValue = string | number | number[];
+
+/**
+ * Minimal EXIF reader for JPEG files.
+ *
+ * Reads only the tags the app shows or needs: orientation, capture date,
+ * camera, exposure settings and GPS position. Anything malformed yields
+ * null rather than an exception - metadata is never worth failing over.
+ * The whole EXIF block can also be carried over to a re-encoded copy.
+ */
+export class ExifUtil {
+  // EXIF must sit in an APP1 segment, which can't exceed 64KB, near the start of the file
+  private static readonly HEADER_BYTES = 128 * 1024;
+
+  private static readonly TYPE_SIZES: { [type: number]: number } = {
+    1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8
+  };
+
+  private static readonly TAGS = {
+    make: 0x010F,
+    model: 0x0110,
+    orientation: 0x0112,
+    dateTime: 0x0132,
+    exifIfd: 0x8769,
+    gpsIfd: 0x8825,
+    exposureTime: 0x829A,
+    fNumber: 0x829D,
+    iso: 0x8827,
+    dateTimeOriginal: 0x9003,
+    focalLength: 0x920A,
+    lensModel: 0xA434,
+    gpsLatitudeRef: 0x0001,
+    gpsLatitude: 0x0002,
+    gpsLongitudeRef: 0x0003,
+    gpsLongitude: 0x0004,
+    gpsAltitudeRef: 0x0005,
+    gpsAltitude: 0x0006
+  };
+
+  /**
+   * Read metadata from a file or downloaded image. Only the first part of the blob is read.
+   */
+  static async fromBlob(blob: Blob): Promise<PhotoMetadata | null> {
+    try {
+      return ExifUtil.parse(await blob.slice(0, ExifUtil.HEADER_BYTES).arrayBuffer());
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse the EXIF block of a JPEG. Returns null when there isn't one.
+   */
+  static parse(buffer: ArrayBuffer): PhotoMetadata | null {
+    try {
+      const view = new DataView(buffer);
+      const segment = ExifUtil.findExifSegment(view);
+      return segment ? ExifUtil.readTiff(view, segment.start + 10, Math.min(view.byteLength, segment.end)) : null;
+    } catch {
+      return null; // Truncated or corrupt data
+    }
+  }
+
+  /**
+   * Give a re-encoded JPEG the EXIF block of the file it was made from, since
+   * canvas drops it. The copy's pixels are already upright, so its orientation
+   * is set to 1. The copy comes back unchanged when there's nothing to carry over.
+   */
+  static async copyExif(source: Blob, copy: Blob): Promise<Blob> {
+    try {
+      const header = await source.slice(0, ExifUtil.HEADER_BYTES).arrayBuffer();
+      const segment = ExifUtil.findExifSegment(new DataView(header));
+      const bytes = new Uint8Array(await copy.arrayBuffer());
+      if (!segment || segment.end > header.byteLength || bytes.length < 2 || bytes[0] !== 0xFF || bytes[1] !== 0xD8) {
+        return copy;
+      }
+
+      const exif = new Uint8Array(header.slice(segment.start, segment.end));
+      ExifUtil.resetOrientation(new DataView(exif.buffer), 10);
+
+      // Straight after the start-of-image marker, where readers look for it
+      return new Blob([bytes.subarray(0, 2), exif, bytes.subarray(2)], { type: copy.type || 'image/jpeg' });
+    } catch {
+      return copy;
+    }
+  }
+
+  /**
+   * Orientations 5-8 turn the picture a quarter turn, so width and height trade places.
+   */
+  static swapsDimensions(orientation: number | null | undefined): boolean {
+    return !!orientation && orientation >= 5 && orientation <= 8;
+  }
+
+  /**
+   * Dimensions of the photo as it should be displayed.
+   */
+  static orientedDimensions(
+    dimensions: { width: number; height: number },
+    orientation: number | null | undefined
+  ): { width: number; height: number } {
+    return ExifUtil.swapsDimensions(orientation)
+      ? { width: dimensions.height, height: dimensions.width }
+      : { width: dimensions.width, height: dimensions.height };
+  }
+
+  /**
+   * CSS transform that displays stored pixels upright. Empty for orientation 1.
+   */
+  static cssTransform(orientation: number | null | undefined): string {
+    switch (orientation) {
+      case 2: return 'scaleX(-1)';
+      case 3: return 'rotate(180deg)';
+      case 4: return 'scaleY(-1)';
+      case 5: return 'scaleX(-1) rotate(90deg)';
+      case 6: return 'rotate(90deg)';
+      case 7: return 'rotate(90deg) scaleX(-1)';
+      case 8: return 'rotate(-90deg)';
+      default: return '';
+    }
+  }
+
+  /**
+   * Shutter speed the way photographers write it, e.g. "1/250 s".
+   */
+  static formatExposureTime(seconds: number): string {
+    if (seconds >= 1) {
+      return `${parseFloat(seconds.toFixed(1))} s`;
+    }
+    return `1/${Math.round(1 / seconds)} s`;
+  }
+
+  /**
+   * Where the EXIF APP1 segment sits, from its marker to its end. Null when
+   * the data isn't a JPEG or image data starts first.
+   */
+  private static findExifSegment(view: DataView): { start: number; end: number } | null {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) {
+      return null; // Not a JPEG
+    }
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      if (view.getUint8(offset) !== 0xFF) {
+        return null;
+      }
+
+      const marker = view.getUint8(offset + 1);
+      if (marker === 0xDA || marker === 0xD9) {
+        return null; // Image data started without an EXIF segment
+      }
+
+      const length = view.getUint16(offset + 2);
+      const isExif = marker === 0xE1
+        && offset + 10 <= view.byteLength
+        && view.getUint32(offset + 4) === 0x45786966 // "Exif"
+        && view.getUint16(offset + 8) === 0;
+
+      if (isExif) {
+        return { start: offset, end: offset + 2 + length };
+      }
+
+      offset += 2 + length;
+    }
+
+    return null;
+  }
+
+  /**
+   * Set the orientation tag in IFD0 to 1 (upright), where there is one.
+   */
+  private static resetOrientation(view: DataView, start: number): void {
+    const byteOrder = view.getUint16(start);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4D4D) {
+      return;
+    }
+
+    const little = byteOrder === 0x4949;
+    const ifd0 = start + view.getUint32(start + 4, little);
+    if (ifd0 + 2 > view.byteLength) {
+      return;
+    }
+
+    const count = view.getUint16(ifd0, little);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd0 + 2 + i * 12;
+      if (entry + 12 > view.byteLength) {
+        return;
+      }
+      if (view.getUint16(entry, little) === ExifUtil.TAGS.orientation && view.getUint16(entry + 2, little) === 3) {
+        view.setUint16(entry + 8, 1, little);
+        return;
+      }
+    }
+  }
+
+  private static readTiff(view: DataView, start: number, end: number): PhotoMetadata | null {
+    const byteOrder = view.getUint16(start);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4D4D) {
+      return null;
+    }
+
+    const little = byteOrder === 0x4949; // "II" = Intel byte order
+    if (view.getUint16(start + 2, little) !== 42) {
+      return null;
+    }
+
+    const ifd0 = ExifUtil.readIfd(view, start, end, start + view.getUint32(start + 4, little), little);
+    const exifOffset = ifd0.get(ExifUtil.TAGS.exifIfd);
+    const gpsOffset = ifd0.get(ExifUtil.TAGS.gpsIfd);
+    const exif = typeof exifOffset === 'number'
+      ? ExifUtil.readIfd(view, start, end, start + exifOffset, little)
+      : new Map<number, TagValue>();
+    const gps = typeof gpsOffset === 'number'
+      ? ExifUtil.readIfd(view, start, end, start + gpsOffset, little)
+      : new Map<number, TagValue>();
+
+    const t = ExifUtil.TAGS;
+    const orientation = ExifUtil.numberTag(ifd0, t.orientation);
+
+    return {
+      orientation: orientation && orientation >= 1 && orientation <= 8 ? orientation : 1,
+      capturedAt: ExifUtil.toIsoDate(ExifUtil.stringTag(exif, t.dateTimeOriginal) ?? ExifUtil.stringTag(ifd0, t.dateTime)),
+      cameraMake: ExifUtil.stringTag(ifd0, t.make),
+      cameraModel: ExifUtil.stringTag(ifd0, t.model),
+      lensModel: ExifUtil.stringTag(exif, t.lensModel),
+      exposureTime: ExifUtil.numberTag(exif, t.exposureTime),
+      fNumber: ExifUtil.numberTag(exif, t.fNumber),
+      iso: ExifUtil.numberTag(exif, t.iso),
+      focalLength: ExifUtil.numberTag(exif, t.focalLength),
+      gps: ExifUtil.readGps(gps)
+    };
+  }
+
+  /**
+   * Read one image file directory into a map of tag id to value.
+   */
+  private static readIfd(
+    view: DataView,
+    tiffStart: number,
+    end: number,
+    offset: number,
+    little: boolean
+  ): Map<number, TagValue> {
+    const tags = new Map<number, TagValue>();
+    if (offset + 2 > end) {
+      return tags;
+    }
+
+    const count = view.getUint16(offset, little);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > end) {
+        break;
+      }
+
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const valueCount = view.getUint32(entry + 4, little);
+      const typeSize = ExifUtil.TYPE_SIZES[type];
+      if (!typeSize) {
+        continue;
+      }
+
+      // Values of four bytes or less are stored in the entry itself
+      const byteLength = typeSize * valueCount;
+      const valueOffset = byteLength <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+      if (valueOffset + byteLength > end) {
+        continue;
+      }
+
+      const value = ExifUtil.readValue(view, valueOffset, type, valueCount, little);
+      if (value !== null) {
+        tags.set(tag, value);
+      }
+    }
+
+    return tags;
+  }
+
+  private static readValue(view: DataView, offset: number, type: number, count: number, little: boolean): TagValue | null {
+    if (type === 2) {
+      let text = '';
+      for (let i = 0; i < count; i++) {
+        const code = view.getUint8(offset + i);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      return text.trim();
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(view.getUint8(offset + i));
+          break;
+        case 3:
+          values.push(view.getUint16(offset + i * 2, little));
+          break;
+        case 4:
+          values.push(view.getUint32(offset + i * 4, little));
+          break;
+        case 9:
+          values.push(view.getInt32(offset + i * 4, little));
+          break;
+        case 5:
+        case 10: {
+          const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+          const denominator = read(offset + i * 8 + 4, little);
+          values.push(denominator === 0 ? 0 : read(offset + i * 8, little) / denominator);
+          break;
+        }
+      }
+    }
+
+    if (values.length === 0) {
+      return null;
+    }
+    return values.length === 1 ? values[0] : values;
+  }
+
+  private static readGps(gps: Map<number, TagValue>): PhotoMetadata['gps'] {
+    const t = ExifUtil.TAGS;
+    const latitude = ExifUtil.toDegrees(gps.get(t.gpsLatitude), ExifUtil.stringTag(gps, t.gpsLatitudeRef));
+    const longitude = ExifUtil.toDegrees(gps.get(t.gpsLongitude), ExifUtil.stringTag(gps, t.gpsLongitudeRef));
+
+    if (latitude === undefined || longitude === undefined) {
+      return undefined;
+    }
+
+    const altitude = ExifUtil.numberTag(gps, t.gpsAltitude);
+    const belowSeaLevel = ExifUtil.numberTag(gps, t.gpsAltitudeRef) === 1;
+
+    return {
+      latitude,
+      longitude,
+      altitude: altitude === undefined ? undefined : (belowSeaLevel ? -altitude : altitude)
+    };
+  }
+
+  /**
+   * Degrees, minutes and seconds to signed decimal degrees.
+   */
+  private static toDegrees(value: TagValue | undefined, ref: string | undefined): number | undefined {
+    if (!Array.isArray(value) || value.length < 3) {
+      return undefined;
+    }
+
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return ref === 'S' || ref === 'W' ? -degrees : degrees;
+  }
+
+  /**
+   * "2024:06:01 14:30:00" to "2024-06-01T14:30:00". EXIF dates carry no time
+   * zone, so the result is the camera's local time.
+   */
+  private static toIsoDate(value: string | undefined): string | undefined {
+    const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match || match[1] === '0000') {
+      return undefined;
+    }
+    return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+  }
+
+  private static stringTag(tags: Map<number, TagValue>, tag: number): string | undefined {
+    const value = tags.get(tag);
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+
+  private static numberTag(tags: Map<number, TagValue>, tag: number): number | undefined {
+    const value = tags.get(tag);
+    if (typeof value === 'number') {
+      return value;
+    }
+    return Array.isArray(value) ? value[0] : undefined;
+  }
+}
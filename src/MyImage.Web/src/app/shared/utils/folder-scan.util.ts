@@ -0,0 +1,123 @@
+/**
+ * A file picked from a folder, with the folder it came from.
+ */
+export interface ScannedFile {
+  file: File;
+  folderPath: string; // Relative to the folder the user chose, e.g. "Holiday/Day 1"; empty for loose files
+}
+
+/**
+ * What a drop produced: the files that could be read, and the folders that couldn't.
+ */
+export interface FolderScanResult {
+  files: ScannedFile[];
+  unreadableFolders: string[];
+}
+
+/**
+ * Collects files from folders the user selects or drops, keeping track of
+ * the sub-folder each one sits in.
+ */
+export class FolderScanUtil {
+  /**
+   * Files from an `<input type="file">`. With `webkitdirectory` the browser
+   * fills in each file's relative path; without it files have no folder.
+   */
+  static fromFileList(files: FileList | File[]): ScannedFile[] {
+    return Array.from(files).map(file => ({
+      file,
+      folderPath: FolderScanUtil.parentPath(file.webkitRelativePath)
+    }));
+  }
+
+  /**
+   * Files dropped on the page, walking into any folders among them.
+   * Falls back to the plain file list where entries aren't supported.
+   * A folder that can't be read is listed in `unreadableFolders` while the
+   * rest of the drop is still collected.
+   */
+  static async fromDataTransfer(dataTransfer: DataTransfer): Promise<FolderScanResult> {
+    const entries = Array.from(dataTransfer.items)
+      .filter(item => item.kind === 'file')
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+      return { files: FolderScanUtil.fromFileList(dataTransfer.files), unreadableFolders: [] };
+    }
+
+    const result: FolderScanResult = { files: [], unreadableFolders: [] };
+    for (const entry of entries) {
+      await FolderScanUtil.walk(entry, '', result);
+    }
+    return result;
+  }
+
+  /**
+   * Group files by folder, keeping the order folders were first seen in.
+   */
+  static groupByFolder(files: ScannedFile[]): Map<string, File[]> {
+    const groups = new Map<string, File[]>();
+
+    files.forEach(({ file, folderPath }) => {
+      const group = groups.get(folderPath) ?? [];
+      group.push(file);
+      groups.set(folderPath, group);
+    });
+
+    return groups;
+  }
+
+  private static async walk(entry: FileSystemEntry, folderPath: string, result: FolderScanResult): Promise<void> {
+    if (entry.isFile) {
+      try {
+        result.files.push({ file: await FolderScanUtil.readFile(entry as FileSystemFileEntry), folderPath });
+      } catch (error) {
+        console.warn('FolderScanUtil - Could not read file:', entry.fullPath, error);
+      }
+      return;
+    }
+
+    if (entry.isDirectory) {
+      const path = folderPath ? `${folderPath}/${entry.name}` : entry.name;
+      let children: FileSystemEntry[];
+      try {
+        children = await FolderScanUtil.readDirectory(entry as FileSystemDirectoryEntry);
+      } catch (error) {
+        console.warn('FolderScanUtil - Could not read folder:', entry.fullPath, error);
+        result.unreadableFolders.push(path);
+        return;
+      }
+
+      for (const child of children) {
+        await FolderScanUtil.walk(child, path, result);
+      }
+    }
+  }
+
+  private static readFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+  }
+
+  /**
+   * All entries of a directory. Browsers hand them out in batches (Chrome
+   * stops at 100), so keep reading until an empty batch comes back.
+   */
+  private static async readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = entry.createReader();
+    const entries: FileSystemEntry[] = [];
+
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) {
+        return entries;
+      }
+      entries.push(...batch);
+    }
+  }
+
+  private static parentPath(relativePath: string): string {
+    const index = relativePath.lastIndexOf('/');
+    return index > 0 ? relativePath.substring(0, index) : '';
+  }
+}
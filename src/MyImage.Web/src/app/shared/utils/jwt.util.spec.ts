@@ -0,0 +1,64 @@
+import { JwtUtil } from './jwt.util';
+
+// Unsigned token with the given claims, base64url-encoded like the API's
+function token(payload: object): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return `header.${base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}.signature`;
+}
+
+describe('JwtUtil', () => {
+  describe('decodePayload', () => {
+    it('should read claims from an unpadded base64url payload', () => {
+      expect(JwtUtil.decodePayload(token({ sub: 'user-1', exp: 1700000000 }))).toEqual({ sub: 'user-1', exp: 1700000000 });
+    });
+
+    it('should decode non-ASCII claims as UTF-8', () => {
+      expect(JwtUtil.decodePayload(token({ name: 'Zoë Ångström' }))?.['name']).toBe('Zoë Ångström');
+    });
+
+    it('should return null for malformed tokens', () => {
+      expect(JwtUtil.decodePayload('not-a-token')).toBeNull();
+      expect(JwtUtil.decodePayload('a.b')).toBeNull();
+      expect(JwtUtil.decodePayload('header.%%%.signature')).toBeNull();
+    });
+  });
+
+  describe('getExpirationDate', () => {
+    it('should convert the exp claim from seconds', () => {
+      expect(JwtUtil.getExpirationDate(token({ exp: 1700000000 }))).toEqual(new Date(1700000000 * 1000));
+    });
+
+    it('should return null without a numeric exp claim', () => {
+      expect(JwtUtil.getExpirationDate(token({ sub: 'user-1' }))).toBeNull();
+      expect(JwtUtil.getExpirationDate(token({ exp: '1700000000' }))).toBeNull();
+    });
+  });
+
+  describe('isExpired', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const nowSeconds = now.getTime() / 1000;
+
+    beforeEach(() => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(now);
+    });
+
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('should treat a token as expired from its exp time on', () => {
+      expect(JwtUtil.isExpired(token({ exp: nowSeconds - 1 }))).toBeTrue();
+      expect(JwtUtil.isExpired(token({ exp: nowSeconds }))).toBeTrue();
+      expect(JwtUtil.isExpired(token({ exp: nowSeconds + 1 }))).toBeFalse();
+    });
+
+    it('should count a token expiring within the offset as expired', () => {
+      expect(JwtUtil.isExpired(token({ exp: nowSeconds + 30 }), 60)).toBeTrue();
+      expect(JwtUtil.isExpired(token({ exp: nowSeconds + 90 }), 60)).toBeFalse();
+    });
+
+    it('should leave tokens without an expiry to the API', () => {
+      expect(JwtUtil.isExpired(token({ sub: 'user-1' }))).toBeFalse();
+    });
+  });
+});
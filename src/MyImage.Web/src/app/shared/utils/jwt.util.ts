@@ -0,0 +1,44 @@
+export class JwtUtil {
+  // Decode the payload segment of a JWT without verifying the signature
+  // Verification is the API's job - the client only reads claims for display and scheduling
+  static decodePayload(token: string): { [key: string]: any } | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    try {
+      // JWT uses base64url, atob expects standard base64 with padding
+      const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+      const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+      return JSON.parse(decodeURIComponent(
+        atob(padded)
+          .split('')
+          .map(char => '%' + ('00' + char.charCodeAt(0).toString(16)).slice(-2))
+          .join('')
+      ));
+    } catch {
+      return null;
+    }
+  }
+
+  // Get the expiration date from the "exp" claim (seconds since epoch)
+  static getExpirationDate(token: string): Date | null {
+    const payload = this.decodePayload(token);
+    if (!payload || typeof payload['exp'] !== 'number') {
+      return null;
+    }
+
+    return new Date(payload['exp'] * 1000);
+  }
+
+  // Check whether the token is past its expiration date
+  static isExpired(token: string, offsetSeconds: number = 0): boolean {
+    const expiresAt = this.getExpirationDate(token);
+    if (!expiresAt) {
+      return false;
+    }
+
+    return expiresAt.getTime() <= Date.now() + offsetSeconds * 1000;
+  }
+}
@@ -0,0 +1,206 @@
+import { convertToParamMap } from '@angular/router';
+import { Photo, PhotoQuery } from '../models/photo.models';
+import { PrintSize } from '../models/print-size.models';
+import { PhotoQueryUtil } from './photo-query.util';
+
+function photo(id: string, changes: Partial<Photo> = {}): Photo {
+  return {
+    id,
+    filename: `${id}.jpg`,
+    fileSize: 1000,
+    uploadedAt: '2026-01-01T00:00:00Z',
+    thumbnailUrl: '',
+    downloadUrl: '',
+    dimensions: { width: 3000, height: 2000, aspectRatio: '3:2' },
+    isOrdered: false,
+    sourceFolder: '',
+    ...changes
+  };
+}
+
+const taken = (capturedAt: string) => ({ metadata: { orientation: 1, capturedAt } });
+const ids = (photos: Photo[]) => photos.map(p => p.id);
+
+describe('PhotoQueryUtil', () => {
+  const query = (changes: Partial<PhotoQuery> = {}): PhotoQuery => ({ ...PhotoQueryUtil.DEFAULT, ...changes });
+
+  describe('fromParams', () => {
+    it('should use the defaults for an empty URL', () => {
+      expect(PhotoQueryUtil.fromParams(convertToParamMap({}))).toEqual(jasmine.objectContaining(PhotoQueryUtil.DEFAULT));
+      expect(PhotoQueryUtil.hasFilters(PhotoQueryUtil.fromParams(convertToParamMap({})))).toBeFalse();
+    });
+
+    it('should read every option', () => {
+      const params = { sort: 'fileSize', dir: 'asc', q: ' beach ', ordered: 'no', orientation: 'portrait', folder: 'Trips/2025', minSize: '8x10' };
+
+      expect(PhotoQueryUtil.fromParams(convertToParamMap(params))).toEqual({
+        sortBy: 'fileSize',
+        sortDirection: 'asc',
+        search: 'beach',
+        isOrdered: false,
+        orientation: 'portrait',
+        sourceFolder: 'Trips/2025',
+        minPrintSize: '8x10'
+      });
+    });
+
+    it('should ignore values it does not recognise', () => {
+      const read = PhotoQueryUtil.fromParams(convertToParamMap({ sort: 'likes', dir: 'up', ordered: 'maybe', orientation: 'diagonal', q: '  ' }));
+
+      expect(read).toEqual(jasmine.objectContaining({ sortBy: 'uploadedAt', search: undefined, isOrdered: undefined, orientation: undefined }));
+    });
+
+    it('should sort names A to Z unless told otherwise', () => {
+      expect(PhotoQueryUtil.fromParams(convertToParamMap({ sort: 'filename' })).sortDirection).toBe('asc');
+      expect(PhotoQueryUtil.fromParams(convertToParamMap({ sort: 'filename', dir: 'desc' })).sortDirection).toBe('desc');
+      expect(PhotoQueryUtil.fromParams(convertToParamMap({ sort: 'capturedAt' })).sortDirection).toBe('desc');
+    });
+  });
+
+  describe('toParams', () => {
+    it('should clear options left at their default', () => {
+      expect(PhotoQueryUtil.toParams(PhotoQueryUtil.DEFAULT)).toEqual({
+        sort: null, dir: null, q: null, ordered: null, orientation: null, folder: null, minSize: null
+      });
+      expect(PhotoQueryUtil.toParams(query({ sortBy: 'filename', sortDirection: 'asc' }))).toEqual(jasmine.objectContaining({ sort: 'filename', dir: null }));
+    });
+
+    it('should read back the query it wrote', () => {
+      const written = query({ sortBy: 'capturedAt', sortDirection: 'asc', search: 'beach', isOrdered: true, orientation: 'square', sourceFolder: 'Trips', minPrintSize: '4x6' });
+      const params = Object.fromEntries(Object.entries(PhotoQueryUtil.toParams(written)).filter(([, value]) => value !== null));
+
+      expect(PhotoQueryUtil.fromParams(convertToParamMap(params))).toEqual(written);
+    });
+  });
+
+  describe('equals', () => {
+    it('should compare what the queries ask for', () => {
+      expect(PhotoQueryUtil.equals(query(), { sortBy: 'uploadedAt', sortDirection: 'desc', search: '' })).toBeTrue();
+      expect(PhotoQueryUtil.equals(query(), query({ sortDirection: 'asc' }))).toBeFalse();
+      expect(PhotoQueryUtil.equals(query(), query({ isOrdered: false }))).toBeFalse();
+    });
+  });
+
+  describe('toApiParams', () => {
+    it('should send only the options that are set', () => {
+      expect(PhotoQueryUtil.toApiParams(query())).toEqual({ sortBy: 'uploadedAt', sortDirection: 'desc' });
+      expect(PhotoQueryUtil.toApiParams(query({ search: 'beach', isOrdered: false, sourceFolder: 'Trips', minPrintSize: '8x10' })))
+        .toEqual({ sortBy: 'uploadedAt', sortDirection: 'desc', search: 'beach', isOrdered: 'false', sourceFolder: 'Trips', minPrintSize: '8x10' });
+    });
+  });
+
+  describe('isApplied', () => {
+    it('should accept what the API echoes back, nulls and all', () => {
+      const asked = query({ sortBy: 'filename', sortDirection: 'asc', search: 'beach' });
+
+      expect(PhotoQueryUtil.isApplied(asked, { ...asked, isOrdered: null, sourceFolder: null } as unknown as Partial<PhotoQuery>)).toBeTrue();
+    });
+
+    it('should notice options the API left out', () => {
+      expect(PhotoQueryUtil.isApplied(query({ sortBy: 'capturedAt' }), query())).toBeFalse();
+      expect(PhotoQueryUtil.isApplied(query({ orientation: 'portrait' }), query())).toBeFalse();
+    });
+
+    it('should treat an API that says nothing as newest uploads first', () => {
+      expect(PhotoQueryUtil.isApplied(query(), undefined)).toBeTrue();
+      expect(PhotoQueryUtil.isApplied(query({ search: 'beach' }), undefined)).toBeFalse();
+    });
+  });
+
+  describe('apply', () => {
+    it('should keep the API order for newest uploads first', () => {
+      const photos = [photo('b', { uploadedAt: '2026-01-01T00:00:00Z' }), photo('a', { uploadedAt: '2026-02-01T00:00:00Z' })];
+
+      expect(ids(PhotoQueryUtil.apply(photos, query()))).toEqual(['b', 'a']);
+      expect(ids(PhotoQueryUtil.apply(photos, query({ sortDirection: 'asc' })))).toEqual(['b', 'a']);
+    });
+
+    it('should sort filenames in natural order, ignoring case', () => {
+      const photos = [photo('1', { filename: 'IMG_10.jpg' }), photo('2', { filename: 'img_2.jpg' }), photo('3', { filename: 'IMG_1.jpg' })];
+
+      expect(ids(PhotoQueryUtil.apply(photos, query({ sortBy: 'filename', sortDirection: 'asc' })))).toEqual(['3', '2', '1']);
+      expect(ids(PhotoQueryUtil.apply(photos, query({ sortBy: 'filename', sortDirection: 'desc' })))).toEqual(['1', '2', '3']);
+    });
+
+    it('should put photos without a date taken last and keep ties in order', () => {
+      const photos = [
+        photo('undated-1'),
+        photo('june', taken('2025-06-01T10:00:00')),
+        photo('undated-2'),
+        photo('may', taken('2025-05-01T10:00:00')),
+        photo('june-too', taken('2025-06-01T10:00:00'))
+      ];
+
+      expect(ids(PhotoQueryUtil.apply(photos, query({ sortBy: 'capturedAt', sortDirection: 'desc' }))))
+        .toEqual(['june', 'june-too', 'may', 'undated-1', 'undated-2']);
+      expect(ids(PhotoQueryUtil.apply(photos, query({ sortBy: 'capturedAt', sortDirection: 'asc' }))))
+        .toEqual(['may', 'june', 'june-too', 'undated-1', 'undated-2']);
+    });
+
+    it('should sort by file size and by pixel count', () => {
+      const photos = [
+        photo('big-file', { fileSize: 9000, dimensions: { width: 1000, height: 1000, aspectRatio: '1:1' } }),
+        photo('small-file', { fileSize: 10, dimensions: { width: 4000, height: 3000, aspectRatio: '4:3' } })
+      ];
+
+      expect(ids(PhotoQueryUtil.apply(photos, query({ sortBy: 'fileSize', sortDirection: 'asc' })))).toEqual(['small-file', 'big-file']);
+      expect(ids(PhotoQueryUtil.apply(photos, query({ sortBy: 'resolution', sortDirection: 'desc' })))).toEqual(['small-file', 'big-file']);
+    });
+
+    it('should not reorder the array it is given', () => {
+      const photos = [photo('b'), photo('a')];
+      PhotoQueryUtil.apply(photos, query({ sortBy: 'filename', sortDirection: 'asc' }));
+
+      expect(ids(photos)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('matches', () => {
+    it('should search filenames regardless of case', () => {
+      expect(PhotoQueryUtil.matches(photo('Beach-Day'), query({ search: 'beach' }))).toBeTrue();
+      expect(PhotoQueryUtil.matches(photo('mountain'), query({ search: 'beach' }))).toBeFalse();
+    });
+
+    it('should filter on order status and folder', () => {
+      const ordered = photo('a', { isOrdered: true, sourceFolder: 'Trips' });
+
+      expect(PhotoQueryUtil.matches(ordered, query({ isOrdered: true }))).toBeTrue();
+      expect(PhotoQueryUtil.matches(ordered, query({ isOrdered: false }))).toBeFalse();
+      expect(PhotoQueryUtil.matches(ordered, query({ sourceFolder: 'Trips' }))).toBeTrue();
+      expect(PhotoQueryUtil.matches(ordered, query({ sourceFolder: 'Home' }))).toBeFalse();
+    });
+
+    it('should filter on orientation as the photo is shown', () => {
+      const sideways = photo('a', { metadata: { orientation: 6 } });
+
+      expect(PhotoQueryUtil.matches(sideways, query({ orientation: 'portrait' }))).toBeTrue();
+      expect(PhotoQueryUtil.matches(sideways, query({ orientation: 'landscape' }))).toBeFalse();
+    });
+
+    it('should keep photos that print well at the minimum size', () => {
+      const sizes = [{ sizeCode: '8x10', width: 8, height: 10, unit: 'inches', recommendedWidth: 2400, recommendedHeight: 3000, minWidth: 1600, minHeight: 2000 } as PrintSize];
+
+      expect(PhotoQueryUtil.matches(photo('a'), query({ minPrintSize: '8x10' }), sizes)).toBeFalse();
+      expect(PhotoQueryUtil.matches(photo('a', { dimensions: { width: 3000, height: 2400, aspectRatio: '5:4' } }), query({ minPrintSize: '8x10' }), sizes)).toBeTrue();
+    });
+
+    it('should not filter on print size before the sizes have loaded', () => {
+      expect(PhotoQueryUtil.matches(photo('a'), query({ minPrintSize: '8x10' }))).toBeTrue();
+    });
+  });
+
+  describe('orientation', () => {
+    it('should tell landscape, portrait and square apart', () => {
+      const sized = (width: number, height: number) => photo('a', { dimensions: { width, height, aspectRatio: '' } });
+
+      expect(PhotoQueryUtil.orientation(sized(3000, 2000))).toBe('landscape');
+      expect(PhotoQueryUtil.orientation(sized(2000, 3000))).toBe('portrait');
+      expect(PhotoQueryUtil.orientation(sized(2000, 2000))).toBe('square');
+    });
+
+    it('should turn the sides for EXIF orientations 5 to 8', () => {
+      expect(PhotoQueryUtil.orientation(photo('a', { metadata: { orientation: 8 } }))).toBe('portrait');
+      expect(PhotoQueryUtil.orientation(photo('a', { metadata: { orientation: 3 } }))).toBe('landscape');
+    });
+  });
+});
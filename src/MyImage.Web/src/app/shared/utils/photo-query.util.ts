@@ -0,0 +1,176 @@
+import { ParamMap, Params } from '@angular/router';
+import { Photo, PhotoOrientation, PhotoQuery, PhotoSortField } from '../models/photo.models';
+import { PrintSize } from '../models/print-size.models';
+import { PrintQualityUtil } from './print-quality.util';
+
+/**
+ * Moves gallery sort and filter options in and out of the URL query string,
+ * so a view can be shared or reloaded. Defaults are left out of the URL.
+ *
+ * The API applies what it can and echoes back what it applied. Date taken
+ * and orientation need EXIF, which the API doesn't store, so those (and
+ * everything, with an older API) are applied here to the loaded photos.
+ */
+export class PhotoQueryUtil {
+  static readonly DEFAULT: PhotoQuery = { sortBy: 'uploadedAt', sortDirection: 'desc' };
+
+  private static readonly SORT_FIELDS: PhotoSortField[] = ['uploadedAt', 'capturedAt', 'filename', 'fileSize', 'resolution'];
+  private static readonly ORIENTATIONS: PhotoOrientation[] = ['landscape', 'portrait', 'square'];
+
+  /**
+   * Read options from the URL, ignoring values that aren't recognised.
+   */
+  static fromParams(params: ParamMap): PhotoQuery {
+    const sort = params.get('sort') as PhotoSortField;
+    const orientation = params.get('orientation') as PhotoOrientation;
+    const ordered = params.get('ordered');
+
+    return {
+      sortBy: PhotoQueryUtil.SORT_FIELDS.includes(sort) ? sort : PhotoQueryUtil.DEFAULT.sortBy,
+      sortDirection: params.get('dir') === 'asc' ? 'asc' : params.get('dir') === 'desc' ? 'desc' : PhotoQueryUtil.defaultDirection(sort),
+      search: params.get('q')?.trim() || undefined,
+      isOrdered: ordered === 'yes' ? true : ordered === 'no' ? false : undefined,
+      orientation: PhotoQueryUtil.ORIENTATIONS.includes(orientation) ? orientation : undefined,
+      sourceFolder: params.get('folder') || undefined,
+      minPrintSize: params.get('minSize') || undefined
+    };
+  }
+
+  /**
+   * Query params for the router. Options at their default are set to null
+   * so navigating with `queryParamsHandling: 'merge'` removes them.
+   */
+  static toParams(query: PhotoQuery): Params {
+    return {
+      sort: query.sortBy !== PhotoQueryUtil.DEFAULT.sortBy ? query.sortBy : null,
+      dir: query.sortDirection !== PhotoQueryUtil.defaultDirection(query.sortBy) ? query.sortDirection : null,
+      q: query.search || null,
+      ordered: query.isOrdered === undefined ? null : query.isOrdered ? 'yes' : 'no',
+      orientation: query.orientation ?? null,
+      folder: query.sourceFolder ?? null,
+      minSize: query.minPrintSize ?? null
+    };
+  }
+
+  /**
+   * Whether two queries ask for the same photos in the same order.
+   */
+  static equals(a: PhotoQuery, b: PhotoQuery): boolean {
+    const params = (query: PhotoQuery) => JSON.stringify(PhotoQueryUtil.toParams(query));
+    return params(a) === params(b);
+  }
+
+  /**
+   * Params for `GET /photos`. Options the API can't apply are sent anyway;
+   * it ignores them and leaves them out of the query it echoes.
+   */
+  static toApiParams(query: PhotoQuery): { [param: string]: string } {
+    const params: { [param: string]: string | undefined } = {
+      sortBy: query.sortBy,
+      sortDirection: query.sortDirection,
+      search: query.search,
+      isOrdered: query.isOrdered?.toString(),
+      sourceFolder: query.sourceFolder,
+      minPrintSize: query.minPrintSize
+    };
+    return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as { [param: string]: string };
+  }
+
+  /**
+   * Whether the query the API says it applied covers everything asked for.
+   * An API that doesn't say lists newest uploads first, unfiltered.
+   */
+  static isApplied(query: PhotoQuery, applied: Partial<PhotoQuery> | null | undefined): boolean {
+    const given = Object.fromEntries(Object.entries(applied ?? {}).filter(([, value]) => value !== null));
+    return PhotoQueryUtil.equals(query, { ...PhotoQueryUtil.DEFAULT, ...given });
+  }
+
+  static hasFilters(query: PhotoQuery): boolean {
+    return !!query.search || query.isOrdered !== undefined || !!query.orientation || !!query.sourceFolder || !!query.minPrintSize;
+  }
+
+  /**
+   * The photos that match the query's filters, in its order. Photos that
+   * tie, or have no date taken, keep the order they came in.
+   */
+  static apply(photos: Photo[], query: PhotoQuery, printSizes: PrintSize[] = []): Photo[] {
+    const matching = photos.filter(photo => PhotoQueryUtil.matches(photo, query, printSizes));
+    if (PhotoQueryUtil.isUploadOrder(query)) {
+      return matching;
+    }
+
+    const direction = query.sortDirection === 'asc' ? 1 : -1;
+    return matching.sort((a, b) => {
+      const first = PhotoQueryUtil.sortValue(a, query.sortBy);
+      const second = PhotoQueryUtil.sortValue(b, query.sortBy);
+
+      // Photos without the value go last either way
+      if (first === undefined || second === undefined) {
+        return first === second ? 0 : first === undefined ? 1 : -1;
+      }
+      if (typeof first === 'string' && typeof second === 'string') {
+        return direction * first.localeCompare(second, undefined, { numeric: true, sensitivity: 'base' });
+      }
+      return direction * ((first as number) - (second as number));
+    });
+  }
+
+  static matches(photo: Photo, query: PhotoQuery, printSizes: PrintSize[] = []): boolean {
+    if (query.search && !photo.filename.toLowerCase().includes(query.search.toLowerCase())) {
+      return false;
+    }
+    if (query.isOrdered !== undefined && photo.isOrdered !== query.isOrdered) {
+      return false;
+    }
+    if (query.orientation && PhotoQueryUtil.orientation(photo) !== query.orientation) {
+      return false;
+    }
+    if (query.sourceFolder && photo.sourceFolder !== query.sourceFolder) {
+      return false;
+    }
+
+    // Until print sizes have loaded there is nothing to compare against
+    const size = query.minPrintSize ? printSizes.find(s => s.sizeCode === query.minPrintSize) : undefined;
+    return !size || !!PrintQualityUtil.printFit(photo.dimensions.width, photo.dimensions.height, [size]).largestGood;
+  }
+
+  /**
+   * Whether the query keeps the API's order, so each new page only adds to the end.
+   */
+  static isUploadOrder(query: PhotoQuery): boolean {
+    return query.sortBy === 'uploadedAt' && query.sortDirection === 'desc';
+  }
+
+  /**
+   * Orientation as the photo is shown, after any EXIF rotation.
+   */
+  static orientation(photo: Photo): PhotoOrientation {
+    const { width, height } = photo.dimensions;
+    const rotated = (photo.metadata?.orientation ?? 1) >= 5; // EXIF 5-8 turn the photo on its side
+    const [shownWidth, shownHeight] = rotated ? [height, width] : [width, height];
+
+    return shownWidth === shownHeight ? 'square' : shownWidth > shownHeight ? 'landscape' : 'portrait';
+  }
+
+  /**
+   * Names read A to Z; dates and sizes read newest or largest first.
+   */
+  static defaultDirection(sortBy: PhotoSortField | null | undefined): 'asc' | 'desc' {
+    return sortBy === 'filename' ? 'asc' : 'desc';
+  }
+
+  private static sortValue(photo: Photo, sortBy: PhotoSortField): number | string | undefined {
+    switch (sortBy) {
+      case 'uploadedAt': return PhotoQueryUtil.time(photo.uploadedAt);
+      case 'capturedAt': return PhotoQueryUtil.time(photo.metadata?.capturedAt);
+      case 'filename': return photo.filename;
+      case 'fileSize': return photo.fileSize;
+      case 'resolution': return photo.dimensions.width * photo.dimensions.height;
+    }
+  }
+
+  private static time(value: string | undefined): number | undefined {
+    const time = value ? Date.parse(value) : NaN;
+    return isNaN(time) ? undefined : time;
+  }
+}
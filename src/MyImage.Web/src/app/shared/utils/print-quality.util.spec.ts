@@ -0,0 +1,112 @@
+import { PrintSize } from '../models/print-size.models';
+import { PrintQualityUtil } from './print-quality.util';
+
+function printSize(sizeCode: string, width: number, height: number, unit: string, recommended: [number, number], min: [number, number]): PrintSize {
+  return {
+    id: sizeCode,
+    sizeCode,
+    displayName: sizeCode,
+    width,
+    height,
+    unit,
+    price: 1,
+    currency: 'USD',
+    isActive: true,
+    recommendedWidth: recommended[0],
+    recommendedHeight: recommended[1],
+    minWidth: min[0],
+    minHeight: min[1]
+  };
+}
+
+// RGBA pixels where each pixel's grey level comes from `level(x, y)`
+function pixels(width: number, height: number, level: (x: number, y: number) => number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([level(x, y), level(x, y), level(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+}
+
+describe('PrintQualityUtil', () => {
+  const small = printSize('4x6', 4, 6, 'inches', [1200, 1800], [800, 1200]);
+  const medium = printSize('8x10', 8, 10, 'inches', [2400, 3000], [1600, 2000]);
+  const large = printSize('16x20', 16, 20, 'inches', [4800, 6000], [3200, 4000]);
+  const sizes = [medium, large, small];
+
+  describe('printFit', () => {
+    it('should find the largest sizes at the recommended and minimum resolutions', () => {
+      const fit = PrintQualityUtil.printFit(2500, 2000, sizes);
+
+      expect(fit.largestGood).toBe(small);
+      expect(fit.largestAcceptable).toBe(medium);
+      expect(fit.dpi).toBe(417);
+    });
+
+    it('should fit the photo whichever way round it is', () => {
+      expect(PrintQualityUtil.printFit(2000, 2500, sizes)).toEqual(PrintQualityUtil.printFit(2500, 2000, sizes));
+      expect(PrintQualityUtil.printFit(6000, 4800, sizes).largestGood).toBe(large);
+    });
+
+    it('should report nothing for photos too small to print', () => {
+      expect(PrintQualityUtil.printFit(600, 400, sizes)).toEqual({ largestGood: undefined, largestAcceptable: undefined, dpi: undefined });
+    });
+  });
+
+  describe('dpi', () => {
+    it('should use the side with the lowest resolution', () => {
+      expect(PrintQualityUtil.dpi(1800, 1000, small)).toBe(250);
+      expect(PrintQualityUtil.dpi(1500, 1200, small)).toBe(250);
+    });
+
+    it('should convert centimetre sizes to inches', () => {
+      const a4ish = printSize('20x30', 20, 30, 'cm', [2362, 3543], [1575, 2362]);
+
+      expect(PrintQualityUtil.dpi(3543, 2362, a4ish)).toBe(300);
+    });
+  });
+
+  describe('analyze', () => {
+    it('should report the full-size dimensions it is given', () => {
+      const analysis = PrintQualityUtil.analyze(6000, 4000, pixels(4, 4, () => 128), 4, 4);
+
+      expect(analysis.width).toBe(6000);
+      expect(analysis.height).toBe(4000);
+    });
+
+    it('should call a flat image blurry and a detailed one sharp', () => {
+      const flat = PrintQualityUtil.analyze(10, 10, pixels(10, 10, () => 128), 10, 10);
+      const checkerboard = PrintQualityUtil.analyze(10, 10, pixels(10, 10, (x, y) => (x + y) % 2 ? 200 : 60), 10, 10);
+
+      expect(flat.sharpness).toBe(0);
+      expect(flat.isBlurry).toBeTrue();
+      expect(checkerboard.sharpness).toBeGreaterThan(1000);
+      expect(checkerboard.isBlurry).toBeFalse();
+    });
+
+    it('should judge exposure from brightness and clipping', () => {
+      const exposure = (level: (x: number, y: number) => number) => PrintQualityUtil.analyze(10, 10, pixels(10, 10, level), 10, 10);
+
+      expect(exposure(() => 128).exposure).toBe('ok');
+      expect(exposure(() => 30).exposure).toBe('under');
+      expect(exposure(() => 230).exposure).toBe('over');
+      expect(exposure((x) => x < 3 ? 0 : 140).exposure).toBe('under');
+      expect(exposure((x) => x < 3 ? 255 : 120).exposure).toBe('over');
+    });
+
+    it('should measure clipping as a share of pixels', () => {
+      const analysis = PrintQualityUtil.analyze(10, 10, pixels(10, 10, (x) => x < 1 ? 2 : x > 7 ? 252 : 128), 10, 10);
+
+      expect(analysis.shadowClipping).toBeCloseTo(0.1);
+      expect(analysis.highlightClipping).toBeCloseTo(0.2);
+    });
+
+    it('should weigh colour channels by luma', () => {
+      const red = new Uint8ClampedArray([255, 0, 0, 255]);
+
+      expect(PrintQualityUtil.analyze(1, 1, red, 1, 1).meanBrightness).toBe(76);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { ExposureLevel, ImageAnalysis, PrintFit } from '../models/print-quality.models';
+import { PrintSize } from '../models/print-size.models';
+
+/**
+ * Print-quality checks on raw pixels. Has no DOM or Angular dependencies so
+ * it can run inside the analysis worker.
+ */
+export class PrintQualityUtil {
+  // Photos are scaled to this long edge before measuring, so scores compare across cameras
+  static readonly ANALYSIS_SIZE = 1024;
+
+  // Below this Laplacian variance a photo at ANALYSIS_SIZE shows visible softness
+  private static readonly BLUR_THRESHOLD = 100;
+
+  // More than this share of clipped pixels, or a mean this far off, is badly exposed
+  private static readonly CLIPPING_LIMIT = 0.2;
+  private static readonly DARK_MEAN = 50;
+  private static readonly BRIGHT_MEAN = 205;
+
+  private static readonly CM_PER_INCH = 2.54;
+
+  /**
+   * Measure sharpness and exposure from RGBA pixels of the scaled-down photo.
+   * `width` and `height` are the full-size dimensions, reported as they are.
+   */
+  static analyze(
+    width: number,
+    height: number,
+    pixels: Uint8ClampedArray,
+    sampleWidth: number,
+    sampleHeight: number
+  ): ImageAnalysis {
+    const grey = PrintQualityUtil.toGrey(pixels, sampleWidth * sampleHeight);
+    const sharpness = PrintQualityUtil.laplacianVariance(grey, sampleWidth, sampleHeight);
+    const histogram = new Uint32Array(256);
+    grey.forEach(value => histogram[value]++);
+
+    const total = grey.length || 1;
+    let sum = 0;
+    histogram.forEach((count, value) => sum += count * value);
+
+    // The darkest and brightest few levels count as clipped - JPEG noise rarely leaves exact 0 or 255
+    const shadowClipping = histogram.subarray(0, 6).reduce((a, b) => a + b, 0) / total;
+    const highlightClipping = histogram.subarray(250).reduce((a, b) => a + b, 0) / total;
+    const meanBrightness = sum / total;
+
+    return {
+      width,
+      height,
+      sharpness: Math.round(sharpness),
+      isBlurry: sharpness < PrintQualityUtil.BLUR_THRESHOLD,
+      exposure: PrintQualityUtil.exposure(meanBrightness, shadowClipping, highlightClipping),
+      meanBrightness: Math.round(meanBrightness),
+      shadowClipping,
+      highlightClipping
+    };
+  }
+
+  /**
+   * The largest print sizes the photo covers at the recommended and at the
+   * minimum resolution, in whichever orientation suits it.
+   */
+  static printFit(width: number, height: number, printSizes: PrintSize[]): PrintFit {
+    const photoLong = Math.max(width, height);
+    const photoShort = Math.min(width, height);
+    const covers = (longPx: number, shortPx: number) =>
+      photoLong >= Math.max(longPx, shortPx) && photoShort >= Math.min(longPx, shortPx);
+
+    const bySize = [...printSizes].sort((a, b) => PrintQualityUtil.area(b) - PrintQualityUtil.area(a));
+    const largestGood = bySize.find(size => covers(size.recommendedWidth, size.recommendedHeight));
+    const largestAcceptable = bySize.find(size => covers(size.minWidth, size.minHeight));
+
+    return {
+      largestGood,
+      largestAcceptable,
+      dpi: largestGood ? PrintQualityUtil.dpi(photoLong, photoShort, largestGood) : undefined
+    };
+  }
+
+  /**
+   * Lowest resolution across both sides when the photo fills the print.
+   */
+  static dpi(photoLong: number, photoShort: number, size: PrintSize): number {
+    const inches = (value: number) => size.unit.toLowerCase().startsWith('cm') ? value / PrintQualityUtil.CM_PER_INCH : value;
+    const printLong = inches(Math.max(size.width, size.height));
+    const printShort = inches(Math.min(size.width, size.height));
+    return Math.round(Math.min(photoLong / printLong, photoShort / printShort));
+  }
+
+  private static area(size: PrintSize): number {
+    return size.width * size.height;
+  }
+
+  private static exposure(mean: number, shadowClipping: number, highlightClipping: number): ExposureLevel {
+    if (shadowClipping > PrintQualityUtil.CLIPPING_LIMIT || mean < PrintQualityUtil.DARK_MEAN) {
+      return 'under';
+    }
+    if (highlightClipping > PrintQualityUtil.CLIPPING_LIMIT || mean > PrintQualityUtil.BRIGHT_MEAN) {
+      return 'over';
+    }
+    return 'ok';
+  }
+
+  /**
+   * Rec. 601 luma from RGBA.
+   */
+  private static toGrey(pixels: Uint8ClampedArray, count: number): Uint8Array {
+    const grey = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      const o = i * 4;
+      grey[i] = (pixels[o] * 299 + pixels[o + 1] * 587 + pixels[o + 2] * 114) / 1000;
+    }
+    return grey;
+  }
+
+  /**
+   * Variance of the 4-neighbour Laplacian. Sharp edges give strong responses,
+   * so a blurred photo has a low variance.
+   */
+  private static laplacianVariance(grey: Uint8Array, width: number, height: number): number {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const value = grey[i - width] + grey[i + width] + grey[i - 1] + grey[i + 1] - 4 * grey[i];
+        sum += value;
+        sumSquares += value * value;
+        count++;
+      }
+    }
+
+    if (count === 0) {
+      return 0;
+    }
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+}
@@ -0,0 +1,292 @@
+import { TiffDecoderUtil } from './tiff-decoder.util';
+
+const TAGS = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  extraSamples: 338
+};
+
+// Single-image TIFF: header, one directory, values that don't fit in their entry, then the strips
+function tiff(tags: { [tag: number]: number[] }, strips: Uint8Array[], little = true): ArrayBuffer {
+  const all: { [tag: number]: number[] } = {
+    ...tags,
+    [TAGS.stripOffsets]: strips.map(() => 0),
+    [TAGS.stripByteCounts]: strips.map(strip => strip.length)
+  };
+  const entries = Object.keys(all).map(Number).sort((a, b) => a - b).map(tag => ({
+    tag,
+    values: all[tag],
+    size: tag === TAGS.stripOffsets || tag === TAGS.stripByteCounts || all[tag].some(v => v > 0xFFFF) ? 4 : 2
+  }));
+
+  const external = (entry: { values: number[]; size: number }) => entry.values.length * entry.size > 4 ? entry.values.length * entry.size : 0;
+  let data = 8 + 2 + entries.length * 12 + 4;
+  let stripStart = data + entries.reduce((sum, entry) => sum + external(entry), 0);
+  all[TAGS.stripOffsets].forEach((_, i) => {
+    all[TAGS.stripOffsets][i] = stripStart;
+    stripStart += strips[i].length;
+  });
+
+  const bytes = new Uint8Array(stripStart);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, little ? 0x4949 : 0x4D4D);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+  view.setUint16(8, entries.length, little);
+
+  entries.forEach((entry, i) => {
+    const at = 10 + i * 12;
+    view.setUint16(at, entry.tag, little);
+    view.setUint16(at + 2, entry.size === 4 ? 4 : 3, little);
+    view.setUint32(at + 4, entry.values.length, little);
+
+    let valueAt = at + 8;
+    if (external(entry)) {
+      view.setUint32(at + 8, data, little);
+      valueAt = data;
+      data += external(entry);
+    }
+    entry.values.forEach((value, v) => entry.size === 4
+      ? view.setUint32(valueAt + v * 4, value, little)
+      : view.setUint16(valueAt + v * 2, value, little));
+  });
+
+  let offset = all[TAGS.stripOffsets][0];
+  strips.forEach(strip => {
+    bytes.set(strip, offset);
+    offset += strip.length;
+  });
+
+  return bytes.buffer;
+}
+
+// Writes codes most significant bit first, as TIFF LZW does
+function bitWriter() {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+
+  return {
+    write(code: number, width: number): void {
+      buffer = (buffer << width) | code;
+      bufferBits += width;
+      while (bufferBits >= 8) {
+        bytes.push((buffer >> (bufferBits - 8)) & 0xFF);
+        bufferBits -= 8;
+      }
+      buffer &= (1 << bufferBits) - 1;
+    },
+    bytes(): Uint8Array {
+      return Uint8Array.from(bufferBits > 0 ? [...bytes, (buffer << (8 - bufferBits)) & 0xFF] : bytes);
+    }
+  };
+}
+
+// LZW encoder as libtiff writes it, widening codes one entry early
+function lzw(data: Uint8Array): Uint8Array {
+  const writer = bitWriter();
+  const table = new Map<string, number>();
+  const code = (sequence: string) => sequence.length === 1 ? sequence.charCodeAt(0) : table.get(sequence)!;
+  let width = 9;
+  let next = 258;
+
+  writer.write(256, width);
+  let current = String.fromCharCode(data[0]);
+  for (let i = 1; i < data.length; i++) {
+    const joined = current + String.fromCharCode(data[i]);
+    if (table.has(joined)) {
+      current = joined;
+      continue;
+    }
+    writer.write(code(current), width);
+    table.set(joined, next++);
+    if (next >= 1 << width) {
+      width++;
+    }
+    current = String.fromCharCode(data[i]);
+  }
+  writer.write(code(current), width);
+  writer.write(257, next + 1 >= 1 << width ? width + 1 : width);
+
+  return writer.bytes();
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const grey = (width: number, height: number, extra: { [tag: number]: number[] } = {}) => ({
+  [TAGS.width]: [width],
+  [TAGS.height]: [height],
+  [TAGS.bitsPerSample]: [8],
+  [TAGS.photometric]: [1],
+  ...extra
+});
+
+const rgb = (width: number, height: number, extra: { [tag: number]: number[] } = {}) => ({
+  [TAGS.width]: [width],
+  [TAGS.height]: [height],
+  [TAGS.bitsPerSample]: [8, 8, 8],
+  [TAGS.samplesPerPixel]: [3],
+  [TAGS.photometric]: [2],
+  ...extra
+});
+
+// Red channel of each decoded pixel, which is the grey level for greyscale images
+const levels = (data: Uint8ClampedArray) => Array.from(data.filter((_, i) => i % 4 === 0));
+
+describe('TiffDecoderUtil', () => {
+  describe('isTiff', () => {
+    it('should recognise both byte orders', () => {
+      expect(TiffDecoderUtil.isTiff(Uint8Array.of(0x49, 0x49, 42, 0, 8, 0, 0, 0).buffer)).toBeTrue();
+      expect(TiffDecoderUtil.isTiff(Uint8Array.of(0x4D, 0x4D, 0, 42, 0, 0, 0, 8).buffer)).toBeTrue();
+    });
+
+    it('should reject other files and short headers', () => {
+      expect(TiffDecoderUtil.isTiff(Uint8Array.of(0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A).buffer)).toBeFalse();
+      expect(TiffDecoderUtil.isTiff(Uint8Array.of(0x49, 0x49, 42, 0).buffer)).toBeFalse();
+    });
+  });
+
+  describe('decode', () => {
+    it('should decode uncompressed greyscale split over several strips', async () => {
+      const image = await TiffDecoderUtil.decode(tiff(
+        grey(2, 3, { [TAGS.rowsPerStrip]: [1] }),
+        [Uint8Array.of(0, 50), Uint8Array.of(100, 150), Uint8Array.of(200, 255)]
+      ));
+
+      expect(image.width).toBe(2);
+      expect(image.height).toBe(3);
+      expect(Array.from(image.data.subarray(0, 8))).toEqual([0, 0, 0, 255, 50, 50, 50, 255]);
+      expect(levels(image.data)).toEqual([0, 50, 100, 150, 200, 255]);
+    });
+
+    it('should read Motorola byte order files and 16-bit samples', async () => {
+      const image = await TiffDecoderUtil.decode(tiff(
+        grey(2, 1, { [TAGS.bitsPerSample]: [16] }),
+        [Uint8Array.of(0xFF, 0xFF, 0x80, 0x80)],
+        false
+      ));
+
+      expect(levels(image.data)).toEqual([255, 128]);
+    });
+
+    it('should unpack 1-bit white-is-zero rows padded to whole bytes', async () => {
+      const image = await TiffDecoderUtil.decode(tiff(
+        grey(3, 2, { [TAGS.bitsPerSample]: [1], [TAGS.photometric]: [0] }),
+        [Uint8Array.of(0b10100000, 0b01000000)]
+      ));
+
+      expect(levels(image.data)).toEqual([0, 255, 0, 255, 0, 255]);
+    });
+
+    it('should look colours up in the palette', async () => {
+      const image = await TiffDecoderUtil.decode(tiff(
+        grey(2, 1, { [TAGS.bitsPerSample]: [1], [TAGS.photometric]: [3], [TAGS.colorMap]: [0xFF00, 0, 0, 0xFF00, 0, 0x8000] }),
+        [Uint8Array.of(0b01000000)]
+      ));
+
+      expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 255, 128, 255]);
+    });
+
+    it('should convert CMYK to RGB', async () => {
+      const image = await TiffDecoderUtil.decode(tiff(
+        {
+          [TAGS.width]: [2], [TAGS.height]: [1], [TAGS.bitsPerSample]: [8, 8, 8, 8],
+          [TAGS.samplesPerPixel]: [4], [TAGS.photometric]: [5]
+        },
+        [Uint8Array.of(0, 0, 0, 0, 0, 255, 255, 0)]
+      ));
+
+      expect(Array.from(image.data)).toEqual([255, 255, 255, 255, 255, 0, 0, 255]);
+    });
+
+    it('should keep straight alpha and unpremultiply associated alpha', async () => {
+      const rgba = (alphaType: number) => tiff(
+        rgb(1, 1, { [TAGS.bitsPerSample]: [8, 8, 8, 8], [TAGS.samplesPerPixel]: [4], [TAGS.extraSamples]: [alphaType] }),
+        [Uint8Array.of(10, 20, 30, 51)]
+      );
+
+      expect(Array.from((await TiffDecoderUtil.decode(rgba(2))).data)).toEqual([10, 20, 30, 51]);
+      expect(Array.from((await TiffDecoderUtil.decode(rgba(1))).data)).toEqual([50, 100, 150, 51]);
+    });
+
+    it('should undo horizontal differencing', async () => {
+      const image = await TiffDecoderUtil.decode(tiff(
+        rgb(3, 1, { [TAGS.predictor]: [2] }),
+        [Uint8Array.of(10, 20, 30, 5, 5, 5, 251, 0, 1)]
+      ));
+
+      expect(Array.from(image.data)).toEqual([10, 20, 30, 255, 15, 25, 35, 255, 10, 25, 36, 255]);
+    });
+
+    it('should unpack PackBits runs and literals', async () => {
+      // Example from Apple's PackBits technical note
+      const packed = Uint8Array.of(0xFE, 0xAA, 0x02, 0x80, 0x00, 0x2A, 0xFD, 0xAA, 0x03, 0x80, 0x00, 0x2A, 0x22, 0xF7, 0xAA);
+      const image = await TiffDecoderUtil.decode(tiff(grey(24, 1, { [TAGS.compression]: [32773] }), [packed]));
+
+      expect(levels(image.data)).toEqual([
+        0xAA, 0xAA, 0xAA, 0x80, 0x00, 0x2A, 0xAA, 0xAA, 0xAA, 0xAA, 0x80, 0x00,
+        0x2A, 0x22, 0xAA, 0xAA, 0xAA, 0xAA, 0xAA, 0xAA, 0xAA, 0xAA, 0xAA, 0xAA
+      ]);
+    });
+
+    it('should decode LZW, including a code used as soon as it is defined', async () => {
+      const pixels = Uint8Array.of(7, 7, 7, 7, 7, 7, 7, 1, 2, 1, 2, 1, 2);
+      const image = await TiffDecoderUtil.decode(tiff(grey(pixels.length, 1, { [TAGS.compression]: [5] }), [lzw(pixels)]));
+
+      expect(levels(image.data)).toEqual(Array.from(pixels));
+    });
+
+    it('should decode LZW once codes grow past 9 bits', async () => {
+      const pixels = Uint8Array.from({ length: 64 * 64 }, (_, i) => (i * 7919 + (i >> 5)) % 251);
+      const image = await TiffDecoderUtil.decode(tiff(grey(64, 64, { [TAGS.compression]: [5] }), [lzw(pixels)]));
+
+      expect(levels(image.data)).toEqual(Array.from(pixels));
+    });
+
+    it('should inflate Deflate strips', async () => {
+      const pixels = Uint8Array.from({ length: 4 * 4 }, (_, i) => i * 16);
+      const image = await TiffDecoderUtil.decode(tiff(grey(4, 4, { [TAGS.compression]: [8] }), [await deflate(pixels)]));
+
+      expect(levels(image.data)).toEqual(Array.from(pixels));
+    });
+
+    it('should reject corrupt LZW data', async () => {
+      const writer = bitWriter();
+      writer.write(256, 9);
+      writer.write(300, 9);
+
+      await expectAsync(TiffDecoderUtil.decode(tiff(grey(2, 1, { [TAGS.compression]: [5] }), [writer.bytes()])))
+        .toBeRejectedWithError('The TIFF image data is corrupt');
+    });
+
+    it('should explain which files it cannot decode', async () => {
+      const strip = [Uint8Array.of(0, 0)];
+
+      await expectAsync(TiffDecoderUtil.decode(new ArrayBuffer(16))).toBeRejectedWithError('The file is not a valid TIFF image');
+      await expectAsync(TiffDecoderUtil.decode(tiff(grey(2, 1, { [TAGS.tileWidth]: [16] }), strip)))
+        .toBeRejectedWithError('Tiled TIFF files are not supported');
+      await expectAsync(TiffDecoderUtil.decode(tiff(grey(2, 1, { [TAGS.compression]: [7] }), strip)))
+        .toBeRejectedWithError('JPEG-compressed TIFF files are not supported');
+      await expectAsync(TiffDecoderUtil.decode(tiff(grey(2, 1, { [TAGS.bitsPerSample]: [12] }), strip)))
+        .toBeRejectedWithError('TIFF files with 12-bit samples are not supported');
+      await expectAsync(TiffDecoderUtil.decode(tiff(grey(2, 1, { [TAGS.photometric]: [3] }), strip)))
+        .toBeRejectedWithError('The TIFF palette is missing');
+      await expectAsync(TiffDecoderUtil.decode(tiff(grey(2, 1, { [TAGS.photometric]: [6] }), strip)))
+        .toBeRejectedWithError('The TIFF colour space is not supported');
+      await expectAsync(TiffDecoderUtil.decode(tiff(grey(0, 1), strip))).toBeRejectedWithError('The TIFF image has no size');
+    });
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * Pixels of a decoded image, four bytes (RGBA) per pixel.
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Decoder for the TIFF files customers are likely to have: the first image
+ * of a strip-based file, uncompressed or PackBits/LZW/Deflate compressed, in
+ * bilevel, greyscale, palette, RGB(A) or CMYK at 1-16 bits per sample.
+ *
+ * Browsers can't display TIFF, so this is what lets them be converted to
+ * JPEG before upload. Anything outside that range throws an Error whose
+ * message can be shown to the customer as is.
+ */
+export class TiffDecoderUtil {
+  private static readonly TAGS = {
+    width: 256,
+    height: 257,
+    bitsPerSample: 258,
+    compression: 259,
+    photometric: 262,
+    stripOffsets: 273,
+    samplesPerPixel: 277,
+    rowsPerStrip: 278,
+    stripByteCounts: 279,
+    planarConfiguration: 284,
+    predictor: 317,
+    colorMap: 320,
+    tileWidth: 322,
+    extraSamples: 338
+  };
+
+  private static readonly COMPRESSION = {
+    none: 1,
+    lzw: 5,
+    oldJpeg: 6,
+    jpeg: 7,
+    adobeDeflate: 8,
+    packBits: 32773,
+    deflate: 32946
+  };
+
+  private static readonly PHOTOMETRIC = {
+    whiteIsZero: 0,
+    blackIsZero: 1,
+    rgb: 2,
+    palette: 3,
+    cmyk: 5
+  };
+
+  /**
+   * Whether the bytes start with a TIFF header ("II*\0" or "MM\0*").
+   */
+  static isTiff(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 8) {
+      return false;
+    }
+    const view = new DataView(buffer);
+    const order = view.getUint16(0);
+    return (order === 0x4949 && view.getUint16(2, true) === 42)
+      || (order === 0x4D4D && view.getUint16(2, false) === 42);
+  }
+
+  static async decode(buffer: ArrayBuffer): Promise<DecodedImage> {
+    if (!TiffDecoderUtil.isTiff(buffer)) {
+      throw new Error('The file is not a valid TIFF image');
+    }
+
+    const view = new DataView(buffer);
+    const little = view.getUint16(0) === 0x4949;
+    const tags = TiffDecoderUtil.readIfd(view, view.getUint32(4, little), little);
+    const t = TiffDecoderUtil.TAGS;
+    const first = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+    const width = first(t.width, 0);
+    const height = first(t.height, 0);
+    const samplesPerPixel = first(t.samplesPerPixel, 1);
+    const bits = first(t.bitsPerSample, 1);
+    const compression = first(t.compression, TiffDecoderUtil.COMPRESSION.none);
+    const photometric = first(t.photometric, TiffDecoderUtil.PHOTOMETRIC.blackIsZero);
+    const rowsPerStrip = Math.min(first(t.rowsPerStrip, height), height);
+    const stripOffsets = tags.get(t.stripOffsets) ?? [];
+    const stripByteCounts = tags.get(t.stripByteCounts) ?? [];
+
+    if (width === 0 || height === 0) {
+      throw new Error('The TIFF image has no size');
+    }
+    if (tags.has(t.tileWidth)) {
+      throw new Error('Tiled TIFF files are not supported');
+    }
+    if (first(t.planarConfiguration, 1) !== 1) {
+      throw new Error('TIFF files with separate colour planes are not supported');
+    }
+    if ((tags.get(t.bitsPerSample) ?? [bits]).some(b => b !== bits) || ![1, 2, 4, 8, 16].includes(bits)) {
+      throw new Error(`TIFF files with ${bits}-bit samples are not supported`);
+    }
+    if (stripOffsets.length === 0) {
+      throw new Error('The TIFF file contains no image data');
+    }
+
+    const rowBytes = Math.ceil(width * samplesPerPixel * bits / 8);
+    const raw = new Uint8Array(rowBytes * height);
+
+    for (let strip = 0; strip < stripOffsets.length; strip++) {
+      const start = strip * rowsPerStrip * rowBytes;
+      if (start >= raw.length) {
+        break;
+      }
+
+      const offset = stripOffsets[strip];
+      const byteCount = stripByteCounts[strip] ?? buffer.byteLength - offset;
+      const source = new Uint8Array(buffer, offset, Math.min(byteCount, buffer.byteLength - offset));
+      const expected = Math.min(rowsPerStrip * rowBytes, raw.length - start);
+
+      raw.set((await TiffDecoderUtil.decompress(source, compression, expected)).subarray(0, expected), start);
+    }
+
+    if (first(t.predictor, 1) === 2) {
+      TiffDecoderUtil.undoPredictor(raw, width, height, rowBytes, samplesPerPixel, bits, little);
+    }
+
+    return {
+      width,
+      height,
+      data: TiffDecoderUtil.toRgba(raw, width, height, rowBytes, samplesPerPixel, bits, photometric, little, tags)
+    };
+  }
+
+  /**
+   * Read an image file directory. Only numeric values are kept.
+   */
+  private static readIfd(view: DataView, offset: number, little: boolean): Map<number, number[]> {
+    const tags = new Map<number, number[]>();
+    const count = view.getUint16(offset, little);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const valueCount = view.getUint32(entry + 4, little);
+      const size = type === 3 ? 2 : type === 4 ? 4 : type === 1 ? 1 : 0;
+      if (size === 0) {
+        continue; // Strings and rationals aren't needed to decode pixels
+      }
+
+      // Values of four bytes or less are stored in the entry itself
+      const valueOffset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+      const values: number[] = [];
+      for (let v = 0; v < valueCount; v++) {
+        const at = valueOffset + v * size;
+        values.push(size === 2 ? view.getUint16(at, little) : size === 4 ? view.getUint32(at, little) : view.getUint8(at));
+      }
+      tags.set(tag, values);
+    }
+
+    return tags;
+  }
+
+  private static async decompress(source: Uint8Array, compression: number, expected: number): Promise<Uint8Array> {
+    const c = TiffDecoderUtil.COMPRESSION;
+
+    switch (compression) {
+      case c.none:
+        return source;
+      case c.packBits:
+        return TiffDecoderUtil.unpackBits(source, expected);
+      case c.lzw:
+        return TiffDecoderUtil.decodeLzw(source, expected);
+      case c.adobeDeflate:
+      case c.deflate: {
+        const stream = new Blob([source]).stream().pipeThrough(new DecompressionStream('deflate'));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+      }
+      case c.oldJpeg:
+      case c.jpeg:
+        throw new Error('JPEG-compressed TIFF files are not supported');
+      default:
+        throw new Error(`TIFF compression type ${compression} is not supported`);
+    }
+  }
+
+  private static unpackBits(source: Uint8Array, expected: number): Uint8Array {
+    const out = new Uint8Array(expected);
+    let i = 0;
+    let o = 0;
+
+    while (i < source.length && o < expected) {
+      const n = (source[i++] << 24) >> 24; // Signed byte
+
+      if (n >= 0) {
+        // n + 1 literal bytes
+        out.set(source.subarray(i, i + n + 1).subarray(0, expected - o), o);
+        o += n + 1;
+        i += n + 1;
+      } else if (n !== -128) {
+        // The next byte repeated 1 - n times
+        out.fill(source[i++], o, Math.min(expected, o + 1 - n));
+        o += 1 - n;
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * TIFF flavour of LZW: codes are written most significant bit first and
+   * grow a bit wide one code earlier than in GIF.
+   */
+  private static decodeLzw(source: Uint8Array, expected: number): Uint8Array {
+    const CLEAR = 256;
+    const END = 257;
+    const out = new Uint8Array(expected);
+    const table: Uint8Array[] = [];
+    for (let i = 0; i < 256; i++) {
+      table.push(Uint8Array.of(i));
+    }
+
+    let o = 0;
+    let bitPos = 0;
+    let codeLength = 9;
+    let nextCode = 258;
+    let previous: Uint8Array | null = null;
+
+    const readCode = (): number => {
+      if (bitPos + codeLength > source.length * 8) {
+        return END;
+      }
+      let code = 0;
+      for (let n = 0; n < codeLength; n++, bitPos++) {
+        code = (code << 1) | ((source[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+      }
+      return code;
+    };
+
+    const write = (entry: Uint8Array) => {
+      const length = Math.min(entry.length, expected - o);
+      out.set(entry.subarray(0, length), o);
+      o += length;
+    };
+
+    while (o < expected) {
+      const code = readCode();
+      if (code === END) {
+        break;
+      }
+
+      if (code === CLEAR) {
+        table.length = 258;
+        codeLength = 9;
+        nextCode = 258;
+        previous = null;
+        continue;
+      }
+
+      let entry: Uint8Array;
+      if (code < nextCode && table[code]) {
+        entry = table[code];
+      } else if (previous && code === nextCode) {
+        entry = TiffDecoderUtil.append(previous, previous[0]);
+      } else {
+        throw new Error('The TIFF image data is corrupt');
+      }
+
+      write(entry);
+
+      if (previous) {
+        table[nextCode++] = TiffDecoderUtil.append(previous, entry[0]);
+        if (nextCode >= (1 << codeLength) - 1 && codeLength < 12) {
+          codeLength++;
+        }
+      }
+      previous = entry;
+    }
+
+    return out;
+  }
+
+  private static append(entry: Uint8Array, byte: number): Uint8Array {
+    const longer = new Uint8Array(entry.length + 1);
+    longer.set(entry);
+    longer[entry.length] = byte;
+    return longer;
+  }
+
+  /**
+   * Horizontal differencing: each sample was stored as the difference from
+   * the same sample of the pixel to its left.
+   */
+  private static undoPredictor(
+    raw: Uint8Array,
+    width: number,
+    height: number,
+    rowBytes: number,
+    samplesPerPixel: number,
+    bits: number,
+    little: boolean
+  ): void {
+    if (bits !== 8 && bits !== 16) {
+      return;
+    }
+
+    const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+    const samplesPerRow = width * samplesPerPixel;
+
+    for (let y = 0; y < height; y++) {
+      const row = y * rowBytes;
+      for (let i = samplesPerPixel; i < samplesPerRow; i++) {
+        if (bits === 8) {
+          raw[row + i] = (raw[row + i] + raw[row + i - samplesPerPixel]) & 0xFF;
+        } else {
+          const at = row + i * 2;
+          const left = view.getUint16(at - samplesPerPixel * 2, little);
+          view.setUint16(at, (view.getUint16(at, little) + left) & 0xFFFF, little);
+        }
+      }
+    }
+  }
+
+  private static toRgba(
+    raw: Uint8Array,
+    width: number,
+    height: number,
+    rowBytes: number,
+    samplesPerPixel: number,
+    bits: number,
+    photometric: number,
+    little: boolean,
+    tags: Map<number, number[]>
+  ): Uint8ClampedArray {
+    const p = TiffDecoderUtil.PHOTOMETRIC;
+    const max = (1 << bits) - 1;
+    const sample = TiffDecoderUtil.sampleReader(raw, bits, little);
+    const to8 = (value: number) => Math.round(value * 255 / max);
+    const rgba = new Uint8ClampedArray(width * height * 4);
+
+    // An extra sample marked as alpha: 1 = premultiplied, 2 = straight
+    const colorSamples = photometric === p.rgb ? 3 : photometric === p.cmyk ? 4 : 1;
+    const alphaType = samplesPerPixel > colorSamples ? tags.get(TiffDecoderUtil.TAGS.extraSamples)?.[0] ?? 0 : 0;
+    const hasAlpha = alphaType === 1 || alphaType === 2;
+
+    const colorMap = tags.get(TiffDecoderUtil.TAGS.colorMap);
+    if (photometric === p.palette && (!colorMap || colorMap.length < 3 * (1 << bits))) {
+      throw new Error('The TIFF palette is missing');
+    }
+    if (photometric === p.rgb && samplesPerPixel < 3) {
+      throw new Error('The TIFF colour data is incomplete');
+    }
+    if (photometric === p.cmyk && samplesPerPixel < 4) {
+      throw new Error('The TIFF colour data is incomplete');
+    }
+    if (![p.whiteIsZero, p.blackIsZero, p.rgb, p.palette, p.cmyk].includes(photometric)) {
+      throw new Error('The TIFF colour space is not supported');
+    }
+
+    for (let y = 0; y < height; y++) {
+      const row = y * rowBytes;
+
+      for (let x = 0; x < width; x++) {
+        const s = x * samplesPerPixel;
+        const o = (y * width + x) * 4;
+        let r: number;
+        let g: number;
+        let b: number;
+
+        switch (photometric) {
+          case p.whiteIsZero:
+            r = g = b = 255 - to8(sample(row, s));
+            break;
+          case p.blackIsZero:
+            r = g = b = to8(sample(row, s));
+            break;
+          case p.palette: {
+            // Red entries, then green, then blue, each 16-bit
+            const index = sample(row, s);
+            const entries = 1 << bits;
+            r = colorMap![index] >> 8;
+            g = colorMap![entries + index] >> 8;
+            b = colorMap![2 * entries + index] >> 8;
+            break;
+          }
+          case p.cmyk: {
+            const k = 255 - to8(sample(row, s + 3));
+            r = (255 - to8(sample(row, s))) * k / 255;
+            g = (255 - to8(sample(row, s + 1))) * k / 255;
+            b = (255 - to8(sample(row, s + 2))) * k / 255;
+            break;
+          }
+          default:
+            r = to8(sample(row, s));
+            g = to8(sample(row, s + 1));
+            b = to8(sample(row, s + 2));
+        }
+
+        const alpha = hasAlpha ? to8(sample(row, s + colorSamples)) : 255;
+        if (alphaType === 1 && alpha > 0 && alpha < 255) {
+          r = r * 255 / alpha;
+          g = g * 255 / alpha;
+          b = b * 255 / alpha;
+        }
+
+        rgba[o] = r;
+        rgba[o + 1] = g;
+        rgba[o + 2] = b;
+        rgba[o + 3] = alpha;
+      }
+    }
+
+    return rgba;
+  }
+
+  /**
+   * Reads sample number `index` of the row starting at byte `rowStart`.
+   */
+  private static sampleReader(raw: Uint8Array, bits: number, little: boolean): (rowStart: number, index: number) => number {
+    if (bits === 8) {
+      return (rowStart, index) => raw[rowStart + index];
+    }
+    if (bits === 16) {
+      return (rowStart, index) => {
+        const at = rowStart + index * 2;
+        return little ? raw[at] | (raw[at + 1] << 8) : (raw[at] << 8) | raw[at + 1];
+      };
+    }
+
+    // 1, 2 or 4 bits: packed from the most significant bit, rows padded to whole bytes
+    const mask = (1 << bits) - 1;
+    return (rowStart, index) => {
+      const bit = index * bits;
+      return (raw[rowStart + (bit >> 3)] >> (8 - bits - (bit & 7))) & mask;
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { TotpUtil } from './totp.util';
+
+describe('TotpUtil', () => {
+  // RFC 6238 appendix B: the ASCII secret "12345678901234567890", base32 encoded
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('base32', () => {
+    it('should encode the RFC 4648 test vectors without padding', () => {
+      const encode = (text: string) => TotpUtil.base32Encode(new TextEncoder().encode(text));
+
+      expect(encode('')).toBe('');
+      expect(encode('f')).toBe('MY');
+      expect(encode('foob')).toBe('MZXW6YQ');
+      expect(encode('foobar')).toBe('MZXW6YTBOI');
+      expect(encode('12345678901234567890')).toBe(rfcSecret);
+    });
+
+    it('should decode ignoring case, spaces and padding', () => {
+      expect(new TextDecoder().decode(TotpUtil.base32Decode('mzxw 6ytb oi======'))).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => TotpUtil.base32Decode('MZXW1')).toThrowError(/Invalid base32 character: 1/);
+    });
+  });
+
+  describe('generateCode', () => {
+    // Six-digit tails of the RFC's eight-digit SHA-1 values
+    const vectors: [number, string][] = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'] // Counter above 32 bits
+    ];
+
+    vectors.forEach(([seconds, code]) => {
+      it(`should match the RFC 6238 code at ${seconds}s`, async () => {
+        expect(await TotpUtil.generateCode(rfcSecret, seconds * 1000)).toBe(code);
+      });
+    });
+  });
+
+  describe('verifyCode', () => {
+    const now = 1111111111 * 1000;
+
+    beforeEach(() => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(now));
+    });
+
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('should accept the current code, with or without spaces', async () => {
+      expect(await TotpUtil.verifyCode(rfcSecret, '050471')).toBeTrue();
+      expect(await TotpUtil.verifyCode(rfcSecret, '050 471')).toBeTrue();
+    });
+
+    it('should accept codes one step either side for clock drift', async () => {
+      expect(await TotpUtil.verifyCode(rfcSecret, await TotpUtil.generateCode(rfcSecret, now - 30000))).toBeTrue();
+      expect(await TotpUtil.verifyCode(rfcSecret, await TotpUtil.generateCode(rfcSecret, now + 30000))).toBeTrue();
+    });
+
+    it('should reject codes outside the window', async () => {
+      expect(await TotpUtil.verifyCode(rfcSecret, await TotpUtil.generateCode(rfcSecret, now - 90000))).toBeFalse();
+      expect(await TotpUtil.verifyCode(rfcSecret, await TotpUtil.generateCode(rfcSecret, now - 90000), 3)).toBeTrue();
+    });
+
+    it('should reject anything that is not six digits', async () => {
+      expect(await TotpUtil.verifyCode(rfcSecret, '50471')).toBeFalse();
+      expect(await TotpUtil.verifyCode(rfcSecret, '05047a')).toBeFalse();
+    });
+  });
+
+  it('should generate 160-bit secrets that decode back to 20 bytes', () => {
+    const secret = TotpUtil.generateSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(TotpUtil.base32Decode(secret).length).toBe(20);
+  });
+
+  it('should build an otpauth URI with the issuer and account in the label', () => {
+    const uri = TotpUtil.buildOtpauthUri('MyImage', 'ann@example.com', rfcSecret);
+
+    expect(uri).toBe(`otpauth://totp/MyImage%3Aann%40example.com?secret=${rfcSecret}&issuer=MyImage&algorithm=SHA1&digits=6&period=30`);
+  });
+
+  it('should generate distinct recovery codes in the form xxxxx-xxxxx', () => {
+    const codes = TotpUtil.generateRecoveryCodes(8);
+
+    expect(codes.length).toBe(8);
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    expect(new Set(codes).size).toBe(8);
+  });
+});
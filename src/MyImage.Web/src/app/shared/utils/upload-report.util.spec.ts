@@ -0,0 +1,70 @@
+import { FailedUpload } from '../models/photo.models';
+import { UploadReportUtil } from './upload-report.util';
+
+describe('UploadReportUtil', () => {
+  describe('reason', () => {
+    it('should describe each error code in plain words', () => {
+      expect(UploadReportUtil.reason('FILE_TOO_LARGE')).toBe('Too large');
+      expect(UploadReportUtil.reason('VALIDATION_FAILED')).toBe('Corrupt or unreadable');
+      expect(UploadReportUtil.reason('NETWORK_ERROR')).toBe('Connection lost');
+    });
+
+    it('should fall back to a server error for unknown codes', () => {
+      expect(UploadReportUtil.reason('SOMETHING_NEW' as any)).toBe('Server error');
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should not retry failures caused by the file itself', () => {
+      expect(UploadReportUtil.isRetryable('FILE_TOO_LARGE')).toBeFalse();
+      expect(UploadReportUtil.isRetryable('EMPTY_FILE')).toBeFalse();
+      expect(UploadReportUtil.isRetryable('INVALID_FORMAT')).toBeFalse();
+      expect(UploadReportUtil.isRetryable('VALIDATION_FAILED')).toBeFalse();
+    });
+
+    it('should retry server and connection failures', () => {
+      expect(UploadReportUtil.isRetryable('SERVER_ERROR')).toBeTrue();
+      expect(UploadReportUtil.isRetryable('PROCESSING_ERROR')).toBeTrue();
+      expect(UploadReportUtil.isRetryable('NETWORK_ERROR')).toBeTrue();
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write a header row only when nothing failed', () => {
+      expect(UploadReportUtil.toCsv([])).toBe('"Filename","Reason","Error Code","Details"');
+    });
+
+    it('should write one CRLF-separated row per failure', () => {
+      const failures: FailedUpload[] = [
+        { filename: 'a.jpg', errorCode: 'FILE_TOO_LARGE', errorMessage: 'File is too large' },
+        { filename: 'b.jpg', errorCode: 'NETWORK_ERROR', errorMessage: 'Connection lost' }
+      ];
+
+      expect(UploadReportUtil.toCsv(failures).split('\r\n')).toEqual([
+        '"Filename","Reason","Error Code","Details"',
+        '"a.jpg","Too large","FILE_TOO_LARGE","File is too large"',
+        '"b.jpg","Connection lost","NETWORK_ERROR","Connection lost"'
+      ]);
+    });
+
+    it('should quote commas, quotes and line breaks so columns stay in place', () => {
+      const csv = UploadReportUtil.toCsv([
+        { filename: 'Beach, "day 1".jpg', errorCode: 'SERVER_ERROR', errorMessage: 'Line one\nline two' }
+      ]);
+
+      expect(csv.split('\r\n')[1]).toBe('"Beach, ""day 1"".jpg","Server error","SERVER_ERROR","Line one\nline two"');
+    });
+
+    it('should stop spreadsheets reading filenames and messages as formulas', () => {
+      const csv = UploadReportUtil.toCsv([
+        { filename: '=HYPERLINK("x").jpg', errorCode: 'SERVER_ERROR', errorMessage: '-1 bytes' },
+        { filename: '+1.jpg', errorCode: 'SERVER_ERROR', errorMessage: '@SUM(A1)' }
+      ]);
+
+      expect(csv.split('\r\n').slice(1)).toEqual([
+        '"\'=HYPERLINK(""x"").jpg","Server error","SERVER_ERROR","\'-1 bytes"',
+        '"\'+1.jpg","Server error","SERVER_ERROR","\'@SUM(A1)"'
+      ]);
+    });
+  });
+});
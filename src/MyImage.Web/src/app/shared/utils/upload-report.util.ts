@@ -0,0 +1,47 @@
+import { FailedUpload, UploadErrorCode } from '../models/photo.models';
+
+/**
+ * Plain-language reasons for failed uploads and the downloadable report.
+ */
+export class UploadReportUtil {
+  private static readonly REASONS: { [code in UploadErrorCode]: string } = {
+    FILE_TOO_LARGE: 'Too large',
+    EMPTY_FILE: 'Empty file',
+    INVALID_FORMAT: 'Unsupported format',
+    VALIDATION_FAILED: 'Corrupt or unreadable',
+    PROCESSING_ERROR: 'Server error',
+    SERVER_ERROR: 'Server error',
+    NETWORK_ERROR: 'Connection lost'
+  };
+
+  // Trying again can't help with these - the file itself has to change
+  private static readonly PERMANENT: UploadErrorCode[] = ['FILE_TOO_LARGE', 'EMPTY_FILE', 'INVALID_FORMAT', 'VALIDATION_FAILED'];
+
+  static reason(code: UploadErrorCode): string {
+    return UploadReportUtil.REASONS[code] ?? 'Server error';
+  }
+
+  static isRetryable(code: UploadErrorCode): boolean {
+    return !UploadReportUtil.PERMANENT.includes(code);
+  }
+
+  /**
+   * CSV with one row per failed file. Quoted so commas and quotes in
+   * filenames or messages can't shift the columns, and cells that a
+   * spreadsheet would run as a formula are prefixed with an apostrophe.
+   */
+  static toCsv(failures: FailedUpload[]): string {
+    const text = (value: string) => /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    const quote = (value: string) => `"${text(value).replace(/"/g, '""')}"`;
+    const rows = failures.map(failure => [
+      failure.filename,
+      UploadReportUtil.reason(failure.errorCode),
+      failure.errorCode,
+      failure.errorMessage
+    ]);
+
+    return [['Filename', 'Reason', 'Error Code', 'Details'], ...rows]
+      .map(row => row.map(quote).join(','))
+      .join('\r\n');
+  }
+}
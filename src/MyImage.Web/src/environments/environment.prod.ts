@@ -2,8 +2,20 @@ export const environment = {
   production: true,
   apiUrl: '/api',
   maxFileSize: 52428800,
-  supportedFormats: ['.jpg', '.jpeg'],
+  uploadChunkSize: 5242880,
+  uploadConcurrency: 3,
+  supportedFormats: ['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff'], // Non-JPEG files are converted to JPEG before upload
+  idleTimeout: {
+    defaultMinutes: 30,
+    kioskMinutes: 3,
+    warningSeconds: 60
+  },
+  twoFactor: {
+    issuer: 'MyImage',
+    useLocalVerifier: false
+  },
   encryptionPublicKey: '',
-  tokenKey: 'myimage_token'
+  tokenKey: 'myimage_token',
+  refreshTokenKey: 'myimage_refresh_token'
 };
 // Require more config to work
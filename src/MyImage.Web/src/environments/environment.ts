@@ -6,7 +6,9 @@
 
   // Photo upload settings
   maxFileSize: 52428800, // 50MB
-  supportedFormats: ['.jpg', '.jpeg'],
+  uploadChunkSize: 5242880, // 5MB per request - a dropped connection only loses one chunk
+  uploadConcurrency: 3, // Files uploaded at the same time by the upload queue
+  supportedFormats: ['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff'], // Non-JPEG files are converted to JPEG before upload
 
   // UI configuration
   defaultPageSize: 20,
@@ -16,11 +18,27 @@
     galleryPageSize: 12
   },
 
+  // Inactivity sign-out (kiosk mode is switched on per device by an admin)
+  idleTimeout: {
+    defaultMinutes: 30,
+    kioskMinutes: 3,
+    warningSeconds: 60
+  },
+
+  // Two-factor authentication - the local verifier keeps TOTP secrets in the
+  // browser so the flow can be tried before the API supports it. It secures
+  // nothing, so only switch it on locally; production builds ignore it.
+  twoFactor: {
+    issuer: 'MyImage',
+    useLocalVerifier: false
+  },
+
   // Debug settings for development
   enableDebugMode: true,
   logApiCalls: true,
 
   // Encrytion key
   encryptionPublicKey: '', // RSA public key for credit cards
-  tokenKey: 'myimage_token'
+  tokenKey: 'myimage_token',
+  refreshTokenKey: 'myimage_refresh_token'
 };